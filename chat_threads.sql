@@ -0,0 +1,30 @@
+-- Persist Chat with Graph threads per project
+create table if not exists public.chat_threads (
+  id uuid default gen_random_uuid() primary key,
+  project_id uuid references public.projects(id) on delete cascade not null,
+  thread_id text not null, -- Business ID (e.g. chat-<timestamp>-<rand>)
+  unique (project_id, thread_id),
+  title text,
+  messages jsonb default '[]'::jsonb, -- 消息（角色、内容、上下文节点、修改提案）
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- RLS: Chat Threads
+alter table public.chat_threads enable row level security;
+
+create policy "Users can view chat threads in their projects"
+  on public.chat_threads for select
+  using ( exists ( select 1 from public.projects where projects.id = chat_threads.project_id and projects.user_id = auth.uid() ) );
+
+create policy "Users can insert chat threads to their projects"
+  on public.chat_threads for insert
+  with check ( exists ( select 1 from public.projects where projects.id = chat_threads.project_id and projects.user_id = auth.uid() ) );
+
+create policy "Users can update chat threads in their projects"
+  on public.chat_threads for update
+  using ( exists ( select 1 from public.projects where projects.id = chat_threads.project_id and projects.user_id = auth.uid() ) );
+
+create policy "Users can delete chat threads in their projects"
+  on public.chat_threads for delete
+  using ( exists ( select 1 from public.projects where projects.id = chat_threads.project_id and projects.user_id = auth.uid() ) );
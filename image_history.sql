@@ -0,0 +1,3 @@
+-- Keep every generated image on the node (source, prompt, model)
+alter table public.nodes
+  add column if not exists image_history jsonb default '[]'::jsonb;
@@ -0,0 +1,26 @@
+-- Store node images in Supabase Storage instead of inline data URLs
+alter table public.nodes
+  add column if not exists image_path text;
+
+-- Node Images bucket
+-- 私有 bucket，对象路径首段为 project_id：<project_id>/<node_id>-<timestamp>.<ext>
+insert into storage.buckets (id, name, public)
+values ('node-images', 'node-images', false)
+on conflict (id) do nothing;
+
+-- RLS: Node Images（与 projects 策略一致：仅项目所有者可访问）
+create policy "Users can view images in their projects"
+  on storage.objects for select
+  using ( bucket_id = 'node-images' and exists ( select 1 from public.projects where projects.id::text = (storage.foldername(name))[1] and projects.user_id = auth.uid() ) );
+
+create policy "Users can upload images to their projects"
+  on storage.objects for insert
+  with check ( bucket_id = 'node-images' and exists ( select 1 from public.projects where projects.id::text = (storage.foldername(name))[1] and projects.user_id = auth.uid() ) );
+
+create policy "Users can update images in their projects"
+  on storage.objects for update
+  using ( bucket_id = 'node-images' and exists ( select 1 from public.projects where projects.id::text = (storage.foldername(name))[1] and projects.user_id = auth.uid() ) );
+
+create policy "Users can delete images in their projects"
+  on storage.objects for delete
+  using ( bucket_id = 'node-images' and exists ( select 1 from public.projects where projects.id::text = (storage.foldername(name))[1] and projects.user_id = auth.uid() ) );
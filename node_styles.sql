@@ -0,0 +1,4 @@
+-- Record the AI thinking style that produced each node and its deep-dive content
+alter table public.nodes
+  add column if not exists style jsonb,
+  add column if not exists detail_style jsonb;
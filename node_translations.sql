@@ -0,0 +1,3 @@
+-- Store translated labels / descriptions / detailed content per language on each node
+alter table public.nodes
+  add column if not exists translations jsonb default '{}'::jsonb;
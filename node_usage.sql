@@ -0,0 +1,3 @@
+-- Keep the accumulated token usage and cost of each node
+alter table public.nodes
+  add column if not exists usage jsonb;
@@ -0,0 +1,3 @@
+-- Persist model reasoning traces alongside node content
+alter table public.nodes
+  add column if not exists reasoning_content text;
@@ -69,7 +69,14 @@ create table public.nodes (
   title text,
   description text,
   detailed_content text,
+  reasoning_content text, -- 模型思考过程（与 detailed_content 一同生成）
   image_url text,
+  image_path text, -- 对象存储引用，如 supabase:<project_id>/<file>.png
+  image_history jsonb default '[]'::jsonb, -- 历史图片（来源、prompt、模型），封面为 image_path / image_url
+  translations jsonb default '{}'::jsonb, -- 语言层：语言代码 -> 译后的标题 / 描述 / 深挖内容
+  style jsonb, -- 生成该节点的 AI 思考风格 { id, name }
+  detail_style jsonb, -- 生成深挖内容的 AI 思考风格 { id, name }
+  usage jsonb, -- 该节点累计的 token 用量与费用 { promptTokens, completionTokens, cost }
   children_count integer default 0,
   is_expanding boolean default false,
   follow_up text,
@@ -129,6 +136,60 @@ create policy "Users can delete edges in their projects"
   on public.edges for delete
   using ( exists ( select 1 from public.projects where projects.id = edges.project_id and projects.user_id = auth.uid() ) );
 
+-- 5. Node Images (Storage)
+-- 私有 bucket，对象路径首段为 project_id：<project_id>/<node_id>-<timestamp>.<ext>
+insert into storage.buckets (id, name, public)
+values ('node-images', 'node-images', false)
+on conflict (id) do nothing;
+
+-- RLS: Node Images（与 projects 策略一致：仅项目所有者可访问）
+create policy "Users can view images in their projects"
+  on storage.objects for select
+  using ( bucket_id = 'node-images' and exists ( select 1 from public.projects where projects.id::text = (storage.foldername(name))[1] and projects.user_id = auth.uid() ) );
+
+create policy "Users can upload images to their projects"
+  on storage.objects for insert
+  with check ( bucket_id = 'node-images' and exists ( select 1 from public.projects where projects.id::text = (storage.foldername(name))[1] and projects.user_id = auth.uid() ) );
+
+create policy "Users can update images in their projects"
+  on storage.objects for update
+  using ( bucket_id = 'node-images' and exists ( select 1 from public.projects where projects.id::text = (storage.foldername(name))[1] and projects.user_id = auth.uid() ) );
+
+create policy "Users can delete images in their projects"
+  on storage.objects for delete
+  using ( bucket_id = 'node-images' and exists ( select 1 from public.projects where projects.id::text = (storage.foldername(name))[1] and projects.user_id = auth.uid() ) );
+
+-- 6. Chat Threads Table (Chat with Graph)
+create table public.chat_threads (
+  id uuid default gen_random_uuid() primary key,
+  project_id uuid references public.projects(id) on delete cascade not null,
+  thread_id text not null, -- Business ID (e.g. chat-<timestamp>-<rand>)
+  unique (project_id, thread_id),
+  title text,
+  messages jsonb default '[]'::jsonb, -- 消息（角色、内容、上下文节点、修改提案）
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- RLS: Chat Threads
+alter table public.chat_threads enable row level security;
+
+create policy "Users can view chat threads in their projects"
+  on public.chat_threads for select
+  using ( exists ( select 1 from public.projects where projects.id = chat_threads.project_id and projects.user_id = auth.uid() ) );
+
+create policy "Users can insert chat threads to their projects"
+  on public.chat_threads for insert
+  with check ( exists ( select 1 from public.projects where projects.id = chat_threads.project_id and projects.user_id = auth.uid() ) );
+
+create policy "Users can update chat threads in their projects"
+  on public.chat_threads for update
+  using ( exists ( select 1 from public.projects where projects.id = chat_threads.project_id and projects.user_id = auth.uid() ) );
+
+create policy "Users can delete chat threads in their projects"
+  on public.chat_threads for delete
+  using ( exists ( select 1 from public.projects where projects.id = chat_threads.project_id and projects.user_id = auth.uid() ) );
+
 -- Function to handle new user profile creation automatically
 create or replace function public.handle_new_user()
 returns trigger as $$
@@ -3,7 +3,7 @@
  * 测试底部输入条组件的核心功能：输入框展开/收起、遮罩交互
  */
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { mount } from "@vue/test-utils";
+import { flushPromises, mount } from "@vue/test-utils";
 import { nextTick } from "vue";
 import BottomBar from "../BottomBar.vue";
 
@@ -14,8 +14,21 @@ vi.mock("lucide-vue-next", () => ({
   Zap: { template: "<span>Zap</span>" },
   RefreshCw: { template: "<span>RefreshCw</span>" },
   Terminal: { template: "<span>Terminal</span>" },
+  Square: { template: "<span>Square</span>" },
+  Wand2: { template: "<span>Wand2</span>" },
+  Check: { template: "<span>Check</span>" },
+  Settings2: { template: "<span>Settings2</span>" },
+  Paperclip: { template: "<span>Paperclip</span>" },
+  FileText: { template: "<span>FileText</span>" },
+  X: { template: "<span>X</span>" },
 }));
 
+const styles = [
+  { id: "creative", name: "nav.styleCreative", builtin: true },
+  { id: "precise", name: "nav.stylePrecise", builtin: true },
+  { id: "style-1", name: "苏格拉底式" },
+];
+
 // 辅助函数：创建组件包装器
 const createWrapper = (props = {}) => {
   return mount(BottomBar, {
@@ -24,7 +37,8 @@ const createWrapper = (props = {}) => {
       modelValue: "",
       isLoading: false,
       aiStyle: "creative",
-      onToggleAiStyle: vi.fn(),
+      styles,
+      onSelectAiStyle: vi.fn(),
       ...props,
     },
     global: {
@@ -300,12 +314,12 @@ describe("BottomBar", () => {
   // ============================================================
   describe("AI 风格切换", () => {
     describe("Scenario: 切换思考风格", () => {
-      it("Given 显示当前风格, When 点击切换按钮, Then 应调用 onToggleAiStyle", async () => {
+      it("Given 显示当前风格, When 打开风格菜单并选择严谨模式, Then 应以 precise 调用 onSelectAiStyle", async () => {
         // Given
-        const onToggleAiStyle = vi.fn();
+        const onSelectAiStyle = vi.fn();
         const wrapper = createWrapper({
           hasNodes: false,
-          onToggleAiStyle,
+          onSelectAiStyle,
         });
 
         // When
@@ -317,20 +331,21 @@ describe("BottomBar", () => {
               btn.classes().includes("bg-cyan-50"),
           );
         await styleBtn?.trigger("click");
+        await wrapper.find('[data-style-id="precise"]').trigger("click");
 
         // Then
-        expect(onToggleAiStyle).toHaveBeenCalled();
+        expect(onSelectAiStyle).toHaveBeenCalledWith("precise");
       });
     });
 
     describe("Scenario: 切换风格时保持输入框焦点", () => {
-      it("Given 输入框已展开, When 点击切换风格按钮, Then 输入框应保持展开状态", async () => {
+      it("Given 输入框已展开, When 通过风格菜单切换, Then 输入框应保持展开状态", async () => {
         // Given
-        const onToggleAiStyle = vi.fn();
+        const onSelectAiStyle = vi.fn();
         const wrapper = createWrapper({
           hasNodes: true,
           forceExpanded: true,
-          onToggleAiStyle,
+          onSelectAiStyle,
         });
         await nextTick();
 
@@ -343,12 +358,37 @@ describe("BottomBar", () => {
               btn.classes().includes("bg-cyan-50"),
           );
         await styleBtn?.trigger("click");
+        await wrapper.find('[data-style-id="precise"]').trigger("click");
         await nextTick();
 
         // Then
         const inputBar = wrapper.find(".flex.items-center.bg-white\\/95");
         expect(inputBar.classes()).toContain("opacity-100");
-        expect(onToggleAiStyle).toHaveBeenCalled();
+        expect(onSelectAiStyle).toHaveBeenCalledWith("precise");
+      });
+    });
+
+    describe("Scenario: 自定义风格出现在菜单中", () => {
+      it("Given 当前为自定义风格, When 渲染, Then 按钮显示风格名称且菜单中可选择该风格", async () => {
+        // Given
+        const onSelectAiStyle = vi.fn();
+        const wrapper = createWrapper({
+          hasNodes: false,
+          aiStyle: "style-1",
+          onSelectAiStyle,
+        });
+
+        // When
+        const styleBtn = wrapper
+          .findAll("button")
+          .find((btn) => btn.classes().includes("bg-violet-50"));
+        expect(styleBtn?.text()).toContain("苏格拉底式");
+        await styleBtn?.trigger("click");
+        await wrapper.find('[data-style-id="style-1"]').trigger("click");
+
+        // Then
+        expect(onSelectAiStyle).toHaveBeenCalledWith("style-1");
+        expect(wrapper.find("[data-style-id]").exists()).toBe(false);
       });
     });
   });
@@ -379,14 +419,14 @@ describe("BottomBar", () => {
     });
 
     describe("Scenario: 加载时点击切换风格按钮", () => {
-      it("Given isLoading 为 true 且输入框展开, When 点击风格切换, Then 切换应正常执行", async () => {
+      it("Given isLoading 为 true 且输入框展开, When 通过风格菜单切换, Then 切换应正常执行", async () => {
         // Given
-        const onToggleAiStyle = vi.fn();
+        const onSelectAiStyle = vi.fn();
         const wrapper = createWrapper({
           hasNodes: true,
           forceExpanded: true,
           isLoading: true,
-          onToggleAiStyle,
+          onSelectAiStyle,
         });
         await nextTick();
 
@@ -399,9 +439,10 @@ describe("BottomBar", () => {
               btn.classes().includes("bg-cyan-50"),
           );
         await styleBtn?.trigger("click");
+        await wrapper.find('[data-style-id="precise"]').trigger("click");
 
         // Then
-        expect(onToggleAiStyle).toHaveBeenCalled();
+        expect(onSelectAiStyle).toHaveBeenCalledWith("precise");
       });
     });
 
@@ -449,6 +490,42 @@ describe("BottomBar", () => {
     });
   });
 
+  // ============================================================
+  // Feature: 停止生成
+  // ============================================================
+  describe("停止生成 (Stop)", () => {
+    describe("Scenario: 生成中显示停止按钮", () => {
+      it("Given isLoading 为 true, When 点击停止按钮, Then 应触发 stop 事件", async () => {
+        // Given
+        const wrapper = createWrapper({ hasNodes: true, isLoading: true });
+        await nextTick();
+
+        // When
+        const stopBtn = wrapper
+          .findAll("button")
+          .find((btn) => btn.text().includes("common.stop"));
+        await stopBtn?.trigger("click");
+
+        // Then
+        expect(stopBtn).toBeDefined();
+        expect(wrapper.emitted("stop")).toBeTruthy();
+      });
+    });
+
+    describe("Scenario: 空闲时不显示停止按钮", () => {
+      it("Given isLoading 为 false, When 渲染, Then 不应显示停止按钮", () => {
+        // Given
+        const wrapper = createWrapper({ hasNodes: true, isLoading: false });
+
+        // When & Then
+        const stopBtn = wrapper
+          .findAll("button")
+          .find((btn) => btn.text().includes("common.stop"));
+        expect(stopBtn).toBeUndefined();
+      });
+    });
+  });
+
   // ============================================================
   // Feature: 详情面板展开时的输入框交互
   // ============================================================
@@ -539,6 +616,108 @@ describe("BottomBar", () => {
     });
   });
 
+  // ============================================================
+  // Feature: 从文档生成导图
+  // ============================================================
+  describe("从文档生成导图", () => {
+    const article = `# 长文标题\n\n${"正文段落。".repeat(80)}`;
+
+    const pasteText = (input: any, text: string) =>
+      input.trigger("paste", {
+        clipboardData: { getData: () => text },
+      });
+
+    const selectFile = async (wrapper: any, file: File) => {
+      const fileInput = wrapper.find('input[type="file"]');
+      Object.defineProperty(fileInput.element, "files", { value: [file] });
+      await fileInput.trigger("change");
+      await flushPromises();
+    };
+
+    describe("Scenario: 粘贴长文本", () => {
+      it("Given 粘贴一篇长文, When 点击执行, Then 应触发 seedDocument 而不是 expand", async () => {
+        // Given
+        const wrapper = createWrapper({ hasNodes: false });
+        await pasteText(wrapper.find("input:not([type])"), article);
+
+        // Then: 显示附加的文档
+        const chip = wrapper.find('[data-testid="attached-document"]');
+        expect(chip.exists()).toBe(true);
+        expect(chip.text()).toContain("长文标题");
+
+        // When
+        await wrapper
+          .findAll("button")
+          .find((btn) => btn.classes().includes("bg-slate-900"))!
+          .trigger("click");
+
+        // Then
+        expect(wrapper.emitted("seedDocument")![0]).toEqual([
+          { title: "长文标题", text: article },
+        ]);
+        expect(wrapper.emitted("expand")).toBeUndefined();
+        expect(wrapper.find('[data-testid="attached-document"]').exists()).toBe(
+          false,
+        );
+      });
+
+      it("Given 粘贴一句短文本, When 粘贴, Then 不应附加为文档", async () => {
+        // Given
+        const wrapper = createWrapper({ hasNodes: false });
+
+        // When
+        await pasteText(wrapper.find("input:not([type])"), "一个想法");
+
+        // Then
+        expect(wrapper.find('[data-testid="attached-document"]').exists()).toBe(
+          false,
+        );
+      });
+    });
+
+    describe("Scenario: 选择本地文件", () => {
+      it("Given 选择 .md 文件, When 读取完成, Then 应以文件名为标题附加", async () => {
+        // Given
+        const wrapper = createWrapper({ hasNodes: false });
+
+        // When
+        await selectFile(
+          wrapper,
+          new File(["# 标题\n\n内容"], "读书笔记.md", { type: "" }),
+        );
+
+        // Then: 文件异步读取完成后显示
+        await vi.waitFor(() =>
+          expect(
+            wrapper.find('[data-testid="attached-document"]').exists(),
+          ).toBe(true),
+        );
+        const chip = wrapper.find('[data-testid="attached-document"]');
+        expect(chip.text()).toContain("读书笔记");
+        expect(chip.text()).not.toContain(".md");
+      });
+
+      it("Given 选择不支持的文件, When 读取, Then 应提示错误", async () => {
+        // Given
+        const wrapper = createWrapper({ hasNodes: false });
+
+        // When
+        await selectFile(
+          wrapper,
+          new File(["%PDF"], "report.pdf", { type: "application/pdf" }),
+        );
+
+        // Then
+        expect(wrapper.find('[data-testid="document-error"]').text()).toBe(
+          "document.unsupported",
+        );
+        expect(wrapper.find('[data-testid="attached-document"]').exists()).toBe(
+          false,
+        );
+      });
+    });
+  });
+
   // ============================================================
   // Feature: 边界情况
   // ============================================================
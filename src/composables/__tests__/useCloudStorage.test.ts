@@ -35,6 +35,7 @@ vi.mock("../useProjects", () => ({
 
 // 导入被测模块（需在 mock 之后）
 import { useCloudStorage } from "../useCloudStorage";
+import { supabase } from "@/lib/supabase";
 
 describe("useCloudStorage", () => {
   let cloudStorage: ReturnType<typeof useCloudStorage>;
@@ -154,4 +155,263 @@ describe("useCloudStorage", () => {
       expect(pending.deletedNodes).toBe(1);
     });
   });
+
+  // ============================================================
+  // Feature: 思考过程同步
+  // ============================================================
+  describe("reasoning content", () => {
+    it("should save reasoning with the node and detect reasoning-only changes", async () => {
+      // Given: 一个带思考过程的节点
+      const node = {
+        id: "node-1",
+        type: "window",
+        position: { x: 0, y: 0 },
+        data: {
+          label: "节点",
+          detailedContent: "回答",
+          reasoningContent: "推理 A",
+        },
+      };
+      cloudStorage.markNodeDirty("node-1");
+
+      // When: 保存到云端
+      await cloudStorage.saveNodesToCloud([node]);
+
+      // Then: reasoning_content 随节点写入
+      const table = vi.mocked(supabase.from).mock.results[0].value;
+      expect(table.upsert.mock.calls[0][0][0]).toMatchObject({
+        detailed_content: "回答",
+        reasoning_content: "推理 A",
+      });
+
+      // When: 只有思考过程变化
+      cloudStorage.detectChanges(
+        [{ ...node, data: { ...node.data, reasoningContent: "推理 B" } }],
+        [],
+      );
+
+      // Then: 节点被标记为待同步
+      expect(cloudStorage.getPendingChanges().dirtyNodes).toBe(1);
+    });
+  });
+
+  // ============================================================
+  // Feature: 语言层同步
+  // ============================================================
+  describe("translations", () => {
+    it("should save language layers with the node and detect translation-only changes", async () => {
+      // Given: 一个带英文语言层的节点
+      const node = {
+        id: "node-1",
+        type: "window",
+        position: { x: 0, y: 0 },
+        data: {
+          label: "节点",
+          translations: { en: { label: "Node", description: "" } },
+        },
+      };
+      cloudStorage.markNodeDirty("node-1");
+
+      // When: 保存到云端
+      await cloudStorage.saveNodesToCloud([node]);
+
+      // Then: translations 随节点写入
+      const table = vi.mocked(supabase.from).mock.results[0].value;
+      expect(table.upsert.mock.calls[0][0][0]).toMatchObject({
+        translations: { en: { label: "Node", description: "" } },
+      });
+
+      // When: 只有译文变化
+      cloudStorage.detectChanges(
+        [
+          {
+            ...node,
+            data: {
+              ...node.data,
+              translations: { en: { label: "Item", description: "" } },
+            },
+          },
+        ],
+        [],
+      );
+
+      // Then: 节点被标记为待同步
+      expect(cloudStorage.getPendingChanges().dirtyNodes).toBe(1);
+    });
+  });
+
+  // ============================================================
+  // Feature: 节点用量同步
+  // ============================================================
+  describe("node usage", () => {
+    it("should save the node usage and detect usage-only changes", async () => {
+      // Given: 一个累计了用量的节点
+      const usage = { promptTokens: 100, completionTokens: 50, cost: 0.01 };
+      const node = {
+        id: "node-1",
+        type: "window",
+        position: { x: 0, y: 0 },
+        data: { label: "节点", usage },
+      };
+      cloudStorage.markNodeDirty("node-1");
+
+      // When: 保存到云端
+      await cloudStorage.saveNodesToCloud([node]);
+
+      // Then: usage 随节点写入
+      const table = vi.mocked(supabase.from).mock.results[0].value;
+      expect(table.upsert.mock.calls[0][0][0]).toMatchObject({ usage });
+
+      // When: 只有用量变化
+      cloudStorage.detectChanges(
+        [{ ...node, data: { ...node.data, usage: { ...usage, cost: 0.02 } } }],
+        [],
+      );
+
+      // Then: 节点被标记为待同步
+      expect(cloudStorage.getPendingChanges().dirtyNodes).toBe(1);
+    });
+  });
+
+  // ============================================================
+  // Feature: 节点风格同步
+  // ============================================================
+  describe("node styles", () => {
+    const style = { id: "precise", name: "Precise" };
+    const detailStyle = { id: "creative", name: "Creative" };
+
+    it("should save the node and deep-dive styles and detect style-only changes", async () => {
+      // Given: 一个记录了生成风格的节点
+      const node = {
+        id: "node-1",
+        type: "window",
+        position: { x: 0, y: 0 },
+        data: { label: "节点", style, detailStyle },
+      };
+      cloudStorage.markNodeDirty("node-1");
+
+      // When: 保存到云端
+      await cloudStorage.saveNodesToCloud([node]);
+
+      // Then: style / detail_style 随节点写入
+      const table = vi.mocked(supabase.from).mock.results[0].value;
+      expect(table.upsert.mock.calls[0][0][0]).toMatchObject({
+        style,
+        detail_style: detailStyle,
+      });
+
+      // When: 只有深挖风格变化
+      cloudStorage.detectChanges(
+        [{ ...node, data: { ...node.data, detailStyle: style } }],
+        [],
+      );
+
+      // Then: 节点被标记为待同步
+      expect(cloudStorage.getPendingChanges().dirtyNodes).toBe(1);
+    });
+
+    it("should restore the styles and usage when loading from the cloud", async () => {
+      // Given: 云端节点带有风格与用量列
+      const rows = (data: any[]) => ({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ data, error: null }),
+      });
+      vi.mocked(supabase.from)
+        .mockReturnValueOnce(
+          rows([
+            {
+              node_id: "node-1",
+              type: "window",
+              position: { x: 0, y: 0 },
+              title: "节点",
+              style,
+              detail_style: detailStyle,
+              usage: { promptTokens: 1, completionTokens: 2, cost: 0 },
+            },
+          ]) as any,
+        )
+        .mockReturnValueOnce(rows([]) as any);
+
+      // When
+      const result = await cloudStorage.loadFromCloud("project-1");
+
+      // Then
+      expect(result?.nodes[0].data).toMatchObject({
+        style,
+        detailStyle,
+        usage: { promptTokens: 1, completionTokens: 2, cost: 0 },
+      });
+    });
+  });
+
+  // ============================================================
+  // Feature: 图谱对话线程
+  // ============================================================
+  describe("chat threads", () => {
+    it("should upsert a whole thread keyed by project and thread id", async () => {
+      // Given: 一条带消息的对话线程
+      const thread = {
+        id: "chat-1",
+        title: "",
+        messages: [{ role: "user" as const, content: "问题" }],
+        createdAt: 0,
+        updatedAt: 1000,
+      };
+
+      // When: 保存到云端
+      const ok = await cloudStorage.saveChatThreadToCloud("project-1", thread);
+
+      // Then: 写入 chat_threads，空标题存为 null
+      expect(ok).toBe(true);
+      expect(supabase.from).toHaveBeenCalledWith("chat_threads");
+      const table = vi.mocked(supabase.from).mock.results[0].value;
+      expect(table.upsert).toHaveBeenCalledWith(
+        {
+          project_id: "project-1",
+          thread_id: "chat-1",
+          title: null,
+          messages: thread.messages,
+          created_at: new Date(0).toISOString(),
+          updated_at: new Date(1000).toISOString(),
+        },
+        { onConflict: "project_id,thread_id" },
+      );
+    });
+
+    it("should map stored rows back to threads", async () => {
+      // Given: 云端一行对话记录
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockResolvedValue({
+          data: [
+            {
+              thread_id: "chat-1",
+              title: "调研",
+              messages: [{ role: "user", content: "问题" }],
+              created_at: new Date(0).toISOString(),
+              updated_at: new Date(1000).toISOString(),
+            },
+          ],
+          error: null,
+        }),
+      };
+      vi.mocked(supabase.from).mockReturnValueOnce(query as any);
+
+      // When: 读取项目的对话
+      const threads = await cloudStorage.loadChatThreadsFromCloud("project-1");
+
+      // Then: 按项目过滤并还原为线程
+      expect(query.eq).toHaveBeenCalledWith("project_id", "project-1");
+      expect(threads).toEqual([
+        {
+          id: "chat-1",
+          title: "调研",
+          messages: [{ role: "user", content: "问题" }],
+          createdAt: 0,
+          updatedAt: 1000,
+        },
+      ]);
+    });
+  });
 });
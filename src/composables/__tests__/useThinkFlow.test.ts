@@ -45,6 +45,11 @@ vi.mock("../services/config", () => ({
   API_KEY: "",
 }));
 
+// Mock supabase（图片对象存储依赖）
+vi.mock("@/lib/supabase", () => ({
+  supabase: { storage: { from: vi.fn() } },
+}));
+
 // Mock markdown-it
 vi.mock("markdown-it", () => ({
   default: vi.fn(() => ({
@@ -57,6 +62,7 @@ const mockT = vi.fn((key: string) => key);
 const mockLocale = ref("zh");
 
 // 导入被测模块
+import { useVueFlow } from "@vue-flow/core";
 import { useThinkFlow } from "../useThinkFlow";
 
 describe("useThinkFlow", () => {
@@ -381,6 +387,275 @@ describe("useThinkFlow", () => {
       // Then: 应为空数组
       expect(thinkFlow.graphChatMessages.value).toEqual([]);
     });
+
+    it("should stop an in-flight chat request without adding an error message", async () => {
+      // Given: 请求挂起，直到 signal 被取消
+      const fetchMock = vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(new DOMException("Aborted", "AbortError")),
+            );
+          }),
+      );
+      vi.stubGlobal("fetch", fetchMock);
+      const pending = thinkFlow.sendGraphChatMessage("hello");
+      expect(thinkFlow.isChatting.value).toBe(true);
+
+      // When: 用户点击停止
+      thinkFlow.stopGraphChat();
+      await pending;
+
+      // Then: 解除锁定，只保留用户消息
+      expect(thinkFlow.isChatting.value).toBe(false);
+      expect(thinkFlow.graphChatMessages.value).toEqual([
+        { role: "user", content: "hello", contextNodes: [] },
+      ]);
+      vi.unstubAllGlobals();
+    });
+
+    it("should answer with the offline mock provider without calling fetch", async () => {
+      // Given: 自定义模式选择 mock
+      const fetchMock = vi.fn();
+      vi.stubGlobal("fetch", fetchMock);
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+
+      // When
+      await thinkFlow.sendGraphChatMessage("hello");
+
+      // Then: 流式模拟回答经 SSE 解析后写入对话
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(thinkFlow.graphChatMessages.value).toHaveLength(2);
+      expect(thinkFlow.graphChatMessages.value[1].content).toContain("Mock");
+      vi.unstubAllGlobals();
+    });
+
+    it("should retry without tools when the model rejects tool calls", async () => {
+      // Given: 不支持工具调用的模型对带 tools 的请求返回 400
+      const answer = `data: ${JSON.stringify({ choices: [{ delta: { content: "Hi" } }] })}\n\ndata: [DONE]\n\n`;
+      const fetchMock = vi.fn(async (_url: string, init: RequestInit) =>
+        JSON.parse(String(init.body)).tools
+          ? new Response("tools not supported", { status: 400 })
+          : new Response(answer, {
+              headers: { "Content-Type": "text/event-stream" },
+            }),
+      );
+      vi.stubGlobal("fetch", fetchMock);
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "openai";
+      thinkFlow.apiConfig.chat.baseUrl = "https://api.example.com/v1";
+      thinkFlow.apiConfig.chat.model = "test-model";
+      thinkFlow.apiConfig.chat.apiKey = "test-key";
+
+      try {
+        // When
+        await thinkFlow.sendGraphChatMessage("hello");
+      } finally {
+        vi.unstubAllGlobals();
+      }
+
+      // Then: 第二次请求不带 tools，回答正常写入
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(thinkFlow.graphChatMessages.value).toHaveLength(2);
+      expect(thinkFlow.graphChatMessages.value[1].content).toBe("Hi");
+    });
+
+    it("should retry without stream_options when the backend rejects it", async () => {
+      // Given: 不支持 stream_options 的 OpenAI 兼容后端对带该字段的请求返回 400
+      const answer = `data: ${JSON.stringify({ choices: [{ delta: { content: "Hi" } }] })}\n\ndata: [DONE]\n\n`;
+      const fetchMock = vi.fn(async (_url: string, init: RequestInit) =>
+        JSON.parse(String(init.body)).stream_options
+          ? new Response("unknown field stream_options", { status: 400 })
+          : new Response(answer, {
+              headers: { "Content-Type": "text/event-stream" },
+            }),
+      );
+      vi.stubGlobal("fetch", fetchMock);
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "openai";
+      thinkFlow.apiConfig.chat.baseUrl = "https://api.example.com/v1";
+      thinkFlow.apiConfig.chat.model = "test-model";
+      thinkFlow.apiConfig.chat.apiKey = "test-key";
+
+      try {
+        // When: 连续两次对话
+        await thinkFlow.sendGraphChatMessage("hello");
+        await thinkFlow.sendGraphChatMessage("again");
+      } finally {
+        vi.unstubAllGlobals();
+      }
+
+      // Then: 第一次先去掉 tools、再去掉 stream_options 后成功；第二次带 tools 但直接不带 stream_options
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+      const bodies = fetchMock.mock.calls.map(([, init]) =>
+        JSON.parse(String(init.body)),
+      );
+      expect(bodies[2]).not.toHaveProperty("stream_options");
+      expect(bodies[3].tools).toBeDefined();
+      expect(bodies[3]).not.toHaveProperty("stream_options");
+      expect(thinkFlow.graphChatMessages.value[3].content).toBe("Hi");
+    });
+
+    it("should only apply a proposed graph edit after the user accepts it", async () => {
+      // Given: mock 模型对“记下”请求返回添加便签的工具调用
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      const { addNodes } = vi.mocked(useVueFlow).mock.results.at(-1)!.value;
+      addNodes.mockClear();
+
+      // When: 发送消息
+      await thinkFlow.sendGraphChatMessage("记下：复习第三章");
+
+      // Then: 助手消息带有待确认的提案，画布尚未修改
+      const [proposal] = thinkFlow.graphChatMessages.value[1].proposals!;
+      expect(proposal).toMatchObject({
+        tool: "add_sticky_note",
+        text: "记下：复习第三章",
+        status: "pending",
+      });
+      expect(addNodes).not.toHaveBeenCalled();
+
+      // When: 用户接受
+      thinkFlow.resolveGraphEdit(proposal.id, true);
+
+      // Then: 便签被添加，提案标记为已应用（重复确认无效）
+      expect(addNodes).toHaveBeenCalledTimes(1);
+      expect(addNodes.mock.calls[0][0]).toMatchObject({
+        type: "sticky",
+        data: { label: "记下：复习第三章" },
+      });
+      expect(thinkFlow.graphChatMessages.value[1].proposals![0].status).toBe(
+        "accepted",
+      );
+      thinkFlow.resolveGraphEdit(proposal.id, true);
+      expect(addNodes).toHaveBeenCalledTimes(1);
+    });
+
+    it("should resolve a later proposal whose tool call id repeats an earlier one", async () => {
+      // Given: 同一请求在两轮中返回相同的工具调用 id，第一轮的提案已被接受
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      const { addNodes } = vi.mocked(useVueFlow).mock.results.at(-1)!.value;
+      await thinkFlow.sendGraphChatMessage("记下：复习第三章");
+      const first = thinkFlow.graphChatMessages.value[1].proposals![0];
+      thinkFlow.resolveGraphEdit(first.id, true);
+      await thinkFlow.sendGraphChatMessage("记下：复习第三章");
+      const second = thinkFlow.graphChatMessages.value[3].proposals![0];
+      expect(second.callId).toBe(first.callId);
+      addNodes.mockClear();
+
+      // When: 接受第二轮的提案
+      thinkFlow.resolveGraphEdit(second.id, true);
+
+      // Then
+      expect(addNodes).toHaveBeenCalledTimes(1);
+      expect(thinkFlow.graphChatMessages.value[3].proposals![0].status).toBe(
+        "accepted",
+      );
+    });
+
+    it("should not add a duplicate edge when the nodes were linked after the proposal", async () => {
+      // Given: 模型提议连接两个节点
+      const toolCall = {
+        index: 0,
+        id: "call-1",
+        function: {
+          name: "link_nodes",
+          arguments: JSON.stringify({ sourceId: "node-1", targetId: "node-2" }),
+        },
+      };
+      const answer = `data: ${JSON.stringify({ choices: [{ delta: { tool_calls: [toolCall] } }] })}\n\ndata: [DONE]\n\n`;
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(
+          async () =>
+            new Response(answer, {
+              headers: { "Content-Type": "text/event-stream" },
+            }),
+        ),
+      );
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "openai";
+      thinkFlow.apiConfig.chat.baseUrl = "https://api.example.com/v1";
+      thinkFlow.apiConfig.chat.model = "test-model";
+      thinkFlow.apiConfig.chat.apiKey = "test-key";
+      const { addEdges } = vi.mocked(useVueFlow).mock.results.at(-1)!.value;
+      thinkFlow.flowNodes.value = ["node-1", "node-2"].map((id) => ({
+        id,
+        type: "window",
+        position: { x: 0, y: 0 },
+        data: { label: id },
+      })) as any;
+      try {
+        await thinkFlow.sendGraphChatMessage("link them");
+      } finally {
+        vi.unstubAllGlobals();
+      }
+      const [proposal] = thinkFlow.graphChatMessages.value[1].proposals!;
+
+      // When: 用户在确认前已手动连接这两个节点，然后接受提案
+      thinkFlow.flowEdges.value = [
+        { id: "e-manual", source: "node-1", target: "node-2" },
+      ] as any;
+      thinkFlow.resolveGraphEdit(proposal.id, true);
+
+      // Then: 不添加重复连线，提案标记为拒绝
+      expect(addEdges).not.toHaveBeenCalled();
+      expect(thinkFlow.graphChatMessages.value[1].proposals![0].status).toBe(
+        "rejected",
+      );
+    });
+
+    it("should keep chat threads per project and restore them after reload", async () => {
+      // Given: mock 模型，在第一个线程中提问
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      await thinkFlow.sendGraphChatMessage("hello");
+      const firstId = thinkFlow.activeChatThreadId.value!;
+
+      // When: 新建命名线程并提问
+      thinkFlow.newChatThread("Second");
+      await thinkFlow.sendGraphChatMessage("again");
+
+      // Then: 两个线程的消息互不干扰
+      expect(thinkFlow.chatThreads.value).toHaveLength(2);
+      expect(thinkFlow.graphChatMessages.value[0].content).toBe("again");
+      thinkFlow.selectChatThread(firstId);
+      expect(thinkFlow.graphChatMessages.value[0].content).toBe("hello");
+
+      // When: 重新创建实例（模拟刷新）
+      const reloaded = useThinkFlow({ t: mockT, locale: mockLocale });
+
+      // Then: 游客项目的线程从 localStorage 恢复
+      expect(reloaded.chatThreads.value.map((t) => t.title)).toEqual([
+        "",
+        "Second",
+      ]);
+      expect(reloaded.chatThreads.value[1].messages).toHaveLength(2);
+    });
+
+    it("should clear and delete threads", async () => {
+      // Given: 一个有消息的线程
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      await thinkFlow.sendGraphChatMessage("hello");
+      const threadId = thinkFlow.activeChatThreadId.value!;
+
+      // When: 清空
+      thinkFlow.clearChatThread();
+
+      // Then: 线程保留、消息清空
+      expect(thinkFlow.chatThreads.value).toHaveLength(1);
+      expect(thinkFlow.graphChatMessages.value).toEqual([]);
+
+      // When: 删除
+      thinkFlow.deleteChatThread(threadId);
+
+      // Then
+      expect(thinkFlow.chatThreads.value).toEqual([]);
+      expect(thinkFlow.activeChatThreadId.value).toBeNull();
+    });
   });
 
   // ============================================================
@@ -467,6 +742,514 @@ describe("useThinkFlow", () => {
     });
   });
 
+  // ============================================================
+  // Feature: 请求期间的节点编辑
+  // ============================================================
+  describe("Edits During Requests", () => {
+    const node = {
+      id: "node-1",
+      type: "window",
+      position: { x: 0, y: 0 },
+      data: { label: "Solar", description: "", detailedContent: "Old" },
+    };
+
+    // 模拟用户在请求期间修改节点标题
+    const editLabel = (label: string) => {
+      thinkFlow.flowNodes.value = [
+        { ...node, data: { ...node.data, label } },
+      ] as any;
+    };
+
+    it("should keep edits made while an image is generating", async () => {
+      // Given: mock 模型
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      const { updateNode } = vi.mocked(useVueFlow).mock.results.at(-1)!.value;
+      thinkFlow.flowNodes.value = [node] as any;
+
+      // When: 生成过程中修改标题
+      const pending = thinkFlow.generateNodeImage("node-1", "Solar");
+      editLabel("Solar Power");
+      await pending;
+
+      // Then: 写入图片时保留新标题
+      const write = updateNode.mock.calls.find(
+        ([, update]: any[]) => update.data?.imageHistory,
+      )!;
+      expect(write[1].data).toMatchObject({
+        label: "Solar Power",
+        isImageLoading: false,
+      });
+      expect(write[1].data.imageHistory).toHaveLength(1);
+    });
+
+    it("should keep edits made before a deep dive is stopped", async () => {
+      // Given: mock 模型，节点已有旧的深挖内容（未展开）
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      const { updateNode } = vi.mocked(useVueFlow).mock.results.at(-1)!.value;
+      thinkFlow.flowNodes.value = [
+        { ...node, data: { ...node.data, isDetailExpanded: true } },
+      ] as any;
+
+      // When: 生成过程中修改标题，然后停止
+      const pending = thinkFlow.deepDive("node-1", "Solar", {
+        bypassCache: true,
+      });
+      editLabel("Solar Power");
+      thinkFlow.cancelGeneration("deepDive:node-1");
+      await pending;
+
+      // Then: 深挖内容恢复为旧内容，新标题保留
+      expect(updateNode.mock.calls.at(-1)![1].data).toMatchObject({
+        label: "Solar Power",
+        detailedContent: "Old",
+        isDeepDiving: false,
+      });
+    });
+  });
+
+  // ============================================================
+  // Feature: 根节点流式展开
+  // ============================================================
+  describe("Root Expansion Streaming", () => {
+    it("should create every streamed child exactly once with index-based ids", async () => {
+      // Given: mock 模型（流式返回 overview 与 5 个子节点）
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      const { addNodes } = vi.mocked(useVueFlow).mock.results.at(-1)!.value;
+      thinkFlow.ideaInput.value = "Solar energy";
+
+      // When
+      await thinkFlow.expandIdea();
+
+      // Then: 根节点 + 5 个子节点，子节点 id 共享前缀、按下标递增且不重复
+      const ids = addNodes.mock.calls.map((call: any[]) => call[0].id);
+      expect(ids).toHaveLength(6);
+      expect(ids[0]).toMatch(/^root-/);
+      const childIds = ids.slice(1);
+      const base = childIds[0].replace(/-0$/, "");
+      expect(childIds).toEqual([0, 1, 2, 3, 4].map((i) => `${base}-${i}`));
+    });
+
+    it("should accept a response with only nodes without a repair request", async () => {
+      // Given: OpenAI 兼容接口按系统 prompt 只返回 nodes（没有 overview）
+      const content = JSON.stringify({
+        nodes: [
+          { text: "Cost", description: "Falling prices" },
+          { text: "Storage", description: "Batteries" },
+        ],
+      });
+      const fetchMock = vi.fn(
+        async () =>
+          new Response(
+            `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\ndata: [DONE]\n\n`,
+            { headers: { "Content-Type": "text/event-stream" } },
+          ),
+      );
+      vi.stubGlobal("fetch", fetchMock);
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "openai";
+      thinkFlow.apiConfig.chat.baseUrl = "https://api.example.com/v1";
+      thinkFlow.apiConfig.chat.model = "test-model";
+      thinkFlow.apiConfig.chat.apiKey = "test-key";
+      const { addNodes } = vi.mocked(useVueFlow).mock.results.at(-1)!.value;
+      thinkFlow.ideaInput.value = "Solar energy";
+
+      try {
+        // When
+        await thinkFlow.expandIdea();
+      } finally {
+        vi.unstubAllGlobals();
+      }
+
+      // Then: 只有一次请求，两个子节点均已创建
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(addNodes).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  // ============================================================
+  // Feature: 追问
+  // ============================================================
+  describe("Follow-up", () => {
+    const parent = {
+      id: "node-1",
+      type: "window",
+      position: { x: 0, y: 0 },
+      data: { label: "Solar", description: "", followUp: "" },
+    };
+
+    it("should keep both answers when two follow-ups run on one parent", async () => {
+      // Given: mock 模型，画布上有父节点
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      const { addNodes, removeNodes, updateNode } = vi
+        .mocked(useVueFlow)
+        .mock.results.at(-1)!.value;
+      thinkFlow.flowNodes.value = [parent] as any;
+
+      // When: 第一个追问仍在流式输出时发起第二个
+      await Promise.all([
+        thinkFlow.expandIdea(parent, "Cost?"),
+        thinkFlow.expandIdea(parent, "Storage?"),
+      ]);
+
+      // Then: 两个回答节点都保留，父节点最终结束展开状态
+      const childIds = addNodes.mock.calls.map((call: any[]) => call[0].id);
+      expect(new Set(childIds).size).toBe(2);
+      expect(removeNodes).not.toHaveBeenCalled();
+      const parentWrites = updateNode.mock.calls.filter(
+        ([id]: any[]) => id === "node-1",
+      );
+      expect(parentWrites.at(-1)![1].data.isExpanding).toBe(false);
+    });
+
+    it("should stop every follow-up on a parent with its expand key", async () => {
+      // Given: mock 模型，画布上有父节点
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      const { removeNodes } = vi.mocked(useVueFlow).mock.results.at(-1)!.value;
+      thinkFlow.flowNodes.value = [parent] as any;
+
+      // When: 两个追问进行中时停止父节点的追问
+      const pending = Promise.all([
+        thinkFlow.expandIdea(parent, "Cost?"),
+        thinkFlow.expandIdea(parent, "Storage?"),
+      ]);
+      thinkFlow.cancelGeneration("expand:node-1");
+      await pending;
+
+      // Then: 两个未完成的回答节点都被移除
+      expect(removeNodes).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  // ============================================================
+  // Feature: 自动探索
+  // ============================================================
+  describe("Auto Explore", () => {
+    it("should add at most maxChildren children per node and report usage", async () => {
+      // Given: mock 模型（每次返回 5 个子想法），画布上有根节点
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      const { addNodes, addEdges } = vi
+        .mocked(useVueFlow)
+        .mock.results.at(-1)!.value;
+      addNodes.mockClear();
+      thinkFlow.flowNodes.value = [
+        {
+          id: "root-1",
+          type: "window",
+          position: { x: 0, y: 0 },
+          data: { label: "Solar energy", type: "root" },
+        },
+      ] as any;
+
+      // When: 自动探索 1 层，每个节点最多 2 个子节点
+      const progress = await thinkFlow.startAutoExplore("root-1", {
+        maxDepth: 1,
+        maxChildren: 2,
+        concurrency: 1,
+        tokenBudget: 0,
+        costBudget: 0,
+      });
+
+      // Then: 只添加 2 个子节点并连到根节点，用量计入进度
+      expect(addNodes).toHaveBeenCalledTimes(2);
+      expect(addEdges.mock.calls.at(-1)[0]).toMatchObject({ source: "root-1" });
+      expect(progress).toMatchObject({ status: "completed", completed: 1 });
+      expect(progress.tokens).toBeGreaterThan(0);
+      expect(thinkFlow.autoExploreProgress.value).toEqual(progress);
+      expect(thinkFlow.autoExploreOptions.value.maxChildren).toBe(2);
+    });
+  });
+
+  // ============================================================
+  // Feature: 重新生成子节点
+  // ============================================================
+  describe("Regenerate Children", () => {
+    it("should only change the canvas for the suggestions the user picks", async () => {
+      // Given: mock 模型，父节点有两个子节点，其中一个有孙节点
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      const { addNodes, updateNode, removeNodes } = vi
+        .mocked(useVueFlow)
+        .mock.results.at(-1)!.value;
+      const node = (id: string, y: number) => ({
+        id,
+        type: "window",
+        position: { x: 450, y },
+        data: { label: id, description: "" },
+      });
+      thinkFlow.flowNodes.value = [
+        { ...node("root-1", 0), position: { x: 0, y: 0 } },
+        node("child-a", -140),
+        node("child-b", 140),
+        { ...node("grandchild", -140), position: { x: 900, y: -140 } },
+      ] as any;
+      thinkFlow.flowEdges.value = [
+        { id: "e1", source: "root-1", target: "child-a" },
+        { id: "e2", source: "root-1", target: "child-b" },
+        { id: "e3", source: "child-a", target: "grandchild" },
+      ] as any;
+
+      // When: 请求新建议
+      await thinkFlow.regenerateChildren("root-1");
+
+      // Then: 建议已就绪，画布尚未修改
+      const regeneration = thinkFlow.childrenRegeneration.value!;
+      expect(regeneration.status).toBe("ready");
+      expect(regeneration.children.map((c) => c.id)).toEqual([
+        "child-a",
+        "child-b",
+      ]);
+      expect(regeneration.suggestions.length).toBeGreaterThan(2);
+      expect(addNodes).not.toHaveBeenCalled();
+
+      // When: 第一条替换 child-a，第二条并入，其余保留现有
+      const [first, second, ...rest] = regeneration.suggestions;
+      thinkFlow.updateChildSuggestion(first.id, {
+        decision: "replace",
+        targetId: "child-a",
+      });
+      thinkFlow.updateChildSuggestion(second.id, { decision: "merge" });
+      rest.forEach((s) =>
+        thinkFlow.updateChildSuggestion(s.id, { decision: "keep" }),
+      );
+      await thinkFlow.applyChildrenRegeneration();
+
+      // Then: child-a 原地改名（孙节点不动），新增一个子节点排在现有子节点下方
+      expect(updateNode).toHaveBeenCalledWith("child-a", {
+        data: expect.objectContaining({ label: first.label }),
+      });
+      expect(addNodes).toHaveBeenCalledTimes(1);
+      expect(addNodes.mock.calls[0][0]).toMatchObject({
+        data: { label: second.label },
+        position: { x: 450, y: 140 + 180 + 40 },
+      });
+      expect(removeNodes).not.toHaveBeenCalled();
+      expect(thinkFlow.childrenRegeneration.value).toBeNull();
+    });
+  });
+
+  // ============================================================
+  // Feature: 导图翻译
+  // ============================================================
+  describe("Translate Map", () => {
+    it("should add a language layer to every node and show it", async () => {
+      // Given: mock 模型；prompt 中带上待翻译的节点 JSON
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      mockT.mockImplementation(((key: string, params?: any) =>
+        params?.items ? `${key}\n${params.items}` : key) as any);
+      const { updateNode } = vi.mocked(useVueFlow).mock.results.at(-1)!.value;
+      thinkFlow.flowNodes.value = [
+        {
+          id: "root-1",
+          type: "window",
+          position: { x: 0, y: 0 },
+          data: { label: "太阳能", description: "", type: "root" },
+        },
+        {
+          id: "node-1",
+          type: "window",
+          position: { x: 450, y: 0 },
+          data: { label: "成本", description: "下降", detailedContent: "正文" },
+        },
+        {
+          id: "sticky-1",
+          type: "sticky",
+          position: { x: 0, y: 300 },
+          data: { text: "笔记" },
+        },
+      ] as any;
+
+      try {
+        // When
+        await thinkFlow.translateMap("en");
+      } finally {
+        mockT.mockImplementation((key: string) => key);
+      }
+
+      // Then: 译文写入语言层，原文不变，便签不参与翻译
+      expect(updateNode).toHaveBeenCalledWith("node-1", {
+        data: expect.objectContaining({
+          label: "成本",
+          translations: {
+            en: {
+              label: "成本 (mock)",
+              description: "下降",
+              detailedContent: "正文",
+            },
+          },
+        }),
+      });
+      expect(updateNode).not.toHaveBeenCalledWith(
+        "sticky-1",
+        expect.anything(),
+      );
+      expect(thinkFlow.mapTranslation.value).toMatchObject({
+        status: "completed",
+        completed: 2,
+        total: 2,
+      });
+      expect(thinkFlow.mapLanguage.value).toBe("en");
+    });
+  });
+
+  // ============================================================
+  // Feature: 从文档生成导图
+  // ============================================================
+  describe("Seed From Document", () => {
+    it("should chunk a long document, merge the outlines and build two levels of nodes", async () => {
+      // Given: mock 模型；两段各约 2000 token 的文档（超过单块上限，需切成两块）
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      const { addNodes, addEdges, updateNode, project } = vi
+        .mocked(useVueFlow)
+        .mock.results.at(-1)!.value;
+      vi.mocked(project).mockImplementation((position: any) => position);
+      vi.mocked(addNodes).mockImplementation((node: any) => {
+        thinkFlow.flowNodes.value = [...thinkFlow.flowNodes.value, node];
+      });
+      const text = `${"光伏".repeat(1000)}\n\n${"储能".repeat(1000)}`;
+
+      // When
+      await thinkFlow.seedFromDocument({ title: "能源报告", text });
+
+      // Then: 两块各一次请求，再合并一次
+      expect(
+        thinkFlow.usageRecords.value.filter((r) => r.action === "outline"),
+      ).toHaveLength(3);
+
+      // Then: 根节点使用大纲标题与概述，4 个章节各带 3 个要点
+      const rootId = vi.mocked(addNodes).mock.calls[0][0].id;
+      expect(rootId).toMatch(/^root-/);
+      expect(updateNode).toHaveBeenCalledWith(rootId, {
+        data: expect.objectContaining({
+          label: "Document Outline (mock)",
+          isExpanding: false,
+          error: null,
+        }),
+      });
+      const sectionEdges = vi
+        .mocked(addEdges)
+        .mock.calls.filter(([edge]: any) => edge.source === rootId);
+      expect(sectionEdges).toHaveLength(4);
+      expect(addNodes).toHaveBeenCalledTimes(1 + 4 + 4 * 3);
+      expect(thinkFlow.isLoading.value).toBe(false);
+      expect(thinkFlow.documentSeedProgress.value).toBeNull();
+    });
+
+    it("should not send the expansion system prompt with the outline request", async () => {
+      // Given: OpenAI 兼容接口返回一份大纲
+      const content = JSON.stringify({
+        title: "Report",
+        summary: "About energy",
+        sections: [{ text: "Cost", description: "Prices", children: [] }],
+      });
+      const fetchMock = vi.fn(async () =>
+        Response.json({ choices: [{ message: { content } }] }),
+      );
+      vi.stubGlobal("fetch", fetchMock);
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "openai";
+      thinkFlow.apiConfig.chat.baseUrl = "https://api.example.com/v1";
+      thinkFlow.apiConfig.chat.model = "test-model";
+      thinkFlow.apiConfig.chat.apiKey = "test-key";
+      const { project } = vi.mocked(useVueFlow).mock.results.at(-1)!.value;
+      vi.mocked(project).mockImplementation((position: any) => position);
+
+      try {
+        // When
+        await thinkFlow.seedFromDocument({ title: "Report", text: "Energy" });
+      } finally {
+        vi.unstubAllGlobals();
+      }
+
+      // Then: 一次请求，消息中不含要求 nodes 格式的扩展系统 prompt
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const body = JSON.parse((fetchMock.mock.calls[0] as any)[1].body);
+      body.messages.forEach((m: any) =>
+        expect(m.content).not.toContain("prompts.system"),
+      );
+      expect(body.messages.at(-1).content).toBe("prompts.documentOutline");
+    });
+  });
+
+  // ============================================================
+  // Feature: 总结格式与历史
+  // ============================================================
+  describe("Summary History", () => {
+    it("should save every generated summary with its format and model", async () => {
+      // Given: mock 模型，画布上有一个根节点
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      thinkFlow.apiConfig.chat.model = "mock-model";
+      thinkFlow.flowNodes.value = [
+        {
+          id: "root-1",
+          type: "window",
+          position: { x: 0, y: 0 },
+          data: { label: "Topic", description: "" },
+        },
+      ] as any;
+
+      // When: 先后生成两种格式的总结
+      await thinkFlow.generateSummary("executiveBrief");
+      await thinkFlow.generateSummary("meetingMinutes");
+
+      // Then: 两份都保存在历史中，并记住最后使用的格式
+      const history = thinkFlow.summaryHistory.value;
+      expect(history.map((s) => s.format)).toEqual([
+        "executiveBrief",
+        "meetingMinutes",
+      ]);
+      expect(history[0]).toMatchObject({ model: "mock-model" });
+      expect(history[1].content).toBe(thinkFlow.summaryContent.value);
+      expect(thinkFlow.summaryFormat.value).toBe("meetingMinutes");
+
+      // When: 删除第一份
+      thinkFlow.deleteSummary(history[0].id);
+
+      // Then: 重新加载同一项目时只剩一份
+      const reloaded = useThinkFlow({ t: mockT, locale: mockLocale });
+      expect(reloaded.summaryHistory.value.map((s) => s.format)).toEqual([
+        "meetingMinutes",
+      ]);
+    });
+
+    it("should stream the summary and keep the partial text when stopped", async () => {
+      // Given: mock 模型流式输出
+      thinkFlow.apiConfig.mode = "custom";
+      thinkFlow.apiConfig.chat.provider = "mock";
+      thinkFlow.flowNodes.value = [
+        {
+          id: "root-1",
+          type: "window",
+          position: { x: 0, y: 0 },
+          data: { label: "Topic", description: "" },
+        },
+      ] as any;
+
+      // When: 收到第一段后停止
+      const pending = thinkFlow.generateSummary();
+      await vi.waitFor(() =>
+        expect(thinkFlow.summaryContent.value).not.toBe(""),
+      );
+      expect(thinkFlow.isSummarizing.value).toBe(true);
+      const partial = thinkFlow.summaryContent.value;
+      thinkFlow.stopSummary();
+      await pending;
+
+      // Then: 保留已生成的部分，但不存入历史
+      expect(thinkFlow.isSummarizing.value).toBe(false);
+      expect(thinkFlow.summaryContent.value).toBe(partial);
+      expect(thinkFlow.summaryHistory.value).toEqual([]);
+    });
+  });
+
   // ============================================================
   // Feature: 云同步
   // ============================================================
@@ -1,6 +1,6 @@
 /**
  * useCloudStorage - 云存储 Composable
- * 管理节点/边数据与 Supabase 的增量同步
+ * 管理节点/边数据与 Supabase 的增量同步，以及图谱对话线程的读写
  *
  * 优化策略：
  * - 使用脏数据追踪，仅同步变更的节点/边
@@ -10,9 +10,15 @@ import { ref, toRaw } from "vue";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "./useAuth";
 import { useProjects } from "./useProjects";
+import { stripInlineImages, type NodeImage } from "@/services/imageHistory";
+import type { ChatThread, GraphChatMessage } from "@/services/chatThreads";
+import type { NodeTranslations } from "@/services/mapTranslation";
+import type { NodeStyleRef } from "@/services/aiStyles";
+import type { TokenUsage } from "@/services/usage";
 import type {
   Node as DbNode,
   Edge as DbEdge,
+  ChatThread as DbChatThread,
   Database,
 } from "@/lib/database.types";
 
@@ -28,7 +34,14 @@ const getNodeHash = (node: any) => {
       title: node.data?.title || "",
       description: node.data?.description || "",
       detailedContent: node.data?.detailedContent || "",
+      reasoningContent: node.data?.reasoningContent || "",
       imageUrl: node.data?.imageUrl || "",
+      imagePath: node.data?.imagePath || "",
+      imageHistory: node.data?.imageHistory || [],
+      translations: node.data?.translations || {},
+      style: node.data?.style || null,
+      detailStyle: node.data?.detailStyle || null,
+      usage: node.data?.usage || null,
       childrenCount: node.data?.childrenCount || 0,
       isExpanding: node.data?.isExpanding || false,
       followUp: node.data?.followUp || "",
@@ -50,6 +63,7 @@ const getEdgeHash = (edge: any) => {
 // Insert 类型别名
 type NodeInsert = Database["public"]["Tables"]["nodes"]["Insert"];
 type EdgeInsert = Database["public"]["Tables"]["edges"]["Insert"];
+type ChatThreadInsert = Database["public"]["Tables"]["chat_threads"]["Insert"];
 
 // 同步状态
 const isSyncing = ref(false);
@@ -166,7 +180,17 @@ export function useCloudStorage() {
         title: node.data?.title || node.data?.label || null,
         description: node.data?.description || null,
         detailed_content: node.data?.detailedContent || null,
-        image_url: node.data?.imageUrl || null,
+        reasoning_content: node.data?.reasoningContent || null,
+        // 内联 data URL 不入库，图片本体只存在于对象存储
+        image_url: node.data?.imageUrl?.startsWith("data:")
+          ? null
+          : node.data?.imageUrl || null,
+        image_path: node.data?.imagePath || null,
+        image_history: stripInlineImages(node.data?.imageHistory) || [],
+        translations: node.data?.translations || {},
+        style: node.data?.style || null,
+        detail_style: node.data?.detailStyle || null,
+        usage: node.data?.usage || null,
         children_count: node.data?.childrenCount || 0,
         is_expanding: node.data?.isExpanding || false,
         follow_up: node.data?.followUp || null,
@@ -323,7 +347,15 @@ export function useCloudStorage() {
             title: n.title,
             description: n.description,
             detailedContent: n.detailed_content,
+            reasoningContent: n.reasoning_content,
             imageUrl: n.image_url,
+            imagePath: n.image_path,
+            imageHistory: (n.image_history as NodeImage[] | null) || [],
+            translations: (n.translations as NodeTranslations | null) || {},
+            style: (n.style as NodeStyleRef | null) || undefined,
+            detailStyle: (n.detail_style as NodeStyleRef | null) || undefined,
+            usage:
+              (n.usage as (TokenUsage & { cost: number }) | null) || undefined,
             childrenCount: n.children_count,
             // 关键修复：从云端加载后，强制重置 isExpanding 为 false
             // 防止因上次保存时的中间状态导致点击无效
@@ -367,6 +399,94 @@ export function useCloudStorage() {
     }
   };
 
+  /**
+   * 读取项目的图谱对话线程（未登录或失败时返回 null）
+   */
+  const loadChatThreadsFromCloud = async (
+    projectId: string,
+  ): Promise<ChatThread[] | null> => {
+    if (!isAuthenticated.value) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from("chat_threads")
+        .select("*")
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      return ((data || []) as DbChatThread[]).map((row) => ({
+        id: row.thread_id,
+        title: row.title || "",
+        messages: (row.messages as unknown as GraphChatMessage[] | null) || [],
+        createdAt: new Date(row.created_at).getTime(),
+        updatedAt: new Date(row.updated_at).getTime(),
+      }));
+    } catch (error: any) {
+      console.error("从云端加载对话失败:", error);
+      syncError.value = error.message;
+      return null;
+    }
+  };
+
+  /**
+   * 保存单个对话线程（整条线程 upsert）
+   */
+  const saveChatThreadToCloud = async (
+    projectId: string,
+    thread: ChatThread,
+  ) => {
+    if (!isAuthenticated.value) return false;
+
+    try {
+      const record: ChatThreadInsert = {
+        project_id: projectId,
+        thread_id: thread.id,
+        title: thread.title || null,
+        messages: thread.messages as any,
+        created_at: new Date(thread.createdAt).toISOString(),
+        updated_at: new Date(thread.updatedAt).toISOString(),
+      };
+
+      const { error } = await supabase
+        .from("chat_threads")
+        .upsert(record as any, { onConflict: "project_id,thread_id" });
+
+      if (error) throw error;
+      return true;
+    } catch (error: any) {
+      console.error("保存对话到云端失败:", error);
+      syncError.value = error.message;
+      return false;
+    }
+  };
+
+  /**
+   * 删除对话线程
+   */
+  const deleteChatThreadFromCloud = async (
+    projectId: string,
+    threadId: string,
+  ) => {
+    if (!isAuthenticated.value) return false;
+
+    try {
+      const { error } = await supabase
+        .from("chat_threads")
+        .delete()
+        .eq("project_id", projectId)
+        .eq("thread_id", threadId);
+
+      if (error) throw error;
+      return true;
+    } catch (error: any) {
+      console.error("删除云端对话失败:", error);
+      syncError.value = error.message;
+      return false;
+    }
+  };
+
   /**
    * 重置同步状态（切换项目时调用）
    */
@@ -397,6 +517,9 @@ export function useCloudStorage() {
     saveEdgesToCloud,
     loadFromCloud,
     syncDeletions,
+    loadChatThreadsFromCloud,
+    saveChatThreadToCloud,
+    deleteChatThreadFromCloud,
     markNodeDirty,
     markEdgeDirty,
     markNodeDeleted,
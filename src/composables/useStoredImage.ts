@@ -0,0 +1,61 @@
+/**
+ * useStoredImage - 节点图片地址解析
+ * - 将图片引用（imagePath / 历史条目的 source）解析为可展示的地址，旧的图片地址直接使用
+ * - 传入 target 时懒加载：元素进入视口后才请求签名地址 / 读取本地图片
+ * - 来源变化或组件卸载时释放已解析的地址（浏览器对象地址随之撤销）
+ */
+import { onScopeDispose, ref, watch, type Ref } from "vue";
+import { useIntersectionObserver } from "@vueuse/core";
+import { releaseImageUrl, resolveImageUrl } from "@/services/imageStorage";
+
+export function useStoredImage(
+  source: () => string | null | undefined,
+  options: { thumbnail?: boolean; target?: Ref<HTMLElement | null> } = {},
+) {
+  const url = ref<string | null>(null);
+  const isVisible = ref(!options.target);
+  // 当前登记在 resolveImageUrl 中的来源
+  let held: string | null = null;
+
+  const release = () => {
+    if (held) releaseImageUrl(held, { thumbnail: options.thumbnail });
+    held = null;
+  };
+
+  if (options.target) {
+    const { stop } = useIntersectionObserver(options.target, ([entry]) => {
+      if (!entry?.isIntersecting) return;
+      isVisible.value = true;
+      stop();
+    });
+  }
+
+  watch(
+    [source, isVisible],
+    async ([value, visible]) => {
+      release();
+      if (!value) {
+        url.value = null;
+        return;
+      }
+      if (!visible) return;
+      try {
+        const resolving = resolveImageUrl(value, {
+          thumbnail: options.thumbnail,
+        });
+        held = value;
+        const resolved = await resolving;
+        // 解析期间来源已变化则丢弃旧结果
+        if (source() === value) url.value = resolved;
+      } catch (e) {
+        console.warn("[ImageStorage] 图片地址解析失败", e);
+        if (source() === value) url.value = null;
+      }
+    },
+    { immediate: true },
+  );
+
+  onScopeDispose(release);
+
+  return { url };
+}
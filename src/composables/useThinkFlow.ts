@@ -17,6 +17,163 @@ import {
 import { MarkerType, Position, useVueFlow } from "@vue-flow/core";
 import { BackgroundVariant } from "@vue-flow/background";
 import { DEFAULT_CONFIG, API_KEY } from "../services/config";
+import {
+  getChatProvider,
+  readSSEStream,
+  type ChatDelta,
+  type ChatEndpoint,
+  type ChatMessage,
+  type ChatProviderType,
+  type ChatTool,
+  type ToolCall,
+} from "../services/llmProviders";
+import { mockFetch } from "../services/mockProvider";
+import { buildProjectExport } from "../services/projectExport";
+import { createStreamingJsonParser } from "../services/streamingJson";
+import { estimateTokens, selectGraphContext } from "../services/graphRetrieval";
+import {
+  matchSuggestions,
+  planChildrenUpdate,
+  type ChildrenRegeneration,
+  type ChildSuggestion,
+} from "../services/childrenDiff";
+import {
+  loadAutoExploreOptions,
+  normalizeAutoExploreOptions,
+  runAutoExplore,
+  saveAutoExploreOptions,
+  type AutoExploreOptions,
+  type AutoExploreProgress,
+  type AutoExploreQueue,
+  type AutoExploreTask,
+} from "../services/autoExplore";
+import { CITATION_INSTRUCTION } from "../services/chatCitations";
+import {
+  buildTranslationBatches,
+  getLanguageName,
+  getMapLanguages,
+  mergeTranslations,
+  toTranslationItem,
+  type MapTranslationProgress,
+  type TranslationItem,
+} from "../services/mapTranslation";
+import {
+  chunkDocument,
+  countOutlineRequests,
+  groupOutlines,
+  normalizeOutline,
+  outlineToText,
+  type DocumentOutline,
+  type SeedDocument,
+} from "../services/documentSeed";
+import {
+  createSavedSummary,
+  getSummariesStorageKey,
+  getSummaryPromptKey,
+  loadSummaries,
+  saveSummaries,
+  type SavedSummary,
+  type SummaryFormat,
+} from "../services/summaries";
+import {
+  chatThreadToMarkdown,
+  createChatThread,
+  getChatThreadsStorageKey,
+  getThreadTitle,
+  loadChatThreads,
+  saveChatThreads,
+  type ChatThread,
+  type ChatThreadCloudStore,
+  type GraphChatMessage,
+} from "../services/chatThreads";
+import {
+  describeProposal,
+  GRAPH_EDIT_TOOLS,
+  toGraphEditProposal,
+  type GraphEditProposal,
+} from "../services/graphTools";
+import {
+  deleteNodeImages,
+  selectImageStore,
+  toReferenceImageUrl,
+  uploadNodeImage,
+} from "../services/imageStorage";
+import {
+  addImageToHistory,
+  createNodeImage,
+  getCoverImageId,
+  getImageHistory,
+  selectCoverImage,
+  stripInlineImages,
+} from "../services/imageHistory";
+import {
+  getImageProvider,
+  ImageResponseError,
+  type ImageEndpoint,
+  type ImageProviderType,
+} from "../services/imageProviders";
+import {
+  createHttpError,
+  DEFAULT_MAX_ATTEMPTS,
+  withRetry,
+  type RetryInfo,
+} from "../services/retry";
+import {
+  parseProfiles,
+  parseRouting,
+  resolveRoutedEndpoint,
+  type RoutedAction,
+} from "../services/modelRouting";
+import {
+  DEFAULT_STYLE_ID,
+  getBuiltinStyles,
+  loadCustomStyles,
+  resolveStyle,
+  resolveStyleTemperature,
+  saveCustomStyles,
+  toNodeStyleRef,
+  type NodeStyleRef,
+  type AiStyle,
+} from "../services/aiStyles";
+import {
+  getPromptStorageKey,
+  loadPromptOverrides,
+  PROMPT_TEMPLATES,
+  renderPromptTemplate,
+  resolvePromptOverride,
+  savePromptOverrides,
+  type PromptKey,
+  type PromptOverrides,
+  type PromptScope,
+} from "../services/promptTemplates";
+import {
+  buildCacheKey,
+  clearResponseCache,
+  DEFAULT_CACHE_TTL_HOURS,
+  readCachedResponse,
+  writeCachedResponse,
+} from "../services/responseCache";
+import {
+  DERIVED_QUESTIONS_SCHEMA,
+  DOCUMENT_OUTLINE_SCHEMA,
+  EXPANSION_SCHEMA,
+  parseStructured,
+  SUB_NODES_SCHEMA,
+  StructuredOutputError,
+  TRANSLATION_SCHEMA,
+  type Schema,
+} from "../services/structuredOutput";
+import {
+  calculateCost,
+  getUsageStorageKey,
+  loadModelPrices,
+  saveModelPrices,
+  summarizeUsage,
+  type ModelPrice,
+  type TokenUsage,
+  type UsageAction,
+  type UsageRecord,
+} from "../services/usage";
 import MarkdownIt from "markdown-it";
 
 /**
@@ -24,16 +181,21 @@ import MarkdownIt from "markdown-it";
  */
 type Translate = (key: string, params?: any) => string;
 
+export type { GraphChatMessage } from "../services/chatThreads";
+
 /**
  * 工具函数：清理节点数据以供 localStorage 存储
- * 移除 imageUrl 字段以节省空间，图片数据仅由云端保存
+ * 图片本体在对象存储中，imagePath 引用保留；仅移除上传失败时残留的内联 data URL
  */
 const sanitizeNodesForLocalStorage = (nodes: any[]) => {
   return nodes.map((node) => ({
     ...node,
     data: {
       ...node.data,
-      imageUrl: undefined, // 移除图片数据
+      imageUrl: node.data?.imageUrl?.startsWith("data:")
+        ? undefined
+        : node.data?.imageUrl,
+      imageHistory: stripInlineImages(node.data?.imageHistory),
     },
   }));
 };
@@ -62,18 +224,43 @@ export function useThinkFlow({
   /**
    * API 配置（支持默认/自定义两种模式）
    * - 自定义模式写入 localStorage，刷新后仍保留
+   * - chat.provider 决定文本接口协议（OpenAI 兼容 / Anthropic / Ollama）
+   * - profiles + routing：具名模型配置与“动作 -> 配置”的路由，未路由的动作使用 chat
+   * - cache：深挖 / 衍生问题的本地响应缓存（IndexedDB）开关与有效期
    */
   const apiConfig = reactive({
     mode: localStorage.getItem("api_mode") || "default",
     chat: {
+      provider: (localStorage.getItem("chat_provider") ||
+        "openai") as ChatProviderType,
       baseUrl: localStorage.getItem("chat_baseUrl") || "",
       model: localStorage.getItem("chat_model") || "",
       apiKey: localStorage.getItem("chat_apiKey") || "",
     },
     image: {
+      provider: (localStorage.getItem("image_provider") ||
+        "chat") as ImageProviderType,
       baseUrl: localStorage.getItem("image_baseUrl") || "",
       model: localStorage.getItem("image_model") || "",
       apiKey: localStorage.getItem("image_apiKey") || "",
+      responsePath: localStorage.getItem("image_responsePath") || "",
+      // 尺寸 / 宽高比对默认与自定义模式均生效，空字符串表示由后端决定
+      size: localStorage.getItem("image_size") || "",
+      aspectRatio: localStorage.getItem("image_aspectRatio") || "",
+    },
+    // 限流 / 5xx / 网络异常时的最大尝试次数（含首次），默认与自定义模式共用
+    retry: {
+      maxAttempts:
+        Number(localStorage.getItem("retry_maxAttempts")) ||
+        DEFAULT_MAX_ATTEMPTS,
+    },
+    profiles: parseProfiles(localStorage.getItem("model_profiles")),
+    routing: parseRouting(localStorage.getItem("model_routing")),
+    cache: {
+      enabled: localStorage.getItem("cache_enabled") !== "false",
+      ttlHours:
+        Number(localStorage.getItem("cache_ttlHours")) ||
+        DEFAULT_CACHE_TTL_HOURS,
     },
   });
 
@@ -94,12 +281,25 @@ export function useThinkFlow({
     () => apiConfig,
     (newVal) => {
       localStorage.setItem("api_mode", newVal.mode);
+      localStorage.setItem("chat_provider", newVal.chat.provider);
       localStorage.setItem("chat_baseUrl", newVal.chat.baseUrl);
       localStorage.setItem("chat_model", newVal.chat.model);
       localStorage.setItem("chat_apiKey", newVal.chat.apiKey);
+      localStorage.setItem("image_provider", newVal.image.provider);
       localStorage.setItem("image_baseUrl", newVal.image.baseUrl);
       localStorage.setItem("image_model", newVal.image.model);
       localStorage.setItem("image_apiKey", newVal.image.apiKey);
+      localStorage.setItem("image_responsePath", newVal.image.responsePath);
+      localStorage.setItem("image_size", newVal.image.size);
+      localStorage.setItem("image_aspectRatio", newVal.image.aspectRatio);
+      localStorage.setItem(
+        "retry_maxAttempts",
+        String(newVal.retry.maxAttempts),
+      );
+      localStorage.setItem("model_profiles", JSON.stringify(newVal.profiles));
+      localStorage.setItem("model_routing", JSON.stringify(newVal.routing));
+      localStorage.setItem("cache_enabled", String(newVal.cache.enabled));
+      localStorage.setItem("cache_ttlHours", String(newVal.cache.ttlHours));
     },
     { deep: true },
   );
@@ -109,6 +309,11 @@ export function useThinkFlow({
    */
   const showSettings = ref(false);
 
+  /**
+   * Prompt 编辑器弹窗开关（由设置弹窗进入）
+   */
+  const showPromptEditor = ref(false);
+
   /**
    * VueFlow 实例能力集合：节点/边增删改与视图控制
    */
@@ -136,21 +341,41 @@ export function useThinkFlow({
   const ideaInput = ref("");
   const isLoading = ref(false);
   const previewImageUrl = ref<string | null>(null);
+  // 预览所属节点：预览弹窗据此浏览该节点的图片历史
+  const previewImageNodeId = ref<string | null>(null);
   const showResetConfirm = ref(false);
   const showSummaryModal = ref(false);
   const isSummarizing = ref(false);
   const summaryContent = ref("");
 
   /**
-   * AI 思考风格
-   * - creative: 发散模式 (默认)
-   * - precise: 严谨模式
+   * AI 思考风格（保存风格 id）
+   * - 内置：creative 发散模式 (默认) / precise 严谨模式
+   * - 自定义风格保存在 customStyles，可指定指令文本与温度
    */
-  const aiStyle = ref(localStorage.getItem("ai_style") || "creative");
+  const aiStyle = ref(localStorage.getItem("ai_style") || DEFAULT_STYLE_ID);
+  const customStyles = ref<AiStyle[]>(loadCustomStyles());
 
   watch(aiStyle, (val) => {
     localStorage.setItem("ai_style", val);
   });
+  watch(customStyles, (styles) => saveCustomStyles(styles), { deep: true });
+
+  const availableStyles = computed(() => [
+    ...getBuiltinStyles(t),
+    ...customStyles.value,
+  ]);
+  const currentStyle = computed(() =>
+    resolveStyle(aiStyle.value, availableStyles.value),
+  );
+
+  /**
+   * 删除自定义风格；若正在使用则回退到默认风格
+   */
+  const removeCustomStyle = (id: string) => {
+    customStyles.value = customStyles.value.filter((s) => s.id !== id);
+    if (aiStyle.value === id) aiStyle.value = DEFAULT_STYLE_ID;
+  };
 
   /**
    * 演示模式状态
@@ -611,6 +836,17 @@ export function useThinkFlow({
     if (!node || node.data.type === "root" || node.id.startsWith("root"))
       return;
 
+    // 停止仍在写入这些节点的请求
+    const removedIds = [nodeId, ...getDescendantIds(nodeId)];
+    removedIds.forEach(stopNodeGeneration);
+
+    // 删除这些节点在存储中的图片（含历史）
+    deleteNodeImages(
+      flowNodes.value
+        .filter((n) => removedIds.includes(n.id))
+        .flatMap((n) => getImageHistory(n.data).map((image) => image.source)),
+    );
+
     // 先删除所有后代节点
     removeDescendants(nodeId);
     // 再删除自身
@@ -876,7 +1112,7 @@ export function useThinkFlow({
             ...n,
             data: {
               ...n.data,
-              imageUrl: null, // localStorage 不含图片，从云端恢复时再加载
+              imageUrl: n.data?.imageUrl ?? null, // 内联图片已在保存时移除
               isImageLoading: false,
               isExpanding: false,
               isDeepDiving: false,
@@ -944,6 +1180,190 @@ export function useThinkFlow({
     }
   }
 
+  /**
+   * 模型价格表（美元 / 百万 token），在设置中编辑，全局生效
+   */
+  const modelPrices = ref<ModelPrice[]>(loadModelPrices());
+  watch(modelPrices, (prices) => saveModelPrices(prices), { deep: true });
+
+  /**
+   * 当前项目的 token 用量记录（按项目保存在 localStorage，切换项目时重新读取）
+   */
+  const usageRecords = ref<UsageRecord[]>([]);
+  const usageTotals = computed(() => summarizeUsage(usageRecords.value));
+
+  watch(
+    currentProjectId,
+    (projectId) => {
+      if (!projectId) {
+        usageRecords.value = [];
+        return;
+      }
+      try {
+        const saved = localStorage.getItem(getUsageStorageKey(projectId));
+        usageRecords.value = saved ? JSON.parse(saved) : [];
+      } catch (e) {
+        console.warn("[ThinkFlow] 用量记录解析失败:", e);
+        usageRecords.value = [];
+      }
+    },
+    { immediate: true },
+  );
+
+  const saveUsageRecords = () => {
+    if (!currentProjectId.value) return;
+    try {
+      localStorage.setItem(
+        getUsageStorageKey(currentProjectId.value),
+        JSON.stringify(usageRecords.value),
+      );
+    } catch (error: any) {
+      console.warn("[ThinkFlow] 用量记录保存失败:", error);
+    }
+  };
+
+  /**
+   * 记录一次 AI 调用的用量
+   * - 写入项目级记录并按价格表计算费用
+   * - 指定 nodeId 时同时累加到节点 data.usage，随节点一起保存
+   */
+  const recordUsage = (
+    action: UsageAction,
+    model: string,
+    usage: TokenUsage,
+    nodeId?: string,
+  ) => {
+    const cost = calculateCost(usage, model, modelPrices.value);
+    usageRecords.value = [
+      ...usageRecords.value,
+      {
+        action,
+        model,
+        ...(nodeId && { nodeId }),
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        cost,
+        timestamp: Date.now(),
+      },
+    ];
+    saveUsageRecords();
+
+    if (!nodeId) return;
+    const node = flowNodes.value.find((n) => n.id === nodeId);
+    if (!node) return;
+    const prev = node.data.usage || {
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+    };
+    updateNode(nodeId, {
+      data: {
+        ...node.data,
+        usage: {
+          promptTokens: prev.promptTokens + usage.promptTokens,
+          completionTokens: prev.completionTokens + usage.completionTokens,
+          cost: prev.cost + cost,
+        },
+      },
+    });
+  };
+
+  /**
+   * Prompt 覆盖：全局（所有项目）与当前项目两级，项目覆盖优先
+   */
+  const userPromptOverrides = ref<PromptOverrides>(
+    loadPromptOverrides(getPromptStorageKey("user")),
+  );
+  const projectPromptOverrides = ref<PromptOverrides>({});
+
+  watch(
+    currentProjectId,
+    (projectId) => {
+      projectPromptOverrides.value = projectId
+        ? loadPromptOverrides(getPromptStorageKey("project", projectId))
+        : {};
+    },
+    { immediate: true },
+  );
+
+  /**
+   * 写入 / 清除某个 Prompt 的覆盖文本（text 为 null 时恢复内置模板）
+   */
+  const setPromptOverride = (
+    scope: PromptScope,
+    key: PromptKey,
+    text: string | null,
+  ) => {
+    const target =
+      scope === "user" ? userPromptOverrides : projectPromptOverrides;
+    const next = { ...target.value };
+    if (text === null) delete next[key];
+    else next[key] = text;
+    target.value = next;
+    if (scope === "project" && !currentProjectId.value) return;
+    savePromptOverrides(
+      getPromptStorageKey(scope, currentProjectId.value),
+      next,
+    );
+  };
+
+  /**
+   * 渲染 Prompt：有覆盖时使用覆盖文本，否则走 i18n 内置模板
+   */
+  const renderPrompt = (
+    key: PromptKey,
+    params: Record<string, string> = {},
+  ) => {
+    const override = resolvePromptOverride(
+      key,
+      projectPromptOverrides.value,
+      userPromptOverrides.value,
+    );
+    return override !== undefined
+      ? renderPromptTemplate(override, params)
+      : t(`prompts.${key}`, params);
+  };
+
+  /**
+   * 内置模板原文（占位符保持 {name} 形式），供编辑器作为初始值与“恢复默认”
+   */
+  const getDefaultPrompt = (key: PromptKey) => {
+    const meta = PROMPT_TEMPLATES.find((m) => m.key === key);
+    const placeholders = Object.fromEntries(
+      (meta?.params || []).map((name) => [name, `{${name}}`]),
+    );
+    return t(`prompts.${key}`, placeholders);
+  };
+
+  /**
+   * 用指定节点的上下文渲染模板，供编辑器预览
+   */
+  const previewPrompt = (template: string, nodeId?: string | null) => {
+    const node = nodeId
+      ? flowNodes.value.find((n) => n.id === nodeId)
+      : undefined;
+    const rootNode = flowNodes.value.find(
+      (n) => n.id.startsWith("root-") || n.data.type === "root",
+    );
+    return renderPromptTemplate(template, {
+      rootTopic: rootNode?.data?.label || "",
+      context: node ? findPathToNode(node.id).join(" -> ") : "",
+      topic: node?.data?.label || "",
+      detail: node?.data?.detailedContent || node?.data?.description || "",
+      question: node?.data?.followUp || t("prompts.continue"),
+      nodes: buildHierarchyText(),
+      prompt: node ? getImageHistory(node.data).at(-1)?.prompt || "" : "",
+    });
+  };
+
+  /**
+   * 清零当前项目的用量统计（节点上的累计值保留）
+   */
+  const resetUsage = () => {
+    usageRecords.value = [];
+    saveUsageRecords();
+  };
+
   /**
    * 清空画布
    */
@@ -991,6 +1411,8 @@ export function useThinkFlow({
     ) => Promise<{ nodes: any[]; edges: any[] } | null>,
   ) => {
     console.log(`[ThinkFlow] 加载项目: ${projectId}`);
+    // 切换项目前停止上一个项目中的生成任务
+    cancelAllGenerations();
 
     // 切换项目前先将 currentProjectId 置空，防止 clearCanvas 触发 watch 保存空数据到旧项目
     const previousProjectId = currentProjectId.value;
@@ -1200,9 +1622,103 @@ export function useThinkFlow({
     if (error.status === 429) return t("common.error.rateLimit");
     if (error.status === 400) return t("common.error.badRequest");
     if (error.status >= 500) return t("common.error.serverError");
+    if (error instanceof StructuredOutputError)
+      return t("common.error.invalidOutput");
+    if (error instanceof ImageResponseError)
+      return t("common.error.invalidImage");
     return error.message || t("common.error.unknown");
   };
 
+  /**
+   * 进行中的 AI 请求（用于停止生成）
+   * - key：任务标识，如 `expand:root`、`expand:${nodeId}`、`deepDive:${nodeId}`、`chat`
+   * - nodeIds：该请求正在写入的节点，用于按节点停止
+   * - group：所属的任务组（可选），停止该组时一并取消；如同一父节点的多个追问各自登记 `expand:${childId}`，组为 `expand:${parentId}`
+   */
+  const activeRequests = new Map<
+    string,
+    { controller: AbortController; nodeIds: string[]; group?: string }
+  >();
+
+  /**
+   * 进行中的自动探索（同一时间只有一个；其请求由队列自行中止，不登记在 activeRequests）
+   */
+  let autoExploreQueue: AutoExploreQueue | null = null;
+
+  /**
+   * 登记一个可取消的请求；同 key 的旧请求会先被取消
+   */
+  const beginRequest = (
+    key: string,
+    nodeIds: string[] = [],
+    group?: string,
+  ) => {
+    activeRequests.get(key)?.controller.abort();
+    const controller = new AbortController();
+    activeRequests.set(key, { controller, nodeIds, group });
+    return controller;
+  };
+
+  /**
+   * 请求结束后注销（仅当登记的仍是同一个 controller 时）
+   */
+  const endRequest = (key: string, controller: AbortController) => {
+    if (activeRequests.get(key)?.controller === controller) {
+      activeRequests.delete(key);
+    }
+  };
+
+  /**
+   * 用户主动停止（AbortController.abort）导致的异常，不应作为错误展示
+   */
+  const isAbortError = (error: any) => error?.name === "AbortError";
+
+  /**
+   * 停止指定任务（包括登记在该任务组下的请求）
+   */
+  const cancelGeneration = (key: string) => {
+    activeRequests.forEach(({ controller, group }, k) => {
+      if (k === key || group === key) controller.abort();
+    });
+  };
+
+  /**
+   * 停止所有正在写入该节点的请求（追问 / 深挖 / 衍生问题 / 配图）
+   */
+  const stopNodeGeneration = (nodeId: string) => {
+    activeRequests.forEach(({ controller, nodeIds }) => {
+      if (nodeIds.includes(nodeId)) controller.abort();
+    });
+  };
+
+  /**
+   * 停止全部请求（切换项目 / 重置画布时调用）
+   */
+  const cancelAllGenerations = () => {
+    activeRequests.forEach(({ controller }) => controller.abort());
+    autoExploreQueue?.cancel();
+  };
+
+  /**
+   * 节点级重试进度：写入 data.retryStatus，供 WindowNode 展示“重试中 (2/3)”
+   * - 传入 null 清除（请求结束时调用）
+   */
+  const setNodeRetryStatus = (nodeId: string, info: RetryInfo | null) => {
+    const node = flowNodes.value.find((n) => n.id === nodeId);
+    if (!node || (!info && !node.data.retryStatus)) return;
+    updateNode(nodeId, {
+      data: {
+        ...node.data,
+        retryStatus: info
+          ? { attempt: info.attempt, maxAttempts: info.maxAttempts }
+          : null,
+      },
+    });
+  };
+
+  const stopRootExpansion = () => cancelGeneration("expand:root");
+  const stopGraphChat = () => cancelGeneration("chat");
+
   /**
    * 视图：将根节点居中显示
    */
@@ -1551,6 +2067,34 @@ export function useThinkFlow({
     URL.revokeObjectURL(url);
   };
 
+  /**
+   * 导出：将当前画布导出为 JSON
+   * - 包含每个节点的回答与思考过程（reasoningContent），便于审计与备份
+   * - 结构见 services/projectExport.ts
+   */
+  const exportJSON = () => {
+    if (flowNodes.value.length === 0) return;
+
+    const rootNode = flowNodes.value.find(
+      (n) => n.id.startsWith("root") || n.data.type === "root",
+    );
+    const data = buildProjectExport(
+      toRaw(flowNodes.value),
+      toRaw(flowEdges.value),
+    );
+
+    const blob = new Blob([JSON.stringify(data, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    const safeName = sanitizeFilename(rootNode?.data.label);
+    link.download = `omnimind-${safeName}-${Date.now()}.json`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   /**
    * 右侧面板状态管理
    * - 'none': 无面板显示
@@ -1610,11 +2154,152 @@ export function useThinkFlow({
 
   /**
    * 图谱对话状态
+   * - 对话按项目保存为多个线程，graphChatMessages 为当前线程的消息
    */
   const isChatting = ref(false);
-  const graphChatMessages = ref<
-    { role: "user" | "assistant"; content: string }[]
-  >([]);
+  const chatThreads = ref<ChatThread[]>([]);
+  const activeChatThreadId = ref<string | null>(null);
+  const activeChatThread = computed(
+    () =>
+      chatThreads.value.find((t) => t.id === activeChatThreadId.value) || null,
+  );
+  const graphChatMessages = computed<GraphChatMessage[]>(
+    () => activeChatThread.value?.messages || [],
+  );
+
+  // 登录用户的云端线程存储（由 App 注入，游客项目始终使用 localStorage）
+  let chatThreadCloudStore: ChatThreadCloudStore | null = null;
+
+  /**
+   * 初始化对话线程的云端存储
+   */
+  const initChatThreadSync = (store: ChatThreadCloudStore) => {
+    chatThreadCloudStore = store;
+  };
+
+  const isCloudChatProject = (projectId: string) =>
+    cloudSyncEnabled.value &&
+    !!chatThreadCloudStore &&
+    !projectId.startsWith("guest-");
+
+  /**
+   * 切换项目时读取该项目的对话线程，默认打开最近更新的线程
+   * - 云端读取失败时回退到 localStorage
+   */
+  watch(
+    currentProjectId,
+    async (projectId) => {
+      chatThreads.value = [];
+      activeChatThreadId.value = null;
+      if (!projectId) return;
+
+      const cloudThreads = isCloudChatProject(projectId)
+        ? await chatThreadCloudStore!.load(projectId)
+        : null;
+      // 读取期间项目已切换则丢弃结果
+      if (currentProjectId.value !== projectId) return;
+
+      chatThreads.value =
+        cloudThreads ?? loadChatThreads(getChatThreadsStorageKey(projectId));
+      activeChatThreadId.value =
+        [...chatThreads.value].sort((a, b) => b.updatedAt - a.updatedAt)[0]
+          ?.id || null;
+    },
+    { immediate: true },
+  );
+
+  /**
+   * 保存线程（游客写入 localStorage，登录用户写入云端）
+   * - 线程已被删除或项目已切换时跳过
+   */
+  const persistChatThread = (thread: ChatThread) => {
+    const projectId = currentProjectId.value;
+    if (!projectId || !chatThreads.value.includes(thread)) return;
+    thread.updatedAt = Date.now();
+    if (isCloudChatProject(projectId)) {
+      chatThreadCloudStore!.save(projectId, toRaw(thread));
+    } else {
+      saveChatThreads(
+        getChatThreadsStorageKey(projectId),
+        toRaw(chatThreads.value),
+      );
+    }
+  };
+
+  /**
+   * 新建对话线程并设为当前线程
+   */
+  const newChatThread = (title = "") => {
+    chatThreads.value.push(createChatThread(title.trim()));
+    const thread = chatThreads.value[chatThreads.value.length - 1];
+    activeChatThreadId.value = thread.id;
+    persistChatThread(thread);
+    return thread;
+  };
+
+  const selectChatThread = (threadId: string) => {
+    if (chatThreads.value.some((t) => t.id === threadId))
+      activeChatThreadId.value = threadId;
+  };
+
+  const renameChatThread = (threadId: string, title: string) => {
+    const thread = chatThreads.value.find((t) => t.id === threadId);
+    if (!thread) return;
+    thread.title = title.trim();
+    persistChatThread(thread);
+  };
+
+  /**
+   * 清空线程中的消息（保留线程与标题）
+   */
+  const clearChatThread = (threadId = activeChatThreadId.value) => {
+    const thread = chatThreads.value.find((t) => t.id === threadId);
+    if (!thread) return;
+    thread.messages = [];
+    persistChatThread(thread);
+  };
+
+  /**
+   * 删除线程，当前线程被删除时切换到剩余线程中的第一个
+   */
+  const deleteChatThread = (threadId: string) => {
+    const projectId = currentProjectId.value;
+    if (!projectId) return;
+    chatThreads.value = chatThreads.value.filter((t) => t.id !== threadId);
+    if (activeChatThreadId.value === threadId)
+      activeChatThreadId.value = chatThreads.value[0]?.id || null;
+    if (isCloudChatProject(projectId)) {
+      chatThreadCloudStore!.remove(projectId, threadId);
+    } else {
+      saveChatThreads(
+        getChatThreadsStorageKey(projectId),
+        toRaw(chatThreads.value),
+      );
+    }
+  };
+
+  /**
+   * 导出线程为 Markdown 文件
+   */
+  const exportChatThread = (threadId = activeChatThreadId.value) => {
+    const thread = chatThreads.value.find((t) => t.id === threadId);
+    if (!thread || thread.messages.length === 0) return;
+
+    const title = getThreadTitle(thread, t("chat.threads.untitled"));
+    const markdown = chatThreadToMarkdown(thread, {
+      title,
+      user: t("chat.threads.user"),
+      assistant: t("chat.threads.assistant"),
+      context: t("chat.context"),
+    });
+    const blob = new Blob([markdown], { type: "text/markdown" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.download = `omnimind-chat-${sanitizeFilename(title)}-${Date.now()}.md`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
   /**
    * 添加便签 (Sticky Note)
@@ -1649,120 +2334,391 @@ export function useThinkFlow({
       openGraphChat();
     }
 
-    graphChatMessages.value.push({ role: "user", content: userMessage });
-    isChatting.value = true;
+    // 回答写入发起提问时的线程（生成过程中切换线程不受影响）
+    const thread = activeChatThread.value || newChatThread();
+    const messages = thread.messages;
+
+    // 检索与问题相关的节点作为上下文（连同上一轮问题，便于理解简短的追问）
+    const previousQuestion = [...messages]
+      .reverse()
+      .find((m) => m.role === "user")?.content;
+    const graphContext = selectGraphContext(
+      flowNodes.value,
+      [previousQuestion, userMessage].filter(Boolean).join("\n"),
+    );
 
-    // 构建图谱上下文
-    const buildGraphContext = () => {
-      const nodesText = flowNodes.value
-        .map((n) => {
-          if (n.type === "sticky") return `[Note]: ${n.data.label}`;
-          return `[Node]: ${n.data.label} - ${n.data.description || ""}`;
-        })
-        .join("\n");
-      return nodesText;
-    };
+    messages.push({
+      role: "user",
+      content: userMessage,
+      contextNodes: graphContext.nodes,
+    });
+    isChatting.value = true;
 
-    const graphContext = buildGraphContext();
-    const useConfig =
-      apiConfig.mode === "default" ? DEFAULT_CONFIG.chat : apiConfig.chat;
-    const finalApiKey =
-      apiConfig.mode === "default"
-        ? useConfig.apiKey || API_KEY
-        : useConfig.apiKey;
+    const controller = beginRequest("chat");
 
     try {
-      const response = await fetch(useConfig.baseUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${finalApiKey}`,
-        },
-        body: JSON.stringify({
-          model: useConfig.model,
+      let lastIdx = -1;
+      const request = (tools?: ChatTool[]) =>
+        requestChat({
+          action: "chat",
           stream: true,
+          signal: controller.signal,
+          tools,
           messages: [
             {
               role: "system",
               content: `You are an AI assistant helping the user explore their knowledge graph. 
-                            The current graph contains the following information:
-                            ${graphContext}
+                            The following nodes of the graph are the most relevant to the question:
+                            ${graphContext.text}
+
+                            Node ids (use them for citations and when calling tools):
+                            ${graphContext.nodes.map((n) => `- ${n.id}: ${n.label}`).join("\n")}
                             
-                            Please answer the user's questions based on this context. Be concise and insightful.`,
+                            Please answer the user's questions based on this context. Be concise and insightful.
+                            ${CITATION_INSTRUCTION}
+                            When the user asks to change the map, call the provided tools. Changes are only applied after the user accepts them.`,
             },
-            ...graphChatMessages.value,
+            // 只发送角色与内容（contextNodes 仅供侧边栏展示，提案转为文字描述）
+            ...messages.map(({ role, content, proposals }) => ({
+              role,
+              content: [content, ...(proposals || []).map(describeProposal)]
+                .filter(Boolean)
+                .join("\n"),
+            })),
           ],
-        }),
-      });
-
-      if (!response.ok) throw new Error("Chat request failed");
-
-      // 处理流式响应
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error("ReadableStream not supported");
-
-      const decoder = new TextDecoder("utf-8");
-      let assistantMessage = "";
-
-      // 先添加一个空的 assistant 消息占位
-      graphChatMessages.value.push({ role: "assistant", content: "" });
-      const lastIdx = graphChatMessages.value.length - 1;
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split("\n");
+          onDelta: (_delta, full) => {
+            // 首个分片到达时再添加 assistant 消息占位
+            if (lastIdx === -1) {
+              messages.push({ role: "assistant", content: "" });
+              lastIdx = messages.length - 1;
+            }
+            messages[lastIdx].content = full;
+          },
+        });
 
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            const dataStr = line.slice(6).trim();
-            if (dataStr === "[DONE]") break;
+      // 不支持工具调用的模型（如部分 Ollama 模型）以 400 拒绝带 tools 的请求：去掉工具重试一次
+      let toolCalls: ToolCall[] | undefined;
+      try {
+        ({ toolCalls } = await request(GRAPH_EDIT_TOOLS));
+      } catch (error: any) {
+        if (error?.status !== 400) throw error;
+        console.warn("[GraphChat] 模型拒绝了工具调用，改为不带工具重试");
+        ({ toolCalls } = await request());
+      }
 
-            try {
-              const data = JSON.parse(dataStr);
-              const content = data.choices[0]?.delta?.content || "";
-              if (content) {
-                assistantMessage += content;
-                graphChatMessages.value[lastIdx].content = assistantMessage;
-              }
-            } catch (e) {
-              // 忽略解析错误
-            }
-          }
+      const proposals = toGraphEditProposals(toolCalls || []);
+      if (proposals.length > 0) {
+        if (lastIdx === -1) {
+          messages.push({ role: "assistant", content: "" });
+          lastIdx = messages.length - 1;
         }
+        messages[lastIdx].proposals = proposals;
       }
     } catch (error: any) {
+      // 用户停止：保留已生成的部分回答
+      if (isAbortError(error)) return;
       console.error("Graph Chat Error:", error);
-      graphChatMessages.value.push({
+      messages.push({
         role: "assistant",
         content: `Error: ${getErrorMessage(error)}`,
       });
     } finally {
+      endRequest("chat", controller);
       isChatting.value = false;
+      persistChatThread(thread);
     }
   };
 
   /**
-   * 构建请求头：OpenRouter 需额外添加 HTTP-Referer 与 X-Title
+   * 将模型的工具调用转换为待确认的修改提案（无效调用仅记录警告）
    */
-  const buildHeaders = (
-    baseUrl: string,
-    apiKey: string,
-  ): Record<string, string> => {
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    };
-    if (baseUrl.includes("openrouter.ai")) {
-      headers["HTTP-Referer"] = window.location.origin;
-      headers["X-Title"] = "ThinkFlowAI";
-    }
-    return headers;
-  };
-
-  /**
+  const toGraphEditProposals = (toolCalls: ToolCall[]) =>
+    toolCalls.flatMap((call) => {
+      const result = toGraphEditProposal(
+        call,
+        flowNodes.value,
+        flowEdges.value,
+      );
+      if (result.ok) return [result.proposal];
+      console.warn(
+        `[GraphChat] 忽略无效的工具调用 ${call.name}: ${result.error}`,
+      );
+      return [];
+    });
+
+  /**
+   * 应用修改提案；引用的节点已被删除、或要添加的连线已存在时返回 false
+   */
+  const applyGraphEdit = (proposal: GraphEditProposal) => {
+    const findNode = (id: string) => flowNodes.value.find((n) => n.id === id);
+    switch (proposal.tool) {
+      case "add_children": {
+        const parent = findNode(proposal.parentId);
+        if (!parent) return false;
+        processSubNodes(
+          proposal.children.map((child) => ({
+            text: child.label,
+            description: child.description,
+          })),
+          parent.id,
+          parent.position.x,
+          parent.position.y,
+        );
+        nextTick(() => resetLayout());
+        return true;
+      }
+      case "rename_node": {
+        const node = findNode(proposal.nodeId);
+        if (!node) return false;
+        updateNode(node.id, { data: { ...node.data, label: proposal.to } });
+        return true;
+      }
+      case "add_sticky_note": {
+        // 指定了关联节点时放在其上方，否则放在视口中央
+        const near = proposal.nearNodeId && findNode(proposal.nearNodeId);
+        const position = near
+          ? { x: near.position.x, y: near.position.y - 180 }
+          : project({
+              x: window.innerWidth / 2 - 100,
+              y: window.innerHeight / 2 - 50,
+            });
+        addNodes({
+          id: "sticky-" + Date.now(),
+          type: "sticky",
+          position,
+          data: { label: proposal.text, type: "sticky" },
+        });
+        return true;
+      }
+      case "link_nodes": {
+        if (!findNode(proposal.sourceId) || !findNode(proposal.targetId))
+          return false;
+        // 提案之后可能已连线（同一回答中的重复提案、或用户手动连接），不重复添加
+        const linked = flowEdges.value.some(
+          (e) =>
+            e.source === proposal.sourceId && e.target === proposal.targetId,
+        );
+        if (linked) return false;
+        addEdges({
+          id: `e-${proposal.sourceId}-${proposal.targetId}`,
+          source: proposal.sourceId,
+          target: proposal.targetId,
+          animated: true,
+          type: config.edgeType,
+          style: { stroke: config.edgeColor, strokeWidth: 2 },
+          markerEnd: MarkerType.ArrowClosed,
+        });
+        return true;
+      }
+    }
+  };
+
+  /**
+   * 节点当前标题（节点已删除时返回 null），供对话中的引用标签展示
+   */
+  const getNodeLabel = (nodeId: string): string | null => {
+    const node = flowNodes.value.find((n) => n.id === nodeId);
+    return node ? node.data?.label || nodeId : null;
+  };
+
+  /**
+   * 打开回答中引用的节点：在画布中定位并打开详情面板
+   */
+  const openCitedNode = (nodeId: string) => {
+    if (!getNodeLabel(nodeId)) return;
+    focusNode(nodeId);
+    openNodeDetailPanel(nodeId);
+  };
+
+  /**
+   * 接受或拒绝图谱对话中的修改提案
+   * - 接受时才修改画布；引用的节点已不存在或连线已存在时标记为拒绝
+   */
+  const resolveGraphEdit = (proposalId: string, accept: boolean) => {
+    for (const thread of chatThreads.value) {
+      const proposal = thread.messages
+        .flatMap((m) => m.proposals || [])
+        .find((p) => p.id === proposalId);
+      if (!proposal || proposal.status !== "pending") continue;
+      proposal.status =
+        accept && applyGraphEdit(proposal) ? "accepted" : "rejected";
+      persistChatThread(thread);
+      return;
+    }
+  };
+
+  /**
+   * 解析当前模式的文本接口（默认模式读取环境变量，自定义模式读取设置）
+   */
+  const resolveChatEndpoint = (): ChatEndpoint => {
+    if (apiConfig.mode === "default") {
+      return {
+        provider: DEFAULT_CONFIG.chat.provider,
+        baseUrl: DEFAULT_CONFIG.chat.baseUrl,
+        model: DEFAULT_CONFIG.chat.model,
+        apiKey: DEFAULT_CONFIG.chat.apiKey || API_KEY,
+      };
+    }
+    return { ...apiConfig.chat };
+  };
+
+  /**
+   * 解析当前模式下的图片接口（默认模式使用 DEFAULT_CONFIG.image）
+   */
+  const resolveImageEndpoint = (): ImageEndpoint => {
+    if (apiConfig.mode === "default") {
+      return {
+        ...DEFAULT_CONFIG.image,
+        apiKey: DEFAULT_CONFIG.image.apiKey || API_KEY,
+      };
+    }
+    const { provider, baseUrl, model, apiKey, responsePath } = apiConfig.image;
+    return { provider, baseUrl, model, apiKey, responsePath };
+  };
+
+  /**
+   * 不支持流式用量参数（stream_options）的 OpenAI 兼容后端（按 baseUrl 记录）
+   */
+  const streamUsageUnsupported = new Set<string>();
+
+  /**
+   * 统一的文本生成请求：按 action 路由到模型配置，再按 provider 构建请求并解析响应
+   * - stream 为 true 时逐分片回调 onDelta
+   * - 传入 tools 时模型可发起工具调用，解析结果通过返回值的 toolCalls 给出
+   * - signal 触发后 fetch / 流读取抛出 AbortError
+   * - 限流 / 5xx / 网络异常按 apiConfig.retry 自动重试，onRetry 用于展示重试进度
+   * - mock provider 不发起网络请求，由 mockFetch 生成模拟响应（解析路径与真实后端一致）
+   * - 非 2xx 响应抛出带 status 的 Error，交由 getErrorMessage 转换
+   * - 后端返回 usage 时按 action / nodeId 记录用量与费用
+   * - OpenAI 兼容后端以 400 拒绝流式用量参数（stream_options）时去掉后重试一次，并在本次会话中记住该后端（带 tools 的请求除外）
+   * - 传入 cache 时启用本地响应缓存：命中则直接返回（流式请求一次性回调 onDelta，不产生费用）；
+   *   bypass 为 true 时跳过读取但仍写入新结果
+   */
+  const requestChat = async ({
+    messages,
+    stream = false,
+    temperature,
+    signal,
+    onRetry,
+    onDelta,
+    action,
+    nodeId,
+    cache,
+    tools,
+  }: {
+    messages: ChatMessage[];
+    stream?: boolean;
+    temperature?: number;
+    signal?: AbortSignal;
+    onRetry?: (info: RetryInfo) => void;
+    onDelta?: (
+      delta: string,
+      fullContent: string,
+      reasoningDelta?: string,
+    ) => void;
+    action: RoutedAction;
+    nodeId?: string;
+    cache?: { context: string; bypass?: boolean };
+    tools?: ChatTool[];
+  }): Promise<ChatDelta> => {
+    // 按动作路由到对应的模型配置，未路由时使用当前模式的文本接口
+    const endpoint = resolveRoutedEndpoint(
+      action,
+      apiConfig.profiles,
+      apiConfig.routing,
+      resolveChatEndpoint,
+    );
+
+    const cacheKey =
+      cache && apiConfig.cache.enabled
+        ? buildCacheKey({ ...endpoint, context: cache.context, messages })
+        : null;
+    if (cacheKey && !cache!.bypass) {
+      const cached = await readCachedResponse(
+        cacheKey,
+        apiConfig.cache.ttlHours * 60 * 60 * 1000,
+      );
+      if (cached) {
+        if (stream) onDelta?.(cached.content, cached.content, cached.reasoning);
+        return { content: cached.content, reasoning: cached.reasoning };
+      }
+    }
+
+    const provider = getChatProvider(endpoint.provider);
+    const send = (streamUsage: boolean) => {
+      const { url, init } = provider.buildRequest(endpoint, {
+        messages,
+        stream,
+        temperature,
+        tools,
+        streamUsage,
+      });
+      // 仅重试“建立响应”阶段：流开始输出后再重试会导致内容重复
+      return withRetry(
+        async () => {
+          const res =
+            endpoint.provider === "mock"
+              ? await mockFetch(action, { ...init, signal })
+              : await fetch(url, { ...init, signal });
+          if (!res.ok) throw createHttpError(res, "AI request failed");
+          return res;
+        },
+        { maxAttempts: apiConfig.retry.maxAttempts, signal, onRetry },
+      );
+    };
+
+    const streamUsage =
+      stream &&
+      endpoint.provider === "openai" &&
+      !streamUsageUnsupported.has(endpoint.baseUrl);
+    let response: Response;
+    try {
+      response = await send(streamUsage);
+    } catch (error: any) {
+      // 带 tools 时 400 也可能由 tools 引起，交由调用方先去掉 tools 重试
+      if (!streamUsage || tools?.length || error?.status !== 400) throw error;
+      console.warn("[Usage] 后端拒绝 stream_options，去掉后重试", error);
+      response = await send(false);
+      // 去掉后成功才说明 400 由该参数导致
+      streamUsageUnsupported.add(endpoint.baseUrl);
+    }
+
+    if (!stream) {
+      const result = provider.parseResponse(await response.json());
+      if (result.usage)
+        recordUsage(action, endpoint.model, result.usage, nodeId);
+      if (cacheKey) await writeCachedResponse(cacheKey, result);
+      return result;
+    }
+
+    let reasoning = "";
+    let usage: TokenUsage | undefined;
+    let toolCalls: ToolCall[] | undefined;
+    const content = await readSSEStream(
+      response,
+      provider,
+      (delta, full, reasoningDelta) => {
+        if (reasoningDelta) reasoning += reasoningDelta;
+        onDelta?.(delta, full, reasoningDelta);
+      },
+      (streamUsage) => {
+        usage = streamUsage;
+        recordUsage(action, endpoint.model, streamUsage, nodeId);
+      },
+      (calls) => {
+        toolCalls = calls;
+      },
+    );
+    if (cacheKey) await writeCachedResponse(cacheKey, { content, reasoning });
+    return {
+      content,
+      reasoning,
+      ...(usage && { usage }),
+      ...(toolCalls && { toolCalls }),
+    };
+  };
+
+  /**
    * 剥离 Markdown 围栏（```json ... ```），使原始文本可被 JSON.parse
    * 支持流式处理：即使没有结尾围栏，只要有开头也剥离
    */
@@ -1783,58 +2739,117 @@ export function useThinkFlow({
   };
 
   /**
-   * 读取 OpenAI 兼容 SSE 流，逐 token 回调
+   * 解析结构化输出，不符合 schema 时尝试修复
+   * - parseStructured 已包含宽松解析；仍不合格则把校验错误连同原输出回传给模型，要求返回修正后的 JSON
+   * - 修复后仍不合格抛出 StructuredOutputError，由调用方展示错误
    */
-  const readSSEStream = async (
-    response: Response,
-    onDelta: (
-      delta: string,
-      fullContent: string,
-      reasoningDelta?: string,
-    ) => void,
-  ): Promise<string> => {
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-    let sseBuffer = "";
-    let fullContent = "";
+  const parseWithRepair = async <T>({
+    raw,
+    schema,
+    messages,
+    action,
+    nodeId,
+    signal,
+  }: {
+    raw: string;
+    schema: Schema;
+    messages: ChatMessage[];
+    action: RoutedAction;
+    nodeId?: string;
+    signal?: AbortSignal;
+  }): Promise<T> => {
+    const first = parseStructured<T>(raw, schema);
+    if (first.ok) return first.value;
+
+    console.warn(`[ThinkFlow] 结构化输出不合格，尝试修复: ${first.error}`);
+    const { content } = await requestChat({
+      action,
+      nodeId,
+      signal,
+      temperature: 0,
+      messages: [
+        ...messages,
+        { role: "assistant", content: raw },
+        {
+          role: "user",
+          content: t("prompts.repairJson", { error: first.error }),
+        },
+      ],
+    });
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      sseBuffer += decoder.decode(value, { stream: true });
+    const repaired = parseStructured<T>(content, schema);
+    if (repaired.ok) return repaired.value;
+    throw new StructuredOutputError(repaired.error);
+  };
 
-      const lines = sseBuffer.split("\n");
-      sseBuffer = lines.pop() || "";
+  /**
+   * 构建层级结构的文本表示，帮助 AI 更好地理解逻辑关系（总结与 Prompt 预览共用）
+   */
+  const buildHierarchyText = () => {
+    // 使用 id 前缀判定根节点（因 data.type 在存储加载后可能丢失）
+    const rootNode = flowNodes.value.find(
+      (n) => n.id.startsWith("root-") || n.data.type === "root",
+    );
+    if (!rootNode) return "";
 
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed || !trimmed.startsWith("data: ")) continue;
-        const payload = trimmed.slice(6);
-        if (payload === "[DONE]") return fullContent;
+    let text = `核心主题: ${rootNode.data.label}\n`;
+    if (rootNode.data.description)
+      text += `核心描述: ${rootNode.data.description}\n`;
+    text += `\n思维脉络:\n`;
 
-        try {
-          const chunk = JSON.parse(payload);
-          const deltaObj = chunk.choices?.[0]?.delta;
-          const delta = deltaObj?.content || "";
-          const reasoning = deltaObj?.reasoning || "";
-
-          if (delta || reasoning) {
-            fullContent += delta;
-            onDelta(delta, fullContent, reasoning);
-          }
-        } catch (e) {
-          console.warn("SSE Parse Error:", e);
+    const traverse = (parentId: string, level: number) => {
+      const children = flowEdges.value
+        .filter((e) => e.source === parentId)
+        .map((e) => flowNodes.value.find((n) => n.id === e.target))
+        .filter((n) => !!n);
+
+      children.forEach((child) => {
+        const indent = "  ".repeat(level);
+        text += `${indent}- ${child!.data.label}`;
+        if (child!.data.description) {
+          text += `: ${child!.data.description}`;
         }
-      }
-    }
-    return fullContent;
+        text += "\n";
+        traverse(child!.id, level + 1);
+      });
+    };
+
+    traverse(rootNode.id, 1);
+    return text;
+  };
+
+  /**
+   * 总结格式（记住上次的选择）与当前项目的总结历史（按项目保存在 localStorage，切换项目时重新读取）
+   */
+  const summaryFormat = ref<SummaryFormat>("insight");
+  const summaryHistory = ref<SavedSummary[]>([]);
+
+  watch(
+    currentProjectId,
+    (projectId) => {
+      summaryHistory.value = projectId
+        ? loadSummaries(getSummariesStorageKey(projectId))
+        : [];
+    },
+    { immediate: true },
+  );
+
+  const saveSummaryHistory = () => {
+    if (!currentProjectId.value) return;
+    saveSummaries(
+      getSummariesStorageKey(currentProjectId.value),
+      summaryHistory.value,
+    );
   };
 
   /**
-   * 总结：基于当前所有节点信息生成一段总结文本
-   * - 结果展示在 SummaryModal
+   * 总结：按所选格式基于当前所有节点信息生成一段总结文本
+   * - 流式写入 summaryContent，SummaryModal 边生成边渲染 Markdown
+   * - 完成后连同格式、模型与时间存入总结历史；中途停止时保留已生成的部分，但不存入历史
    */
-  const generateSummary = async () => {
+  const generateSummary = async (
+    format: SummaryFormat = summaryFormat.value,
+  ) => {
     console.log("[Summary Debug] flowNodes:", flowNodes.value);
     console.log("[Summary Debug] flowNodes.length:", flowNodes.value.length);
     console.log(
@@ -1847,95 +2862,137 @@ export function useThinkFlow({
     );
     if (flowNodes.value.length === 0) return;
 
+    summaryFormat.value = format;
     showSummaryModal.value = true;
     isSummarizing.value = true;
     summaryContent.value = "";
 
-    // 构建层级结构的文本表示，帮助 AI 更好地理解逻辑关系
-    const buildHierarchyText = () => {
-      // 使用 id 前缀判定根节点（因 data.type 在存储加载后可能丢失）
-      const rootNode = flowNodes.value.find(
-        (n) => n.id.startsWith("root-") || n.data.type === "root",
-      );
-      if (!rootNode) return "";
-
-      let text = `核心主题: ${rootNode.data.label}\n`;
-      if (rootNode.data.description)
-        text += `核心描述: ${rootNode.data.description}\n`;
-      text += `\n思维脉络:\n`;
-
-      const traverse = (parentId: string, level: number) => {
-        const children = flowEdges.value
-          .filter((e) => e.source === parentId)
-          .map((e) => flowNodes.value.find((n) => n.id === e.target))
-          .filter((n) => !!n);
-
-        children.forEach((child) => {
-          const indent = "  ".repeat(level);
-          text += `${indent}- ${child!.data.label}`;
-          if (child!.data.description) {
-            text += `: ${child!.data.description}`;
-          }
-          text += "\n";
-          traverse(child!.id, level + 1);
-        });
-      };
-
-      traverse(rootNode.id, 1);
-      return text;
-    };
-
     const nodesHierarchy = buildHierarchyText();
 
     // Debug: 检查节点层级数据和最终 prompt
     console.log("[Summary Debug] nodesHierarchy:", nodesHierarchy);
-    const finalPrompt = t("prompts.summaryPrompt", { nodes: nodesHierarchy });
+    const finalPrompt = renderPrompt(getSummaryPromptKey(format), {
+      nodes: nodesHierarchy,
+    });
     console.log("[Summary Debug] finalPrompt:", finalPrompt);
 
-    const useConfig =
-      apiConfig.mode === "default" ? DEFAULT_CONFIG.chat : apiConfig.chat;
-    const finalApiKey =
-      apiConfig.mode === "default"
-        ? useConfig.apiKey || API_KEY
-        : useConfig.apiKey;
+    const controller = beginRequest("summary");
 
     try {
-      const response = await fetch(useConfig.baseUrl, {
-        method: "POST",
-        headers: buildHeaders(useConfig.baseUrl, finalApiKey),
-        body: JSON.stringify({
-          model: useConfig.model,
-          messages: [
-            {
-              role: "user",
-              content: t("prompts.summaryPrompt", {
-                nodes: nodesHierarchy,
-              }),
-            },
-          ],
-        }),
+      const { content } = await requestChat({
+        action: "summary",
+        stream: true,
+        messages: [{ role: "user", content: finalPrompt }],
+        signal: controller.signal,
+        onDelta: (_delta, full) => {
+          summaryContent.value = full;
+        },
       });
+      summaryContent.value = content;
 
-      if (!response.ok) throw new Error("Summary request failed");
-
-      const data = await response.json();
-      summaryContent.value = data.choices[0].message.content;
+      const { model } = resolveRoutedEndpoint(
+        "summary",
+        apiConfig.profiles,
+        apiConfig.routing,
+        resolveChatEndpoint,
+      );
+      summaryHistory.value = [
+        ...summaryHistory.value,
+        createSavedSummary({ format, content, model }),
+      ];
+      saveSummaryHistory();
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Summary Generation Error:", error);
       summaryContent.value = t("common.error.unknown");
     } finally {
-      isSummarizing.value = false;
+      endRequest("summary", controller);
+      // 被新的生成替换时，由新的请求负责结束加载状态
+      if (!activeRequests.has("summary")) isSummarizing.value = false;
+    }
+  };
+
+  const stopSummary = () => cancelGeneration("summary");
+
+  /**
+   * 打开总结弹窗：没有历史时直接按当前格式生成一份
+   */
+  const openSummaries = () => {
+    if (summaryHistory.value.length === 0) {
+      generateSummary();
+      return;
+    }
+    showSummaryModal.value = true;
+  };
+
+  const deleteSummary = (summaryId: string) => {
+    summaryHistory.value = summaryHistory.value.filter(
+      (s) => s.id !== summaryId,
+    );
+    saveSummaryHistory();
+  };
+
+  /**
+   * 下载一份历史总结为 Markdown 文件
+   */
+  const downloadSummary = (summaryId: string) => {
+    const summary = summaryHistory.value.find((s) => s.id === summaryId);
+    if (!summary) return;
+
+    const rootNode = flowNodes.value.find((n) => n.id.startsWith("root"));
+    const safeName = sanitizeFilename(rootNode?.data.label);
+    const blob = new Blob([summary.content], { type: "text/markdown" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.download = `omnimind-summary-${safeName}-${summary.format}-${summary.createdAt}.md`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * 图片：将生成结果上传到对象存储，返回写入历史的来源
+   * - 已登录项目上传到 Supabase Storage，游客保存到 IndexedDB（见 services/imageStorage.ts）
+   * - 上传失败时退回原地址（data URL 不会写入 localStorage）
+   */
+  const storeGeneratedImage = async (
+    nodeId: string,
+    generatedUrl: string,
+  ): Promise<string> => {
+    const projectId = currentProjectId.value;
+    if (!projectId) return generatedUrl;
+    try {
+      return await uploadNodeImage({
+        store: selectImageStore(
+          cloudSyncEnabled.value && !projectId.startsWith("guest-"),
+        ),
+        projectId,
+        nodeId,
+        source: generatedUrl,
+      });
+    } catch (e) {
+      console.warn("[ImageStorage] 图片上传失败，保留原地址", e);
+      return generatedUrl;
     }
   };
 
   /**
    * 图片：为指定节点生成配图
    * - 节点会进入 isImageLoading 状态
-   * - 成功后写入 imageUrl，用于节点卡片与预览弹窗展示
+   * - 新图片追加到 imageHistory（记录 prompt 与模型）并设为封面，节点卡片懒加载缩略图
+   * - variationOf：基于历史中的某张图片生成变体（chat 接口会附带原图作为参考）
+   * - 请求与响应格式由图片接口适配器决定（见 services/imageProviders.ts）
    */
-  const generateNodeImage = async (nodeId: string, prompt: string) => {
+  const generateNodeImage = async (
+    nodeId: string,
+    prompt: string,
+    options: { variationOf?: string } = {},
+  ) => {
     const node = flowNodes.value.find((n) => n.id === nodeId);
     if (!node || node.data.isImageLoading) return;
+    const baseImage = options.variationOf
+      ? getImageHistory(node.data).find((i) => i.id === options.variationOf)
+      : undefined;
 
     updateNode(nodeId, ((n: any) => ({
       ...n,
@@ -1947,12 +3004,12 @@ export function useThinkFlow({
       data: { ...node.data, isImageLoading: true, error: null },
     });
 
-    const useConfig =
-      apiConfig.mode === "default" ? DEFAULT_CONFIG.image : apiConfig.image;
-    const finalApiKey =
-      apiConfig.mode === "default"
-        ? useConfig.apiKey || API_KEY
-        : useConfig.apiKey;
+    const endpoint = resolveImageEndpoint();
+    // 文本接口选择 mock 时图片同样离线生成占位图（mock 响应为 chat 格式）
+    const useMock = resolveChatEndpoint().provider === "mock";
+    const provider = getImageProvider(useMock ? "chat" : endpoint.provider);
+    const requestKey = `image:${nodeId}`;
+    const controller = beginRequest(requestKey, [nodeId]);
 
     try {
       const topic = node.data.label || prompt;
@@ -1962,54 +3019,126 @@ export function useThinkFlow({
         path.length > 5
           ? `... -> ${path.slice(-4).join(" -> ")}`
           : path.join(" -> ");
-      const response = await fetch(useConfig.baseUrl, {
-        method: "POST",
-        headers: buildHeaders(useConfig.baseUrl, finalApiKey),
-        body: JSON.stringify({
-          model: useConfig.model,
-          // prompt: t("prompts.image", { topic, detail, context }),
-          messages: [
-            {
-              role: "user",
-              content: t("prompts.image", { topic, detail, context }),
-            },
-          ],
-          modalities: ["image", "text"],
-        }),
+      const imagePrompt = baseImage
+        ? renderPrompt("imageVariation", {
+            prompt:
+              baseImage.prompt ||
+              renderPrompt("image", { topic, detail, context }),
+          })
+        : renderPrompt("image", { topic, detail, context });
+      const { url, init } = provider.buildRequest(endpoint, {
+        prompt: imagePrompt,
+        size: apiConfig.image.size,
+        aspectRatio: apiConfig.image.aspectRatio,
+        // 参考图读取失败时退化为纯文字变体
+        referenceImage: baseImage
+          ? await toReferenceImageUrl(baseImage.source).catch(() => undefined)
+          : undefined,
+      });
+      const response = await withRetry(
+        async () => {
+          const res = useMock
+            ? await mockFetch("image", { ...init, signal: controller.signal })
+            : await fetch(url, { ...init, signal: controller.signal });
+          if (!res.ok) throw createHttpError(res, "Image request failed");
+          return res;
+        },
+        {
+          maxAttempts: apiConfig.retry.maxAttempts,
+          signal: controller.signal,
+          onRetry: (info) => setNodeRetryStatus(nodeId, info),
+        },
+      );
+      const { url: generatedUrl, usage } = provider.parseResponse(
+        await response.json(),
+        endpoint,
+      );
+      const image = createNodeImage({
+        source: await storeGeneratedImage(nodeId, generatedUrl),
+        prompt: imagePrompt,
+        model: useMock ? "mock" : endpoint.model,
+        ...(baseImage && { variationOf: baseImage.id }),
       });
 
-      if (!response.ok) {
-        const error: any = new Error("Image request failed");
-        error.status = response.status;
-        throw error;
+      // 请求期间节点可能被编辑（标题、描述、译文等），以最新数据为准
+      const currentNode = flowNodes.value.find((n) => n.id === nodeId);
+      if (currentNode) {
+        const next = addImageToHistory(currentNode.data, image);
+        updateNode(nodeId, {
+          data: {
+            ...currentNode.data,
+            ...next,
+            isImageLoading: false,
+            error: null,
+          },
+        });
+        // 超出历史上限被丢弃的图片一并从存储中删除
+        deleteNodeImages(
+          getImageHistory(currentNode.data)
+            .filter((old) => !next.imageHistory.some((i) => i.id === old.id))
+            .map((old) => old.source),
+        );
+      } else {
+        // 请求期间节点已被删除
+        deleteNodeImages([image.source]);
       }
-      const data = await response.json();
-      // 需要注意不同的生成模型返回的格式可能不同，需要根据实际情况调整
-      const imageUrl = data.choices[0].message.images[0].image_url.url;
 
-      updateNode(nodeId, {
-        data: { ...node.data, imageUrl, isImageLoading: false, error: null },
-      });
+      if (usage) recordUsage("image", endpoint.model, usage, nodeId);
 
       // 关键：立即保存到云端
       await immediateCloudSave();
     } catch (error: any) {
-      console.error("Image Generation Error:", error);
-      updateNode(nodeId, {
-        data: {
-          ...node.data,
-          isImageLoading: false,
-          error: getErrorMessage(error),
-        },
-      });
+      const aborted = isAbortError(error);
+      if (!aborted) console.error("Image Generation Error:", error);
+      const currentNode = flowNodes.value.find((n) => n.id === nodeId);
+      if (currentNode) {
+        updateNode(nodeId, {
+          data: {
+            ...currentNode.data,
+            isImageLoading: false,
+            ...(!aborted && { error: getErrorMessage(error) }),
+          },
+        });
+      }
+    } finally {
+      endRequest(requestKey, controller);
+      setNodeRetryStatus(nodeId, null);
     }
   };
 
+  /**
+   * 预览弹窗中可浏览的图片历史（预览非节点图片时为 null）
+   */
+  const previewImageHistory = computed(() => {
+    const node = flowNodes.value.find((n) => n.id === previewImageNodeId.value);
+    if (!node) return null;
+    return {
+      images: getImageHistory(node.data),
+      coverId: getCoverImageId(node.data),
+    };
+  });
+
+  /**
+   * 图片：将历史中的某张图片设为封面（节点卡片与云端记录使用封面）
+   */
+  const setNodeImageCover = async (nodeId: string, imageId: string) => {
+    const node = flowNodes.value.find((n) => n.id === nodeId);
+    if (!node) return;
+    const cover = selectCoverImage(node.data, imageId);
+    if (!cover) return;
+    updateNode(nodeId, { data: { ...node.data, ...cover } });
+    await immediateCloudSave();
+  };
+
   /**
    * 深挖：针对某个节点生成更详细的解释/拓展内容
    * - 若已有 detailedContent 且未展开，则直接展开（避免重复请求）
    */
-  const deepDive = async (nodeId: string, topic: string) => {
+  const deepDive = async (
+    nodeId: string,
+    topic: string,
+    options: { bypassCache?: boolean } = {},
+  ) => {
     const node = flowNodes.value.find((n) => n.id === nodeId);
     if (!node) return;
 
@@ -2035,12 +3164,9 @@ export function useThinkFlow({
       },
     });
 
-    const useConfig =
-      apiConfig.mode === "default" ? DEFAULT_CONFIG.chat : apiConfig.chat;
-    const finalApiKey =
-      apiConfig.mode === "default"
-        ? useConfig.apiKey || API_KEY
-        : useConfig.apiKey;
+    const requestKey = `deepDive:${nodeId}`;
+    const controller = beginRequest(requestKey, [nodeId]);
+    const style = currentStyle.value;
 
     try {
       const rootNode = flowNodes.value.find((n) => n.data.type === "root");
@@ -2049,44 +3175,32 @@ export function useThinkFlow({
       const path = findPathToNode(nodeId);
       const context = path.join(" -> ");
 
-      const response = await fetch(useConfig.baseUrl, {
-        method: "POST",
-        headers: buildHeaders(useConfig.baseUrl, finalApiKey),
-        body: JSON.stringify({
-          model: useConfig.model,
-          messages: [
-            {
-              role: "system",
-              content:
-                aiStyle.value === "creative"
-                  ? t("prompts.styleCreative")
-                  : t("prompts.stylePrecise"),
-            },
-            {
-              role: "user",
-              content: t("prompts.deepDivePrompt", {
-                rootTopic,
-                context,
-                topic,
-                detail,
-              }),
-            },
-          ],
-          stream: true,
-        }),
-      });
-
-      if (!response.ok) {
-        const error: any = new Error("Deep dive request failed");
-        error.status = response.status;
-        throw error;
-      }
-
       // 流式实时更新深挖内容
       let accumulatedReasoning = "";
-      const content = await readSSEStream(
-        response,
-        (_delta, full, reasoning) => {
+      const { content, reasoning } = await requestChat({
+        action: "deepDive",
+        nodeId,
+        stream: true,
+        signal: controller.signal,
+        cache: { context, bypass: options.bypassCache },
+        temperature: resolveStyleTemperature(style),
+        onRetry: (info) => setNodeRetryStatus(nodeId, info),
+        messages: [
+          {
+            role: "system",
+            content: style.instruction,
+          },
+          {
+            role: "user",
+            content: renderPrompt("deepDivePrompt", {
+              rootTopic,
+              context,
+              topic,
+              detail,
+            }),
+          },
+        ],
+        onDelta: (_delta, full, reasoning) => {
           const currentNode = flowNodes.value.find((n) => n.id === nodeId);
           if (reasoning) accumulatedReasoning += reasoning;
 
@@ -2101,7 +3215,7 @@ export function useThinkFlow({
             });
           }
         },
-      );
+      });
 
       const finalNode = flowNodes.value.find((n) => n.id === nodeId);
       if (finalNode) {
@@ -2109,26 +3223,53 @@ export function useThinkFlow({
           data: {
             ...finalNode.data,
             detailedContent: content,
+            // 思考过程与正文一起保存（本地与云端），便于事后回看
+            reasoningContent: reasoning,
+            detailStyle: toNodeStyleRef(style),
             isDeepDiving: false,
             error: null,
           },
         });
       }
 
-      // 自动生成衍生问题
-      generateDerivedQuestions(nodeId, content);
+      // 自动生成衍生问题（强制刷新深挖时一并刷新）
+      generateDerivedQuestions(nodeId, content, options);
 
       // 关键：立即保存到云端（深挖内容）
       await immediateCloudSave();
     } catch (error: any) {
+      // 恢复深挖前的内容，避免留下半截文本；其余字段以最新数据为准（请求期间节点可能被编辑）
+      const currentNode = flowNodes.value.find((n) => n.id === nodeId);
+      const restored = {
+        detailedContent: node.data.detailedContent,
+        reasoningContent: node.data.reasoningContent,
+        isDeepDiving: false,
+      };
+      if (isAbortError(error)) {
+        if (currentNode) {
+          updateNode(nodeId, {
+            data: {
+              ...currentNode.data,
+              ...restored,
+              isDetailExpanded: !!node.data.detailedContent,
+            },
+          });
+        }
+        return;
+      }
       console.error("Deep Dive Error:", error);
-      updateNode(nodeId, {
-        data: {
-          ...node.data,
-          isDeepDiving: false,
-          error: getErrorMessage(error),
-        },
-      });
+      if (currentNode) {
+        updateNode(nodeId, {
+          data: {
+            ...currentNode.data,
+            ...restored,
+            error: getErrorMessage(error),
+          },
+        });
+      }
+    } finally {
+      endRequest(requestKey, controller);
+      setNodeRetryStatus(nodeId, null);
     }
   };
 
@@ -2153,16 +3294,18 @@ export function useThinkFlow({
   };
 
   /**
-   * 将模型返回的子节点数组写入画布，并连边到 parentId
+   * 将模型返回的子节点数组写入画布，并连边到 parentId，返回新节点 id
+   * - id 带随机后缀：自动探索会在同一毫秒内并发写入多个父节点
    */
   const processSubNodes = (
     subNodes: any[],
     parentId: string,
     baseX: number,
     baseY: number,
-  ) => {
-    subNodes.forEach((item: any, index: number) => {
-      const childId = `node-${Date.now()}-${index}`;
+    style?: NodeStyleRef,
+  ) =>
+    subNodes.map((item: any, index: number) => {
+      const childId = `node-${Date.now()}-${index}-${Math.random().toString(36).slice(2, 6)}`;
       const offsetX = 450;
       const offsetY = (index - (subNodes.length - 1) / 2) * 280;
 
@@ -2174,6 +3317,7 @@ export function useThinkFlow({
           label: item.text,
           description: item.description,
           type: "child",
+          ...(style && { style }),
           followUp: "",
           isExpanding: false,
           isImageLoading: false,
@@ -2193,8 +3337,8 @@ export function useThinkFlow({
         style: { stroke: config.edgeColor, strokeWidth: 2 },
         markerEnd: MarkerType.ArrowClosed,
       });
+      return childId;
     });
-  };
 
   /**
    * 生成/扩展节点
@@ -2235,6 +3379,9 @@ export function useThinkFlow({
     console.log("[expandIdea Debug] 通过检查，继续执行...");
 
     let currentParentId = parentNode?.id;
+    // 固定本次生成使用的风格（生成过程中切换风格不影响本次结果），并记录到产出的节点上
+    const style = currentStyle.value;
+    const styleRef = toNodeStyleRef(style);
 
     if (!parentNode) {
       // ========== 根节点：首次探索 ==========
@@ -2256,6 +3403,7 @@ export function useThinkFlow({
           label: text,
           description: "",
           type: "root",
+          style: styleRef,
           isExpanding: true,
           isTitleExpanded: false,
           followUp: "",
@@ -2273,126 +3421,121 @@ export function useThinkFlow({
       showIdeaInput.value = false; // 首次提问后，收起输入框
 
       // 调用AI获取概述
-      const systemPrompt =
-        t("prompts.system") +
-        "\n" +
-        (aiStyle.value === "creative"
-          ? t("prompts.styleCreative")
-          : t("prompts.stylePrecise"));
+      const systemPrompt = renderPrompt("system") + "\n" + style.instruction;
       const userMessage = `${t("prompts.coreIdeaPrefix")}: ${text}`;
-
-      const useConfig =
-        apiConfig.mode === "default" ? DEFAULT_CONFIG.chat : apiConfig.chat;
-      const finalApiKey =
-        apiConfig.mode === "default"
-          ? useConfig.apiKey || API_KEY
-          : useConfig.apiKey;
+      const controller = beginRequest("expand:root", [rootId]);
+      // 本次生成创建的子节点（停止时清理）
+      const createdChildIds: string[] = [];
 
       try {
-        const response = await fetch(useConfig.baseUrl, {
-          method: "POST",
-          headers: buildHeaders(useConfig.baseUrl, finalApiKey),
-          body: JSON.stringify({
-            model: useConfig.model,
-            messages: [
-              { role: "system", content: systemPrompt },
-              { role: "user", content: userMessage },
-            ],
-            stream: true,
-            temperature: 0.8,
-          }),
-        });
-
-        if (!response.ok) {
-          const error: any = new Error("AI request failed");
-          error.status = response.status;
-          throw error;
-        }
+        // 流式增量渲染：每解析完一个 nodes 元素就创建对应子节点
+        // 子节点 id 按下标固定，流结束后只补充缺失的节点，不会重复创建
+        const childIdBase = `node-${Date.now()}`;
+        const childIdsByIndex = new Map<number, string>();
+
+        const createChild = (
+          index: number,
+          item: { text: string; description: string },
+          total: number,
+        ) => {
+          const rootNode = flowNodes.value.find((n) => n.id === rootId);
+          const baseX = rootNode ? rootNode.position.x : 50;
+          const baseY = rootNode ? rootNode.position.y : 300;
+          const childId = `${childIdBase}-${index}`;
+          childIdsByIndex.set(index, childId);
+          createdChildIds.push(childId);
+
+          addNodes({
+            id: childId,
+            type: "window",
+            position: {
+              x: baseX + 450,
+              y: baseY + (index - (total - 1) / 2) * 280,
+            },
+            data: {
+              label: item.text,
+              description: item.description,
+              type: "child",
+              style: styleRef,
+              followUp: "",
+              isExpanding: false,
+              isImageLoading: false,
+              isTitleExpanded: false,
+              error: null,
+            },
+            sourcePosition: Position.Right,
+            targetPosition: Position.Left,
+          });
 
-        // 流式增量渲染
-        let renderedNodeCount = 0;
-        let overviewSet = false;
-        const nodeRegex =
-          /\{\s*"text"\s*:\s*"((?:[^"\\]|\\.)*)"\s*,\s*"description"\s*:\s*"((?:[^"\\]|\\.)*)"\s*\}/g;
-        const overviewRegex = /"overview"\s*:\s*"((?:[^"\\]|\\.)*)"/;
-
-        const rawContent = await readSSEStream(response, (_delta, full) => {
-          const stripped = stripJsonFences(full);
-
-          // 实时更新 overview
-          if (!overviewSet) {
-            const ovMatch = stripped.match(overviewRegex);
-            if (ovMatch) {
-              overviewSet = true;
-              const rootNode = flowNodes.value.find((n) => n.id === rootId);
-              if (rootNode) {
-                updateNode(rootId, {
-                  data: {
-                    ...rootNode.data,
-                    description: ovMatch[1]
-                      .replace(/\\"/g, '"')
-                      .replace(/\\n/g, "\n"),
-                    isExpanding: true,
-                    error: null,
-                  },
-                });
-              }
-            }
-          }
+          addEdges({
+            id: `e-${rootId}-${childId}`,
+            source: rootId,
+            target: childId,
+            animated: true,
+            type: config.edgeType,
+            style: { stroke: config.edgeColor, strokeWidth: 2 },
+            markerEnd: MarkerType.ArrowClosed,
+          });
+        };
 
-          // 逐个检测并渲染子节点
-          const matches = [...stripped.matchAll(nodeRegex)];
-          if (matches.length > renderedNodeCount) {
+        const parser = createStreamingJsonParser((path, value: any) => {
+          if (path.length === 1 && path[0] === "overview") {
             const rootNode = flowNodes.value.find((n) => n.id === rootId);
-            const baseX = rootNode ? rootNode.position.x : 50;
-            const baseY = rootNode ? rootNode.position.y : 300;
-
-            for (let i = renderedNodeCount; i < matches.length; i++) {
-              const nodeText = matches[i][1]
-                .replace(/\\"/g, '"')
-                .replace(/\\n/g, "\n");
-              const nodeDesc = matches[i][2]
-                .replace(/\\"/g, '"')
-                .replace(/\\n/g, "\n");
-              const childId = `node-${Date.now()}-${i}`;
-              const totalEstimate = Math.max(matches.length, 5);
-              const offsetX = 450;
-              const offsetY = (i - (totalEstimate - 1) / 2) * 280;
-
-              addNodes({
-                id: childId,
-                type: "window",
-                position: { x: baseX + offsetX, y: baseY + offsetY },
+            if (rootNode && typeof value === "string") {
+              updateNode(rootId, {
                 data: {
-                  label: nodeText,
-                  description: nodeDesc,
-                  type: "child",
-                  followUp: "",
-                  isExpanding: false,
-                  isImageLoading: false,
-                  isTitleExpanded: false,
+                  ...rootNode.data,
+                  description: value,
+                  isExpanding: true,
                   error: null,
                 },
-                sourcePosition: Position.Right,
-                targetPosition: Position.Left,
-              });
-
-              addEdges({
-                id: `e-${rootId}-${childId}`,
-                source: rootId,
-                target: childId,
-                animated: true,
-                type: config.edgeType,
-                style: { stroke: config.edgeColor, strokeWidth: 2 },
-                markerEnd: MarkerType.ArrowClosed,
               });
             }
-            renderedNodeCount = matches.length;
+          } else if (
+            path.length === 2 &&
+            path[0] === "nodes" &&
+            typeof value?.text === "string" &&
+            value.text
+          ) {
+            const index = path[1] as number;
+            createChild(
+              index,
+              {
+                text: value.text,
+                description: String(value.description ?? ""),
+              },
+              Math.max(index + 1, 5),
+            );
           }
         });
 
-        // 流结束：最终解析确保数据完整
-        const finalResult = JSON.parse(stripJsonFences(rawContent));
+        const messages: ChatMessage[] = [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userMessage },
+        ];
+        const { content: rawContent } = await requestChat({
+          action: "expand",
+          nodeId: rootId,
+          stream: true,
+          temperature: resolveStyleTemperature(style, 0.8),
+          signal: controller.signal,
+          onRetry: (info) => setNodeRetryStatus(rootId, info),
+          messages,
+          onDelta: (delta) => parser.write(delta),
+        });
+
+        // 流结束：按 schema 校验最终结果（不合格时自动修复）
+        const finalResult = await parseWithRepair<{
+          overview: string;
+          nodes: { text: string; description: string }[];
+        }>({
+          raw: rawContent,
+          schema: EXPANSION_SCHEMA,
+          messages,
+          action: "expand",
+          nodeId: rootId,
+          signal: controller.signal,
+        });
         const rootNode = flowNodes.value.find((n) => n.id === rootId);
         if (rootNode) {
           updateNode(rootId, {
@@ -2406,46 +3549,29 @@ export function useThinkFlow({
           });
         }
 
-        // 若流中有遗漏节点，补充渲染
+        // 流中未能创建的节点（输出中途不合法、或经修复后才得到）补充创建；已创建的按最终结果校正
         const finalNodes = finalResult.nodes || [];
-        if (finalNodes.length > renderedNodeCount) {
-          const baseX = rootNode ? rootNode.position.x : 50;
-          const baseY = rootNode ? rootNode.position.y : 300;
-          for (let i = renderedNodeCount; i < finalNodes.length; i++) {
-            const item = finalNodes[i];
-            const childId = `node-${Date.now()}-${i}`;
-            const offsetX = 450;
-            const offsetY = (i - (finalNodes.length - 1) / 2) * 280;
-
-            addNodes({
-              id: childId,
-              type: "window",
-              position: { x: baseX + offsetX, y: baseY + offsetY },
+        finalNodes.forEach((item, index) => {
+          const childId = childIdsByIndex.get(index);
+          if (!childId) {
+            createChild(index, item, finalNodes.length);
+            return;
+          }
+          const child = flowNodes.value.find((n) => n.id === childId);
+          if (
+            child &&
+            (child.data.label !== item.text ||
+              child.data.description !== item.description)
+          ) {
+            updateNode(childId, {
               data: {
+                ...child.data,
                 label: item.text,
                 description: item.description,
-                type: "child",
-                followUp: "",
-                isExpanding: false,
-                isImageLoading: false,
-                isTitleExpanded: false,
-                error: null,
-              },
-              sourcePosition: Position.Right,
-              targetPosition: Position.Left,
-            });
-
-            addEdges({
-              id: `e-${rootId}-${childId}`,
-              source: rootId,
-              target: childId,
-              animated: true,
-              type: config.edgeType,
-              style: { stroke: config.edgeColor, strokeWidth: 2 },
-              markerEnd: MarkerType.ArrowClosed,
+              },
             });
           }
-        }
+        });
 
         // 等待响应式更新完成
         await nextTick();
@@ -2471,18 +3597,26 @@ export function useThinkFlow({
           }, 200);
         });
       } catch (error: any) {
-        console.error("Root Expansion Error:", error);
+        const aborted = isAbortError(error);
+        if (aborted) {
+          // 用户停止：清理本次生成的子节点（连带的边由 removeNodes 一并移除）
+          if (createdChildIds.length > 0) removeNodes(createdChildIds);
+        } else {
+          console.error("Root Expansion Error:", error);
+        }
         const node = flowNodes.value.find((n) => n.id === rootId);
         if (node) {
           updateNode(rootId, {
             data: {
               ...node.data,
-              error: getErrorMessage(error),
+              error: aborted ? null : getErrorMessage(error),
               isExpanding: false,
             },
           });
         }
       } finally {
+        endRequest("expand:root", controller);
+        setNodeRetryStatus(rootId, null);
         isLoading.value = false;
       }
     } else {
@@ -2506,7 +3640,7 @@ export function useThinkFlow({
       const path = findPathToNode(parentNode.id);
       const context = path.join(" -> ");
 
-      const answerPrompt = t("prompts.answerPrompt", {
+      const answerPrompt = renderPrompt("answerPrompt", {
         rootTopic,
         context,
         question: customInput || t("prompts.continue"),
@@ -2521,21 +3655,25 @@ export function useThinkFlow({
         answerPrompt,
       });
 
-      const stylePrompt =
-        aiStyle.value === "creative"
-          ? t("prompts.styleCreative")
-          : t("prompts.stylePrecise");
-
-      const useConfig =
-        apiConfig.mode === "default" ? DEFAULT_CONFIG.chat : apiConfig.chat;
-      const finalApiKey =
-        apiConfig.mode === "default"
-          ? useConfig.apiKey || API_KEY
-          : useConfig.apiKey;
+      const stylePrompt = style.instruction;
+
+      // 先创建空子节点，流式填充内容
+      // 同一父节点可同时进行多个追问：各自按子节点登记，父节点的 expand 键作为任务组
+      const childId = `node-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+      const requestKey = `expand:${childId}`;
+      const requestGroup = `expand:${parentNode.id}`;
+      const controller = beginRequest(
+        requestKey,
+        [parentNode.id, childId],
+        requestGroup,
+      );
+      // 父节点的 isExpanding 在该父节点的最后一个追问结束时才清除
+      const hasOtherFollowUps = () =>
+        [...activeRequests].some(
+          ([key, { group }]) => key !== requestKey && group === requestGroup,
+        );
 
       try {
-        // 先创建空子节点，流式填充内容
-        const childId = `node-${Date.now()}`;
         const fullLabel = customInput || "追问";
         const shortLabel =
           fullLabel.length > 30 ? fullLabel.slice(0, 30) + "..." : fullLabel;
@@ -2555,6 +3693,7 @@ export function useThinkFlow({
             fullLabel: fullLabel,
             description: "",
             type: "child",
+            style: styleRef,
             detailedContent: "",
             isDetailExpanded: true,
             followUp: "",
@@ -2584,31 +3723,20 @@ export function useThinkFlow({
           fitView({ nodes: [childId], padding: 0.5, duration: 800 });
         }, 100);
 
-        const response = await fetch(useConfig.baseUrl, {
-          method: "POST",
-          headers: buildHeaders(useConfig.baseUrl, finalApiKey),
-          body: JSON.stringify({
-            model: useConfig.model,
-            messages: [
-              { role: "system", content: stylePrompt },
-              { role: "user", content: answerPrompt },
-            ],
-            stream: true,
-            temperature: 0.8,
-          }),
-        });
-
-        if (!response.ok) {
-          const error: any = new Error("AI request failed");
-          error.status = response.status;
-          throw error;
-        }
-
         // 流式实时更新子节点内容
         let accumulatedReasoning = "";
-        const rawContent = await readSSEStream(
-          response,
-          (_delta, full, reasoning) => {
+        const { content: rawContent, reasoning } = await requestChat({
+          action: "followUp",
+          nodeId: childId,
+          stream: true,
+          temperature: resolveStyleTemperature(style, 0.8),
+          signal: controller.signal,
+          onRetry: (info) => setNodeRetryStatus(childId, info),
+          messages: [
+            { role: "system", content: stylePrompt },
+            { role: "user", content: answerPrompt },
+          ],
+          onDelta: (_delta, full, reasoning) => {
             const childNode = flowNodes.value.find((n) => n.id === childId);
             if (reasoning) accumulatedReasoning += reasoning;
 
@@ -2623,7 +3751,7 @@ export function useThinkFlow({
               });
             }
           },
-        );
+        });
 
         // 流结束：解析最终 JSON
         let answerContent = rawContent;
@@ -2642,6 +3770,7 @@ export function useThinkFlow({
             data: {
               ...childNode.data,
               detailedContent: answerContent,
+              reasoningContent: reasoning,
               description: summaryContent,
               isExpanding: false,
               error: null,
@@ -2650,9 +3779,16 @@ export function useThinkFlow({
         }
 
         // 清空父节点的 followUp 输入
-        if (parentNodeObj) {
+        const currentParent = flowNodes.value.find(
+          (n) => n.id === parentNode.id,
+        );
+        if (currentParent) {
           updateNode(parentNode.id, {
-            data: { ...parentNodeObj.data, followUp: "", isExpanding: false },
+            data: {
+              ...currentParent.data,
+              followUp: "",
+              isExpanding: hasOtherFollowUps(),
+            },
           });
         }
 
@@ -2662,21 +3798,662 @@ export function useThinkFlow({
         // 关键：立即保存到云端（追问节点生成）
         await immediateCloudSave();
       } catch (error: any) {
-        console.error("Follow-up Error:", error);
+        const aborted = isAbortError(error);
+        if (aborted) {
+          // 用户停止：移除未完成的回答节点
+          removeNodes([childId]);
+        } else {
+          console.error("Follow-up Error:", error);
+        }
         const nodeObj = flowNodes.value.find((n) => n.id === parentNode.id);
         if (nodeObj) {
           updateNode(parentNode.id, {
             data: {
               ...nodeObj.data,
-              error: getErrorMessage(error),
-              isExpanding: false,
+              error: aborted ? null : getErrorMessage(error),
+              isExpanding: hasOtherFollowUps(),
             },
           });
         }
+      } finally {
+        endRequest(requestKey, controller);
+        setNodeRetryStatus(childId, null);
+      }
+    }
+  };
+
+  /**
+   * 从文档生成导图（切块与合并规则见 services/documentSeed.ts）
+   * - 模型提炼的大纲标题作为根节点，章节与要点作为前两层子节点，均带描述
+   * - 单块文档一次请求；超长文档逐块提炼后分组合并，进度写入 documentSeedProgress
+   * - 与首次探索共用 expand:root 请求键，底部栏的停止按钮同样生效
+   */
+  const documentSeedProgress = ref<{ completed: number; total: number } | null>(
+    null,
+  );
+
+  const seedFromDocument = async (doc: SeedDocument) => {
+    const text = doc.text.trim();
+    if (!text || isLoading.value) return;
+
+    const style = currentStyle.value;
+    const styleRef = toNodeStyleRef(style);
+    const title = doc.title.trim() || t("document.untitled");
+
+    isLoading.value = true;
+    setNodes([]);
+    setEdges([]);
+
+    const rootId = "root-" + Date.now();
+    addNodes({
+      id: rootId,
+      type: "window",
+      position: project({
+        x: window.innerWidth / 2 - 140,
+        y: window.innerHeight / 2 - 90,
+      }),
+      data: {
+        label: title,
+        description: "",
+        type: "root",
+        style: styleRef,
+        isExpanding: true,
+        isTitleExpanded: false,
+        followUp: "",
+        error: null,
+      },
+      sourcePosition: Position.Right,
+      targetPosition: Position.Left,
+    });
+
+    setTimeout(() => {
+      fitView({ nodes: [rootId], padding: 0.4, duration: 600, maxZoom: 1.2 });
+    }, 50);
+
+    ideaInput.value = "";
+    showIdeaInput.value = false;
+
+    const controller = beginRequest("expand:root", [rootId]);
+    const chunks = chunkDocument(text);
+    documentSeedProgress.value = {
+      completed: 0,
+      total: countOutlineRequests(chunks.length),
+    };
+
+    // 不使用扩展用的系统 prompt（其要求的 nodes 格式与大纲冲突），只注入风格指令
+    const requestOutline = async (content: string) => {
+      const messages: ChatMessage[] = [
+        ...(style.instruction
+          ? [{ role: "system" as const, content: style.instruction }]
+          : []),
+        { role: "user", content },
+      ];
+      const { content: raw } = await requestChat({
+        action: "outline",
+        nodeId: rootId,
+        temperature: 0.3,
+        signal: controller.signal,
+        onRetry: (info) => setNodeRetryStatus(rootId, info),
+        messages,
+      });
+      const outline = await parseWithRepair<DocumentOutline>({
+        raw,
+        schema: DOCUMENT_OUTLINE_SCHEMA,
+        messages,
+        action: "outline",
+        nodeId: rootId,
+        signal: controller.signal,
+      });
+      documentSeedProgress.value = {
+        ...documentSeedProgress.value!,
+        completed: documentSeedProgress.value!.completed + 1,
+      };
+      return outline;
+    };
+
+    try {
+      let outlines: DocumentOutline[] = [];
+      for (const [index, chunk] of chunks.entries()) {
+        const prompt = t("prompts.documentOutline", { document: chunk });
+        outlines.push(
+          await requestOutline(
+            chunks.length === 1
+              ? prompt
+              : `${t("prompts.documentChunk", {
+                  index: index + 1,
+                  total: chunks.length,
+                })}\n\n${prompt}`,
+          ),
+        );
+      }
+
+      // 分组合并，直到只剩一份大纲
+      while (outlines.length > 1) {
+        const merged: DocumentOutline[] = [];
+        for (const group of groupOutlines(outlines)) {
+          merged.push(
+            group.length === 1
+              ? group[0]
+              : await requestOutline(
+                  t("prompts.documentMergeOutlines", {
+                    outlines: group.map(outlineToText).join("\n\n"),
+                  }),
+                ),
+          );
+        }
+        outlines = merged;
+      }
+
+      const outline = normalizeOutline(outlines[0], title);
+      const rootNode = flowNodes.value.find((n) => n.id === rootId);
+      if (rootNode) {
+        updateNode(rootId, {
+          data: {
+            ...rootNode.data,
+            label: outline.title,
+            description: outline.summary,
+            isExpanding: false,
+            error: null,
+          },
+        });
+      }
+
+      const baseX = rootNode ? rootNode.position.x : 50;
+      const baseY = rootNode ? rootNode.position.y : 300;
+      const sectionIds = processSubNodes(
+        outline.sections,
+        rootId,
+        baseX,
+        baseY,
+        styleRef,
+      );
+      outline.sections.forEach((section, index) => {
+        if (!section.children?.length) return;
+        processSubNodes(
+          section.children,
+          sectionIds[index],
+          baseX + 450,
+          baseY + (index - (outline.sections.length - 1) / 2) * 280,
+          styleRef,
+        );
+      });
+
+      await nextTick();
+      await immediateCloudSave();
+
+      await nextTick();
+      requestAnimationFrame(() => {
+        setTimeout(() => {
+          resetLayout();
+          fitView({ padding: 0.15, duration: 1000, maxZoom: 1.2 });
+        }, 200);
+      });
+    } catch (error: any) {
+      const aborted = isAbortError(error);
+      if (!aborted) console.error("Document Seed Error:", error);
+      const node = flowNodes.value.find((n) => n.id === rootId);
+      if (node) {
+        updateNode(rootId, {
+          data: {
+            ...node.data,
+            error: aborted ? null : getErrorMessage(error),
+            isExpanding: false,
+          },
+        });
+      }
+    } finally {
+      endRequest("expand:root", controller);
+      setNodeRetryStatus(rootId, null);
+      isLoading.value = false;
+      documentSeedProgress.value = null;
+    }
+  };
+
+  /**
+   * 自动探索：从节点出发逐层展开（队列、并发与预算见 services/autoExplore.ts）
+   * - 选项作为下次的默认值保存在 localStorage
+   * - 每个节点展开后立即重新布局，新子树在生成过程中保持可读
+   */
+  const autoExploreOptions = ref<AutoExploreOptions>(loadAutoExploreOptions());
+  const autoExploreProgress = ref<AutoExploreProgress | null>(null);
+
+  watch(autoExploreOptions, (options) => saveAutoExploreOptions(options), {
+    deep: true,
+  });
+
+  /**
+   * 为节点生成子想法的消息（自动探索与重新生成子节点共用）
+   */
+  const buildSubIdeaMessages = (
+    node: any,
+    style: AiStyle,
+    request: string,
+  ): ChatMessage[] => [
+    {
+      role: "system",
+      content: renderPrompt("system") + "\n" + style.instruction,
+    },
+    {
+      role: "user",
+      content: [
+        `${t("prompts.contextPath")}: ${findPathToNode(node.id).join(" -> ")}`,
+        `${t("prompts.selectedNode")}: ${node.data.label}${
+          node.data.description ? ` - ${node.data.description}` : ""
+        }`,
+        request,
+      ].join("\n"),
+    },
+  ];
+
+  /**
+   * 展开单个节点：生成至多 maxChildren 个子节点，返回新节点与本次消耗
+   * - 消耗取该节点在请求期间新增的用量记录；服务端未返回用量时按文本长度估算 token
+   */
+  const expandForAutoExplore = async (
+    { nodeId }: AutoExploreTask,
+    signal: AbortSignal,
+    maxChildren: number,
+  ) => {
+    const node = flowNodes.value.find((n) => n.id === nodeId);
+    if (!node) return { childIds: [], tokens: 0, cost: 0 };
+
+    const style = currentStyle.value;
+    const messages = buildSubIdeaMessages(
+      node,
+      style,
+      t("prompts.autoExploreLimit", { count: maxChildren }),
+    );
+
+    const recordCount = usageRecords.value.length;
+    let raw = "";
+    const getSpent = () => {
+      const records = usageRecords.value
+        .slice(recordCount)
+        .filter((record) => record.nodeId === nodeId);
+      if (records.length === 0) {
+        return {
+          tokens: estimateTokens(
+            messages.map((m) => m.content).join("\n") + raw,
+          ),
+          cost: 0,
+        };
+      }
+      return {
+        tokens: records.reduce(
+          (sum, r) => sum + r.promptTokens + r.completionTokens,
+          0,
+        ),
+        cost: records.reduce((sum, r) => sum + r.cost, 0),
+      };
+    };
+
+    updateNode(nodeId, {
+      data: { ...node.data, isExpanding: true, error: null },
+    });
+    let errorMessage: string | null = null;
+    try {
+      const { content } = await requestChat({
+        action: "expand",
+        nodeId,
+        temperature: resolveStyleTemperature(style, 0.8),
+        signal,
+        onRetry: (info) => setNodeRetryStatus(nodeId, info),
+        messages,
+      });
+      raw = content;
+      const result = await parseWithRepair<{
+        nodes: { text: string; description: string }[];
+      }>({
+        raw: content,
+        schema: SUB_NODES_SCHEMA,
+        messages,
+        action: "expand",
+        nodeId,
+        signal,
+      });
+
+      // 取消后或节点已被删除时不再写入子节点
+      const parent = flowNodes.value.find((n) => n.id === nodeId);
+      if (signal.aborted || !parent) return { childIds: [], ...getSpent() };
+      const childIds = processSubNodes(
+        result.nodes.slice(0, maxChildren),
+        nodeId,
+        parent.position.x,
+        parent.position.y,
+        toNodeStyleRef(style),
+      );
+      await nextTick();
+      resetLayout();
+      return { childIds, ...getSpent() };
+    } catch (error: any) {
+      if (!isAbortError(error)) errorMessage = getErrorMessage(error);
+      throw error;
+    } finally {
+      setNodeRetryStatus(nodeId, null);
+      const latest = flowNodes.value.find((n) => n.id === nodeId);
+      if (latest) {
+        updateNode(nodeId, {
+          data: { ...latest.data, isExpanding: false, error: errorMessage },
+        });
       }
     }
   };
 
+  /**
+   * 开始自动探索；已有进行中的自动探索时先取消
+   */
+  const startAutoExplore = (
+    nodeId: string,
+    options: Partial<AutoExploreOptions> = autoExploreOptions.value,
+  ) => {
+    const normalized = normalizeAutoExploreOptions(options);
+    autoExploreOptions.value = normalized;
+    autoExploreQueue?.cancel();
+
+    const queue = runAutoExplore({
+      nodeId,
+      options: normalized,
+      expand: (task, signal) =>
+        expandForAutoExplore(task, signal, normalized.maxChildren),
+      onProgress: (progress) => {
+        autoExploreProgress.value = progress;
+      },
+    });
+    autoExploreQueue = queue;
+    queue.finished.then(async () => {
+      if (autoExploreQueue === queue) autoExploreQueue = null;
+      await immediateCloudSave();
+    });
+    return queue.finished;
+  };
+
+  const pauseAutoExplore = () => autoExploreQueue?.pause();
+  const resumeAutoExplore = () => autoExploreQueue?.resume();
+  const cancelAutoExplore = () => autoExploreQueue?.cancel();
+
+  /**
+   * 关闭已结束的自动探索进度
+   */
+  const dismissAutoExplore = () => {
+    if (!autoExploreQueue) autoExploreProgress.value = null;
+  };
+
+  /**
+   * 重新生成子节点（配对与合并规则见 services/childrenDiff.ts）
+   * - 新建议与现有子节点并列展示，用户逐条选择后才修改画布
+   * - 应用时不重新布局：替换为原地修改，并入的新子节点排在现有子节点下方
+   */
+  const childrenRegeneration = ref<ChildrenRegeneration | null>(null);
+
+  const getChildNodes = (nodeId: string) =>
+    flowEdges.value
+      .filter((e) => e.source === nodeId)
+      .map((e) => flowNodes.value.find((n) => n.id === e.target))
+      .filter((n): n is NonNullable<typeof n> => !!n && n.type !== "sticky");
+
+  const regenerateChildren = async (nodeId: string) => {
+    const node = flowNodes.value.find((n) => n.id === nodeId);
+    if (!node) return;
+    const children = getChildNodes(nodeId).map((child) => ({
+      id: child.id,
+      label: child.data.label,
+      description: child.data.description || "",
+    }));
+    childrenRegeneration.value = {
+      parentId: nodeId,
+      parentLabel: node.data.label,
+      status: "loading",
+      error: null,
+      children,
+      suggestions: [],
+    };
+
+    const style = currentStyle.value;
+    const messages = buildSubIdeaMessages(
+      node,
+      style,
+      t("prompts.regenerateChildren", {
+        count: Math.max(children.length, 3),
+        children: children.map((child) => child.label).join("; ") || "-",
+      }),
+    );
+    const requestKey = `regenerate:${nodeId}`;
+    const controller = beginRequest(requestKey, [nodeId]);
+    // 弹窗已关闭或换成了其他节点时丢弃结果
+    const isCurrent = () =>
+      childrenRegeneration.value?.parentId === nodeId &&
+      !controller.signal.aborted;
+
+    try {
+      const { content } = await requestChat({
+        action: "expand",
+        nodeId,
+        temperature: resolveStyleTemperature(style, 0.8),
+        signal: controller.signal,
+        onRetry: (info) => setNodeRetryStatus(nodeId, info),
+        messages,
+      });
+      const result = await parseWithRepair<{
+        nodes: { text: string; description: string }[];
+      }>({
+        raw: content,
+        schema: SUB_NODES_SCHEMA,
+        messages,
+        action: "expand",
+        nodeId,
+        signal: controller.signal,
+      });
+      if (!isCurrent()) return;
+      childrenRegeneration.value = {
+        ...childrenRegeneration.value!,
+        status: "ready",
+        suggestions: matchSuggestions(children, result.nodes),
+      };
+    } catch (error: any) {
+      if (!isCurrent()) return;
+      console.error("Regenerate Children Error:", error);
+      childrenRegeneration.value = {
+        ...childrenRegeneration.value!,
+        status: "error",
+        error: getErrorMessage(error),
+      };
+    } finally {
+      endRequest(requestKey, controller);
+      setNodeRetryStatus(nodeId, null);
+    }
+  };
+
+  /**
+   * 修改某条建议的选择或替换目标
+   */
+  const updateChildSuggestion = (
+    suggestionId: string,
+    patch: Partial<Pick<ChildSuggestion, "decision" | "targetId">>,
+  ) => {
+    const regeneration = childrenRegeneration.value;
+    if (!regeneration) return;
+    childrenRegeneration.value = {
+      ...regeneration,
+      suggestions: regeneration.suggestions.map((suggestion) =>
+        suggestion.id === suggestionId
+          ? { ...suggestion, ...patch }
+          : suggestion,
+      ),
+    };
+  };
+
+  const discardChildrenRegeneration = () => {
+    const regeneration = childrenRegeneration.value;
+    if (!regeneration) return;
+    childrenRegeneration.value = null;
+    cancelGeneration(`regenerate:${regeneration.parentId}`);
+  };
+
+  /**
+   * 按用户的选择修改画布
+   */
+  const applyChildrenRegeneration = async () => {
+    const regeneration = childrenRegeneration.value;
+    if (!regeneration || regeneration.status !== "ready") return;
+    childrenRegeneration.value = null;
+    const parent = flowNodes.value.find((n) => n.id === regeneration.parentId);
+    if (!parent) return;
+
+    const plan = planChildrenUpdate(regeneration.suggestions);
+    for (const replacement of plan.replacements) {
+      const child = flowNodes.value.find((n) => n.id === replacement.nodeId);
+      if (!child) continue;
+      updateNode(child.id, {
+        data: {
+          ...child.data,
+          label: replacement.label,
+          description: replacement.description,
+        },
+      });
+    }
+
+    if (plan.additions.length > 0) {
+      // processSubNodes 以 baseY 为中心纵向排列，换算成从现有子节点下方开始
+      const siblings = getChildNodes(parent.id);
+      const x = siblings.length
+        ? siblings[0].position.x
+        : parent.position.x + 450;
+      const top = siblings.length
+        ? Math.max(
+            ...siblings.map(
+              (n) =>
+                n.position.y +
+                (n.dimensions?.height ?? (n as any).measured?.height ?? 180),
+            ),
+          ) + 40
+        : parent.position.y;
+      processSubNodes(
+        plan.additions,
+        parent.id,
+        x - 450,
+        top + ((plan.additions.length - 1) / 2) * 280,
+      );
+    }
+
+    await nextTick();
+    await immediateCloudSave();
+  };
+
+  /**
+   * 导图翻译（分批与合并规则见 services/mapTranslation.ts）
+   * - 译文写入各节点的 data.translations[language]，原文不变；mapLanguage 决定画布与详情面板展示哪个语言层
+   * - 批次依次请求，停止或失败时保留已完成批次的译文
+   */
+  const mapLanguage = ref<string | null>(null);
+  const mapLanguages = computed(() => getMapLanguages(flowNodes.value));
+  const mapTranslation = ref<MapTranslationProgress | null>(null);
+  const showTranslateModal = ref(false);
+
+  // 语言层属于项目内容，切换项目时回到原文
+  watch(currentProjectId, () => {
+    mapLanguage.value = null;
+    mapTranslation.value = null;
+  });
+
+  const translateMap = async (language: string) => {
+    const items = flowNodes.value
+      .filter((n) => n.type !== "sticky")
+      .map(toTranslationItem);
+    if (items.length === 0) return;
+
+    const batches = buildTranslationBatches(items);
+    const languageName = getLanguageName(language);
+    const controller = beginRequest("translate");
+    mapTranslation.value = {
+      language,
+      status: "running",
+      completed: 0,
+      total: items.length,
+      error: null,
+    };
+
+    try {
+      for (const batch of batches) {
+        const messages: ChatMessage[] = [
+          {
+            role: "user",
+            content: t("prompts.translateMap", {
+              language: languageName,
+              items: JSON.stringify(batch, null, 2),
+            }),
+          },
+        ];
+        const { content } = await requestChat({
+          action: "translate",
+          temperature: 0.2,
+          signal: controller.signal,
+          messages,
+        });
+        const result = await parseWithRepair<{ items: TranslationItem[] }>({
+          raw: content,
+          schema: TRANSLATION_SCHEMA,
+          messages,
+          action: "translate",
+          signal: controller.signal,
+        });
+
+        mergeTranslations(batch, result.items).forEach((translation, id) => {
+          const node = flowNodes.value.find((n) => n.id === id);
+          if (!node) return;
+          updateNode(id, {
+            data: {
+              ...node.data,
+              translations: {
+                ...node.data.translations,
+                [language]: translation,
+              },
+            },
+          });
+        });
+        mapTranslation.value = {
+          ...mapTranslation.value!,
+          completed: mapTranslation.value!.completed + batch.length,
+        };
+      }
+      mapTranslation.value = { ...mapTranslation.value!, status: "completed" };
+      mapLanguage.value = language;
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        mapTranslation.value = {
+          ...mapTranslation.value!,
+          status: "cancelled",
+        };
+      } else {
+        console.error("Translate Map Error:", error);
+        mapTranslation.value = {
+          ...mapTranslation.value!,
+          status: "error",
+          error: getErrorMessage(error),
+        };
+      }
+    } finally {
+      endRequest("translate", controller);
+      await immediateCloudSave();
+    }
+  };
+
+  const stopTranslation = () => cancelGeneration("translate");
+
+  /**
+   * 删除一个语言层（所有节点上的该语言译文）
+   */
+  const removeMapLanguage = async (language: string) => {
+    flowNodes.value.forEach((node) => {
+      if (!node.data?.translations?.[language]) return;
+      const { [language]: _removed, ...translations } = node.data.translations;
+      updateNode(node.id, { data: { ...node.data, translations } });
+    });
+    if (mapLanguage.value === language) mapLanguage.value = null;
+    if (mapTranslation.value?.language === language)
+      mapTranslation.value = null;
+    await immediateCloudSave();
+  };
+
   /**
    * 生成衍生问题：为指定节点生成3条探索性问题
    * - 在 detailedContent 生成后自动调用
@@ -2685,6 +4462,7 @@ export function useThinkFlow({
   const generateDerivedQuestions = async (
     nodeId: string,
     detailedContent?: string,
+    options: { bypassCache?: boolean } = {},
   ) => {
     const node = flowNodes.value.find((n) => n.id === nodeId);
     if (!node || node.data.isGeneratingQuestions) return;
@@ -2698,12 +4476,8 @@ export function useThinkFlow({
       },
     });
 
-    const useConfig =
-      apiConfig.mode === "default" ? DEFAULT_CONFIG.chat : apiConfig.chat;
-    const finalApiKey =
-      apiConfig.mode === "default"
-        ? useConfig.apiKey || API_KEY
-        : useConfig.apiKey;
+    const requestKey = `questions:${nodeId}`;
+    const controller = beginRequest(requestKey, [nodeId]);
 
     try {
       const rootNode = flowNodes.value.find(
@@ -2716,37 +4490,51 @@ export function useThinkFlow({
       // 使用传入的 detailedContent 或节点已有的 detailedContent
       const detail = detailedContent || node.data.detailedContent || "";
 
-      const response = await fetch(useConfig.baseUrl, {
-        method: "POST",
-        headers: buildHeaders(useConfig.baseUrl, finalApiKey),
-        body: JSON.stringify({
-          model: useConfig.model,
-          messages: [
-            {
-              role: "user",
-              content: t("prompts.derivedQuestionsPrompt", {
-                rootTopic,
-                context,
-                topic,
-                detail,
-              }),
-            },
-          ],
-          stream: true,
-          temperature: 0.9,
-        }),
+      // 流式解析：每个问题完整后立即显示
+      const parser = createStreamingJsonParser((path, value) => {
+        if (
+          path.length !== 2 ||
+          path[0] !== "questions" ||
+          typeof value !== "string" ||
+          !value.trim()
+        )
+          return;
+        const current = flowNodes.value.find((n) => n.id === nodeId);
+        const questions = current?.data.derivedQuestions || [];
+        if (!current || questions.length >= 3) return;
+        updateNode(nodeId, {
+          data: { ...current.data, derivedQuestions: [...questions, value] },
+        });
+      });
+      const messages: ChatMessage[] = [
+        {
+          role: "user",
+          content: renderPrompt("derivedQuestionsPrompt", {
+            rootTopic,
+            context,
+            topic,
+            detail,
+          }),
+        },
+      ];
+      const { content: rawContent } = await requestChat({
+        action: "derivedQuestions",
+        nodeId,
+        stream: true,
+        signal: controller.signal,
+        cache: { context, bypass: options.bypassCache },
+        temperature: 0.9,
+        messages,
+        onDelta: (delta) => parser.write(delta),
+      });
+      const { questions } = await parseWithRepair<{ questions: string[] }>({
+        raw: rawContent,
+        schema: DERIVED_QUESTIONS_SCHEMA,
+        messages,
+        action: "derivedQuestions",
+        nodeId,
+        signal: controller.signal,
       });
-
-      if (!response.ok) {
-        const error: any = new Error("Derived questions request failed");
-        error.status = response.status;
-        throw error;
-      }
-
-      // 流式累积后一次性解析
-      const rawContent = await readSSEStream(response, () => {});
-      const result = JSON.parse(stripJsonFences(rawContent));
-      const questions = result.questions || [];
 
       const currentNode = flowNodes.value.find((n) => n.id === nodeId);
       if (currentNode) {
@@ -2762,14 +4550,21 @@ export function useThinkFlow({
       // 关键：立即保存到云端（衍生问题）
       await immediateCloudSave();
     } catch (error: any) {
-      console.error("Generate Derived Questions Error:", error);
-      updateNode(nodeId, {
-        data: {
-          ...node.data,
-          isGeneratingQuestions: false,
-          derivedQuestions: [],
-        },
-      });
+      if (!isAbortError(error)) {
+        console.error("Generate Derived Questions Error:", error);
+      }
+      const currentNode = flowNodes.value.find((n) => n.id === nodeId);
+      if (currentNode) {
+        updateNode(nodeId, {
+          data: {
+            ...currentNode.data,
+            isGeneratingQuestions: false,
+            derivedQuestions: [],
+          },
+        });
+      }
+    } finally {
+      endRequest(requestKey, controller);
     }
   };
 
@@ -2777,6 +4572,7 @@ export function useThinkFlow({
    * 立即清空当前画布与输入，并关闭确认弹窗
    */
   const executeReset = () => {
+    cancelAllGenerations();
     ideaInput.value = "";
     setNodes([]);
     setEdges([]);
@@ -2810,10 +4606,14 @@ export function useThinkFlow({
     ideaInput,
     isLoading,
     previewImageUrl,
+    previewImageNodeId,
+    previewImageHistory,
     showResetConfirm,
     showSummaryModal,
     isSummarizing,
     summaryContent,
+    summaryFormat,
+    summaryHistory,
     panOnDrag,
     isSpacePressed,
     config,
@@ -2833,13 +4633,59 @@ export function useThinkFlow({
     startNewSession,
     executeReset,
     generateSummary,
+    openSummaries,
+    stopSummary,
+    deleteSummary,
+    downloadSummary,
     exportMarkdown,
     exportHTML,
+    exportJSON,
     generateNodeImage,
+    setNodeImageCover,
     deepDive,
     expandIdea,
+    documentSeedProgress,
+    seedFromDocument,
     generateDerivedQuestions,
+    // 停止生成
+    cancelGeneration,
+    stopRootExpansion,
+    stopNodeGeneration,
+    stopGraphChat,
+    showPromptEditor,
+    clearResponseCache,
+    userPromptOverrides,
+    projectPromptOverrides,
+    setPromptOverride,
+    getDefaultPrompt,
+    previewPrompt,
+    modelPrices,
+    usageRecords,
+    usageTotals,
+    autoExploreOptions,
+    autoExploreProgress,
+    startAutoExplore,
+    pauseAutoExplore,
+    resumeAutoExplore,
+    cancelAutoExplore,
+    dismissAutoExplore,
+    childrenRegeneration,
+    regenerateChildren,
+    updateChildSuggestion,
+    discardChildrenRegeneration,
+    applyChildrenRegeneration,
+    mapLanguage,
+    mapLanguages,
+    mapTranslation,
+    showTranslateModal,
+    translateMap,
+    stopTranslation,
+    removeMapLanguage,
+    resetUsage,
     aiStyle,
+    availableStyles,
+    customStyles,
+    removeCustomStyle,
     isPresenting,
     togglePresentation,
     nextPresentationNode,
@@ -2858,6 +4704,18 @@ export function useThinkFlow({
     activeRightPanel,
     isChatting,
     graphChatMessages,
+    resolveGraphEdit,
+    getNodeLabel,
+    openCitedNode,
+    chatThreads,
+    activeChatThreadId,
+    initChatThreadSync,
+    newChatThread,
+    selectChatThread,
+    renameChatThread,
+    clearChatThread,
+    deleteChatThread,
+    exportChatThread,
     addStickyNote,
     sendGraphChatMessage,
     removeNodes,
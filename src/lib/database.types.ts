@@ -79,7 +79,14 @@ export interface Database {
           title: string | null;
           description: string | null;
           detailed_content: string | null;
+          reasoning_content: string | null;
           image_url: string | null;
+          image_path: string | null;
+          image_history: Json;
+          translations: Json;
+          style: Json | null;
+          detail_style: Json | null;
+          usage: Json | null;
           children_count: number;
           is_expanding: boolean;
           follow_up: string | null;
@@ -95,7 +102,14 @@ export interface Database {
           title?: string | null;
           description?: string | null;
           detailed_content?: string | null;
+          reasoning_content?: string | null;
           image_url?: string | null;
+          image_path?: string | null;
+          image_history?: Json;
+          translations?: Json;
+          style?: Json | null;
+          detail_style?: Json | null;
+          usage?: Json | null;
           children_count?: number;
           is_expanding?: boolean;
           follow_up?: string | null;
@@ -111,7 +125,14 @@ export interface Database {
           title?: string | null;
           description?: string | null;
           detailed_content?: string | null;
+          reasoning_content?: string | null;
           image_url?: string | null;
+          image_path?: string | null;
+          image_history?: Json;
+          translations?: Json;
+          style?: Json | null;
+          detail_style?: Json | null;
+          usage?: Json | null;
           children_count?: number;
           is_expanding?: boolean;
           follow_up?: string | null;
@@ -151,6 +172,35 @@ export interface Database {
           created_at?: string;
         };
       };
+      chat_threads: {
+        Row: {
+          id: string;
+          project_id: string;
+          thread_id: string;
+          title: string | null;
+          messages: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          thread_id: string;
+          title?: string | null;
+          messages?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          thread_id?: string;
+          title?: string | null;
+          messages?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
     };
     Views: {
       [_ in never]: never;
@@ -169,3 +219,4 @@ export type Profile = Database["public"]["Tables"]["profiles"]["Row"];
 export type Project = Database["public"]["Tables"]["projects"]["Row"];
 export type Node = Database["public"]["Tables"]["nodes"]["Row"];
 export type Edge = Database["public"]["Tables"]["edges"]["Row"];
+export type ChatThread = Database["public"]["Tables"]["chat_threads"]["Row"];
@@ -0,0 +1,116 @@
+/**
+ * aiStyles BDD 测试
+ * 测试风格解析、温度覆盖与自定义风格持久化
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createCustomStyle,
+  getBuiltinStyles,
+  loadCustomStyles,
+  resolveStyle,
+  resolveStyleTemperature,
+  saveCustomStyles,
+  toNodeStyleRef,
+} from "../aiStyles";
+
+const t = (key: string) => key;
+
+describe("aiStyles", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  // ============================================================
+  // Feature: 风格解析
+  // ============================================================
+  describe("resolveStyle", () => {
+    it("should find builtin and custom styles by id", () => {
+      // Given: 内置风格 + 一个自定义风格
+      const custom = createCustomStyle({
+        name: "苏格拉底式",
+        instruction: "用提问推进",
+      });
+      const styles = [...getBuiltinStyles(t), custom];
+
+      // When & Then
+      expect(resolveStyle("precise", styles).instruction).toBe(
+        "prompts.stylePrecise",
+      );
+      expect(resolveStyle(custom.id, styles)).toBe(custom);
+    });
+
+    it("should fall back to the creative style when the id no longer exists", () => {
+      // Given: 当前风格已被删除
+      const styles = getBuiltinStyles(t);
+
+      // When
+      const style = resolveStyle("style-deleted", styles);
+
+      // Then
+      expect(style.id).toBe("creative");
+    });
+  });
+
+  // ============================================================
+  // Feature: 温度覆盖
+  // ============================================================
+  describe("resolveStyleTemperature", () => {
+    it("should prefer the style temperature and otherwise use the action default", () => {
+      // Given
+      const withTemperature = createCustomStyle({ temperature: 0.2 });
+      const withoutTemperature = createCustomStyle();
+
+      // When & Then
+      expect(resolveStyleTemperature(withTemperature, 0.8)).toBe(0.2);
+      expect(resolveStyleTemperature(withoutTemperature, 0.8)).toBe(0.8);
+      expect(resolveStyleTemperature(withoutTemperature)).toBeUndefined();
+    });
+
+    it("should ignore a cleared temperature input", () => {
+      // Given: 数字输入框清空后 v-model.number 写入空字符串
+      const style = createCustomStyle({ temperature: "" as any });
+
+      // When & Then
+      expect(resolveStyleTemperature(style, 0.8)).toBe(0.8);
+    });
+  });
+
+  // ============================================================
+  // Feature: 自定义风格持久化
+  // ============================================================
+  describe("loadCustomStyles / saveCustomStyles", () => {
+    it("should round-trip custom styles through localStorage", () => {
+      // Given
+      const style = createCustomStyle({
+        name: "简洁",
+        instruction: "少即是多",
+      });
+
+      // When
+      saveCustomStyles([style]);
+
+      // Then
+      expect(loadCustomStyles()).toEqual([style]);
+    });
+
+    it("should return an empty list for corrupted data", () => {
+      // Given
+      localStorage.setItem("thinkflow_custom_styles", "{oops");
+
+      // When & Then
+      expect(loadCustomStyles()).toEqual([]);
+    });
+  });
+
+  it("should record only id and name on nodes", () => {
+    // Given
+    const style = createCustomStyle({
+      name: "简洁",
+      instruction: "少即是多",
+      temperature: 0.3,
+    });
+
+    // When & Then
+    expect(toNodeStyleRef(style)).toEqual({ id: style.id, name: "简洁" });
+  });
+});
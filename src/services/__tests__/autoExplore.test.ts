@@ -0,0 +1,285 @@
+/**
+ * autoExplore BDD 测试
+ * 测试自动探索队列的层数 / 子节点限制、并发上限、预算与暂停 / 继续 / 取消
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  DEFAULT_AUTO_EXPLORE_OPTIONS,
+  isBudgetExceeded,
+  loadAutoExploreOptions,
+  normalizeAutoExploreOptions,
+  runAutoExplore,
+  saveAutoExploreOptions,
+  type AutoExploreOptions,
+  type AutoExploreProgress,
+  type AutoExploreTask,
+} from "../autoExplore";
+
+const options = (
+  overrides: Partial<AutoExploreOptions> = {},
+): AutoExploreOptions => ({
+  ...DEFAULT_AUTO_EXPLORE_OPTIONS,
+  tokenBudget: 0,
+  ...overrides,
+});
+
+/**
+ * 可手动完成的展开函数：每个任务挂起，直到测试调用 resolveNext（取消时以 AbortError 结束）
+ */
+const createControlledExpand = (children = 2, tokens = 100) => {
+  const pending: {
+    task: AutoExploreTask;
+    signal: AbortSignal;
+    resolve: () => void;
+    reject: (error: any) => void;
+  }[] = [];
+  const expand = (task: AutoExploreTask, signal: AbortSignal) =>
+    new Promise<{ childIds: string[]; tokens: number; cost: number }>(
+      (resolve, reject) => {
+        signal.addEventListener("abort", () => {
+          const error = new Error("aborted");
+          error.name = "AbortError";
+          reject(error);
+        });
+        pending.push({
+          task,
+          signal,
+          resolve: () =>
+            resolve({
+              childIds: Array.from(
+                { length: children },
+                (_, i) => `${task.nodeId}.${i}`,
+              ),
+              tokens,
+              cost: 0.01,
+            }),
+          reject,
+        });
+      },
+    );
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+  const resolveNext = async () => {
+    pending.shift()!.resolve();
+    await flush();
+  };
+  return { expand, pending, resolveNext, flush };
+};
+
+describe("autoExplore", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  // ============================================================
+  // Feature: 选项
+  // ============================================================
+  describe("normalizeAutoExploreOptions", () => {
+    it("should clamp values into range and fall back to defaults for invalid input", () => {
+      // Given & When
+      const result = normalizeAutoExploreOptions({
+        maxDepth: 99,
+        maxChildren: 0,
+        concurrency: 2.6,
+        tokenBudget: Number.NaN,
+        costBudget: 0.25,
+      });
+
+      // Then
+      expect(result).toEqual({
+        maxDepth: 5,
+        maxChildren: 1,
+        concurrency: 3,
+        tokenBudget: DEFAULT_AUTO_EXPLORE_OPTIONS.tokenBudget,
+        costBudget: 0.25,
+      });
+    });
+
+    it("should persist options to localStorage", () => {
+      // Given
+      saveAutoExploreOptions(options({ maxDepth: 3 }));
+
+      // When & Then
+      expect(loadAutoExploreOptions().maxDepth).toBe(3);
+    });
+
+    it("should treat a zero budget as unlimited", () => {
+      // Given & When & Then
+      expect(isBudgetExceeded({ tokens: 1e9, cost: 1e3 }, options())).toBe(
+        false,
+      );
+      expect(
+        isBudgetExceeded(
+          { tokens: 500, cost: 0 },
+          options({ tokenBudget: 500 }),
+        ),
+      ).toBe(true);
+      expect(
+        isBudgetExceeded(
+          { tokens: 0, cost: 0.5 },
+          options({ costBudget: 0.5 }),
+        ),
+      ).toBe(true);
+    });
+  });
+
+  // ============================================================
+  // Feature: 队列执行
+  // ============================================================
+  describe("runAutoExplore", () => {
+    it("should expand level by level until the configured depth", async () => {
+      // Given: 每个节点 2 个子节点，展开 2 层
+      const expanded: AutoExploreTask[] = [];
+      const queue = runAutoExplore({
+        nodeId: "root",
+        options: options({ maxDepth: 2, concurrency: 1 }),
+        expand: async (task) => {
+          expanded.push(task);
+          return {
+            childIds: [`${task.nodeId}.0`, `${task.nodeId}.1`],
+            tokens: 10,
+            cost: 0,
+          };
+        },
+        onProgress: () => {},
+      });
+
+      // When
+      const progress = await queue.finished;
+
+      // Then: 起点 + 第 1 层的 2 个节点被展开，第 2 层只生成不再展开
+      expect(expanded).toEqual([
+        { nodeId: "root", depth: 0 },
+        { nodeId: "root.0", depth: 1 },
+        { nodeId: "root.1", depth: 1 },
+      ]);
+      expect(progress.status).toBe("completed");
+      expect(progress.completed).toBe(3);
+      expect(progress.tokens).toBe(30);
+    });
+
+    it("should never run more requests than the concurrency limit", async () => {
+      // Given: 4 个子节点，并发 2
+      const { expand, pending, resolveNext } = createControlledExpand(4);
+      runAutoExplore({
+        nodeId: "root",
+        options: options({ maxDepth: 2, concurrency: 2 }),
+        expand,
+        onProgress: () => {},
+      });
+
+      // When: 起点展开完成
+      await resolveNext();
+
+      // Then: 只派发 2 个请求，其余排队
+      expect(pending.map((p) => p.task.nodeId)).toEqual(["root.0", "root.1"]);
+
+      // When: 其中一个完成
+      await resolveNext();
+
+      // Then: 补上下一个
+      expect(pending.map((p) => p.task.nodeId)).toEqual(["root.1", "root.2"]);
+    });
+
+    it("should stop dispatching once the token budget is used up", async () => {
+      // Given: 每次消耗 100 token，预算 150
+      const { expand, pending, resolveNext } = createControlledExpand(3, 100);
+      const queue = runAutoExplore({
+        nodeId: "root",
+        options: options({ maxDepth: 3, concurrency: 1, tokenBudget: 150 }),
+        expand,
+        onProgress: () => {},
+      });
+
+      // When
+      await resolveNext();
+      await resolveNext();
+
+      // Then: 第二次完成后超出预算，不再派发
+      expect(pending).toHaveLength(0);
+      const progress = await queue.finished;
+      expect(progress.status).toBe("budgetExceeded");
+      expect(progress.completed).toBe(2);
+      expect(progress.tokens).toBe(200);
+    });
+
+    it("should hold the queue while paused and continue on resume", async () => {
+      // Given
+      const { expand, pending, resolveNext } = createControlledExpand(2);
+      const updates: AutoExploreProgress[] = [];
+      const queue = runAutoExplore({
+        nodeId: "root",
+        options: options({ maxDepth: 2, concurrency: 1 }),
+        expand,
+        onProgress: (progress) => updates.push(progress),
+      });
+
+      // When: 暂停后，进行中的请求完成
+      queue.pause();
+      await resolveNext();
+
+      // Then: 不派发新请求，子节点留在队列
+      expect(pending).toHaveLength(0);
+      expect(updates.at(-1)).toMatchObject({ status: "paused", queued: 2 });
+
+      // When: 继续
+      queue.resume();
+
+      // Then
+      expect(pending.map((p) => p.task.nodeId)).toEqual(["root.0"]);
+      expect(updates.at(-1)).toMatchObject({ status: "running", running: 1 });
+    });
+
+    it("should abort running requests and clear the queue on cancel", async () => {
+      // Given
+      const { expand, pending, flush } = createControlledExpand(2);
+      const queue = runAutoExplore({
+        nodeId: "root",
+        options: options(),
+        expand,
+        onProgress: () => {},
+      });
+
+      // When
+      queue.cancel();
+      await flush();
+
+      // Then
+      const progress = await queue.finished;
+      expect(progress).toMatchObject({
+        status: "cancelled",
+        queued: 0,
+        failed: 0,
+      });
+      // 进行中的请求被中止，且不再派发新请求
+      expect(pending).toHaveLength(1);
+      expect(pending[0].signal.aborted).toBe(true);
+    });
+
+    it("should count failed expansions and keep exploring the rest", async () => {
+      // Given: 起点展开成功，第一个子节点失败
+      const queue = runAutoExplore({
+        nodeId: "root",
+        options: options({ maxDepth: 2 }),
+        expand: async (task) => {
+          if (task.nodeId === "root.0") throw new Error("boom");
+          return {
+            childIds: task.nodeId === "root" ? ["root.0", "root.1"] : ["leaf"],
+            tokens: 0,
+            cost: 0,
+          };
+        },
+        onProgress: () => {},
+      });
+
+      // When
+      const progress = await queue.finished;
+
+      // Then
+      expect(progress).toMatchObject({
+        status: "completed",
+        completed: 2,
+        failed: 1,
+      });
+    });
+  });
+});
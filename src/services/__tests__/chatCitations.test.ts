@@ -0,0 +1,41 @@
+/**
+ * chatCitations BDD 测试
+ * 测试回答中 [[node-id]] 引用的解析
+ */
+import { describe, it, expect } from "vitest";
+import { splitCitations } from "../chatCitations";
+
+describe("chatCitations", () => {
+  // ============================================================
+  // Feature: 引用解析
+  // ============================================================
+  describe("splitCitations", () => {
+    it("should split text and citations in order", () => {
+      // Given & When
+      const segments = splitCitations(
+        "Solar is cheap [[node-1]]. Storage matters [[node-2, root-1]].",
+      );
+
+      // Then: 同一对括号中的多个 id 拆为多个引用
+      expect(segments).toEqual([
+        { type: "text", text: "Solar is cheap " },
+        { type: "citation", nodeId: "node-1" },
+        { type: "text", text: ". Storage matters " },
+        { type: "citation", nodeId: "node-2" },
+        { type: "citation", nodeId: "root-1" },
+        { type: "text", text: "." },
+      ]);
+    });
+
+    it("should leave plain text and incomplete citations untouched", () => {
+      // Given & When & Then: 流式输出中尚未闭合的引用保持为文本
+      expect(splitCitations("No sources")).toEqual([
+        { type: "text", text: "No sources" },
+      ]);
+      expect(splitCitations("Partial [[node-")).toEqual([
+        { type: "text", text: "Partial [[node-" },
+      ]);
+      expect(splitCitations("")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * chatThreads BDD 测试
+ * 测试对话线程的显示名、localStorage 读写与 Markdown 导出
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  chatThreadToMarkdown,
+  createChatThread,
+  getChatThreadsStorageKey,
+  getThreadTitle,
+  loadChatThreads,
+  saveChatThreads,
+} from "../chatThreads";
+
+describe("chatThreads", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  // ============================================================
+  // Feature: 显示名
+  // ============================================================
+  describe("getThreadTitle", () => {
+    it("should prefer the given title, then the first question, then the fallback", () => {
+      // Given
+      const thread = createChatThread("", 1);
+
+      // When & Then: 无消息时使用 fallback
+      expect(getThreadTitle(thread, "New chat")).toBe("New chat");
+
+      // When & Then: 以第一个问题的首行作为显示名（过长截断）
+      thread.messages.push({
+        role: "user",
+        content:
+          "What drives the cost of solar panels over the next decade?\nDetails",
+      });
+      expect(getThreadTitle(thread, "New chat")).toBe(
+        "What drives the cost of solar …",
+      );
+
+      // When & Then: 命名后使用标题
+      thread.title = "Costs";
+      expect(getThreadTitle(thread, "New chat")).toBe("Costs");
+    });
+  });
+
+  // ============================================================
+  // Feature: 本地持久化
+  // ============================================================
+  describe("loadChatThreads / saveChatThreads", () => {
+    it("should round-trip threads per project and remove the key when empty", () => {
+      // Given
+      const key = getChatThreadsStorageKey("guest-1");
+      const thread = createChatThread("Notes", 1);
+
+      // When: 保存后读取
+      saveChatThreads(key, [thread]);
+
+      // Then
+      expect(key).toBe("thinkflow_guest-1_chats");
+      expect(loadChatThreads(key)).toEqual([thread]);
+      expect(loadChatThreads(getChatThreadsStorageKey("guest-2"))).toEqual([]);
+
+      // When: 保存空列表
+      saveChatThreads(key, []);
+
+      // Then: 键被移除
+      expect(localStorage.getItem(key)).toBeNull();
+    });
+
+    it("should ignore corrupted data", () => {
+      // Given
+      localStorage.setItem("thinkflow_p_chats", "{oops");
+
+      // When & Then
+      expect(loadChatThreads("thinkflow_p_chats")).toEqual([]);
+    });
+  });
+
+  // ============================================================
+  // Feature: Markdown 导出
+  // ============================================================
+  describe("chatThreadToMarkdown", () => {
+    it("should list questions, answers, context nodes and proposals", () => {
+      // Given
+      const thread = createChatThread("Solar", 1);
+      thread.messages.push(
+        {
+          role: "user",
+          content: "Add a note",
+          contextNodes: [{ id: "root-1", label: "Solar Energy", score: 1 }],
+        },
+        {
+          role: "assistant",
+          content: "Sure.",
+          proposals: [
+            {
+              id: "proposal-1",
+              callId: "call-1",
+              status: "accepted",
+              tool: "add_sticky_note",
+              text: "Check costs",
+              nearNodeId: null,
+            },
+          ],
+        },
+      );
+
+      // When
+      const markdown = chatThreadToMarkdown(thread, {
+        title: "Solar",
+        user: "Question",
+        assistant: "Answer",
+        context: "Context",
+      });
+
+      // Then
+      expect(markdown).toBe(
+        [
+          "# Solar",
+          "",
+          "### Question",
+          "",
+          "Add a note",
+          "",
+          "> Context: Solar Energy",
+          "",
+          "### Answer",
+          "",
+          "Sure.",
+          "",
+          '- [Proposed change (accepted): add sticky note "Check costs"]',
+          "",
+        ].join("\n"),
+      );
+    });
+  });
+});
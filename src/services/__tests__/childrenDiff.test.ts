@@ -0,0 +1,116 @@
+/**
+ * childrenDiff BDD 测试
+ * 测试新建议与现有子节点的配对、默认选择与应用计划
+ */
+import { describe, it, expect } from "vitest";
+import {
+  labelSimilarity,
+  matchSuggestions,
+  planChildrenUpdate,
+} from "../childrenDiff";
+
+const existing = [
+  { id: "a", label: "Solar panel costs", description: "" },
+  { id: "b", label: "Grid storage", description: "" },
+];
+
+describe("childrenDiff", () => {
+  // ============================================================
+  // Feature: 配对
+  // ============================================================
+  describe("matchSuggestions", () => {
+    it("should pair similar labels and default to keep / replace / merge", () => {
+      // Given: 一条同名、一条相似、一条全新的建议
+      const suggestions = [
+        { text: "grid storage", description: "same" },
+        { text: "Falling solar panel costs", description: "similar" },
+        { text: "Policy incentives", description: "new" },
+      ];
+
+      // When
+      const result = matchSuggestions(existing, suggestions);
+
+      // Then
+      expect(
+        result.map(({ targetId, decision }) => ({ targetId, decision })),
+      ).toEqual([
+        { targetId: "b", decision: "keep" },
+        { targetId: "a", decision: "replace" },
+        { targetId: null, decision: "merge" },
+      ]);
+    });
+
+    it("should pair each existing child with at most one suggestion", () => {
+      // Given: 两条建议都与同一个子节点相似
+      const suggestions = [
+        { text: "Solar costs", description: "" },
+        { text: "Solar panel costs today", description: "" },
+      ];
+
+      // When
+      const result = matchSuggestions(existing, suggestions);
+
+      // Then: 更相似的一条配对，另一条作为新方向
+      expect(result[1].targetId).toBe("a");
+      expect(result[0]).toMatchObject({ targetId: null, decision: "merge" });
+    });
+
+    it("should compare CJK labels by character bigrams", () => {
+      // Given & When & Then
+      expect(labelSimilarity("光伏成本", "光伏成本下降")).toBeGreaterThan(0.5);
+      expect(labelSimilarity("光伏成本", "电网储能")).toBe(0);
+    });
+  });
+
+  // ============================================================
+  // Feature: 应用计划
+  // ============================================================
+  describe("planChildrenUpdate", () => {
+    it("should turn decisions into in-place replacements and additions", () => {
+      // Given
+      const suggestions = matchSuggestions(existing, [
+        { text: "grid storage", description: "" },
+        { text: "Falling solar panel costs", description: "cheaper" },
+        { text: "Policy incentives", description: "subsidies" },
+      ]);
+
+      // When
+      const plan = planChildrenUpdate(suggestions);
+
+      // Then: 同名建议被保留（不产生修改）
+      expect(plan).toEqual({
+        replacements: [
+          {
+            nodeId: "a",
+            label: "Falling solar panel costs",
+            description: "cheaper",
+          },
+        ],
+        additions: [{ text: "Policy incentives", description: "subsidies" }],
+      });
+    });
+
+    it("should add a replacement without target and ignore duplicate targets", () => {
+      // Given
+      const base = matchSuggestions(existing, [
+        { text: "One", description: "" },
+        { text: "Two", description: "" },
+        { text: "Three", description: "" },
+      ]);
+      const suggestions = [
+        { ...base[0], decision: "replace" as const, targetId: "a" },
+        { ...base[1], decision: "replace" as const, targetId: "a" },
+        { ...base[2], decision: "replace" as const, targetId: null },
+      ];
+
+      // When
+      const plan = planChildrenUpdate(suggestions);
+
+      // Then
+      expect(plan.replacements).toEqual([
+        { nodeId: "a", label: "One", description: "" },
+      ]);
+      expect(plan.additions).toEqual([{ text: "Three", description: "" }]);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * documentSeed BDD 测试
+ * 测试文档识别、切块、合并轮次与大纲清理
+ */
+import { describe, it, expect } from "vitest";
+import {
+  chunkDocument,
+  countOutlineRequests,
+  getDocumentTitle,
+  groupOutlines,
+  isDocumentText,
+  isSupportedDocumentFile,
+  normalizeOutline,
+  outlineToText,
+} from "../documentSeed";
+import { estimateTokens } from "../graphRetrieval";
+
+describe("documentSeed", () => {
+  // ============================================================
+  // Feature: 识别文档
+  // ============================================================
+  describe("isDocumentText / isSupportedDocumentFile / getDocumentTitle", () => {
+    it("should treat long or multi-line text as a document", () => {
+      // Given & When & Then
+      expect(isDocumentText("一个想法")).toBe(false);
+      expect(isDocumentText("a".repeat(300))).toBe(true);
+      expect(isDocumentText("1\n2\n3\n4\n5")).toBe(true);
+    });
+
+    it("should accept text and markdown files by extension or type", () => {
+      // Given & When & Then
+      expect(isSupportedDocumentFile({ name: "notes.MD", type: "" })).toBe(
+        true,
+      );
+      expect(
+        isSupportedDocumentFile({ name: "notes", type: "text/plain" }),
+      ).toBe(true);
+      expect(
+        isSupportedDocumentFile({ name: "a.pdf", type: "application/pdf" }),
+      ).toBe(false);
+    });
+
+    it("should title a document by its file name or first line", () => {
+      // Given & When & Then
+      expect(getDocumentTitle("正文", "读书笔记.md")).toBe("读书笔记");
+      expect(getDocumentTitle("\n## 第一章 开端\n正文")).toBe("第一章 开端");
+      expect(getDocumentTitle("x".repeat(80))).toBe(`${"x".repeat(60)}…`);
+    });
+  });
+
+  // ============================================================
+  // Feature: 切块
+  // ============================================================
+  describe("chunkDocument", () => {
+    it("should keep a short document in one chunk", () => {
+      // Given & When
+      const chunks = chunkDocument("第一段\n\n第二段");
+
+      // Then
+      expect(chunks).toEqual(["第一段\n\n第二段"]);
+    });
+
+    it("should pack paragraphs into chunks within the token limit", () => {
+      // Given: 三段各 40 token
+      const paragraph = (c: string) => c.repeat(40);
+      const text = ["甲", "乙", "丙"].map(paragraph).join("\n\n");
+
+      // When
+      const chunks = chunkDocument(text, 100);
+
+      // Then: 前两段合为一块，第三段单独一块
+      expect(chunks).toEqual([
+        `${paragraph("甲")}\n\n${paragraph("乙")}`,
+        paragraph("丙"),
+      ]);
+    });
+
+    it("should split an oversized paragraph by sentences and characters", () => {
+      // Given: 没有空行的长段落，其中一句超过上限
+      const text = `${"短句。".repeat(10)}${"长".repeat(250)}`;
+
+      // When
+      const chunks = chunkDocument(text, 100);
+
+      // Then: 每块都不超过上限，且内容完整
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach((chunk) =>
+        expect(estimateTokens(chunk)).toBeLessThanOrEqual(100),
+      );
+      expect(chunks.join("").replace(/\s/g, "")).toBe(text);
+    });
+  });
+
+  // ============================================================
+  // Feature: 合并
+  // ============================================================
+  describe("groupOutlines / countOutlineRequests", () => {
+    it("should group outlines and count chunk and merge requests", () => {
+      // Given & When & Then
+      expect(groupOutlines([1, 2, 3, 4, 5, 6, 7])).toEqual([
+        [1, 2, 3, 4, 5, 6],
+        [7],
+      ]);
+      expect(countOutlineRequests(1)).toBe(1);
+      expect(countOutlineRequests(2)).toBe(3);
+      // 7 块 -> 第一轮合并 1 次（剩余 1 份直接进入下一轮）-> 第二轮合并 1 次
+      expect(countOutlineRequests(7)).toBe(9);
+    });
+
+    it("should serialize an outline as indented text", () => {
+      // Given & When
+      const text = outlineToText({
+        title: "标题",
+        summary: "概述",
+        sections: [
+          {
+            text: "章节",
+            description: "描述",
+            children: [{ text: "要点", description: "细节" }],
+          },
+        ],
+      });
+
+      // Then
+      expect(text).toBe("# 标题\n概述\n- 章节: 描述\n  - 要点: 细节");
+    });
+  });
+
+  // ============================================================
+  // Feature: 清理大纲
+  // ============================================================
+  describe("normalizeOutline", () => {
+    it("should drop empty items, cap each level and fall back to the title", () => {
+      // Given: 10 个章节（含一个空标题），首个章节 8 个要点
+      const item = (text: string) => ({ text, description: "" });
+      const outline = {
+        title: " ",
+        summary: "概述",
+        sections: [
+          {
+            ...item("章节 0"),
+            children: Array.from({ length: 8 }, (_, i) => item(`要点 ${i}`)),
+          },
+          item("  "),
+          ...Array.from({ length: 8 }, (_, i) => item(`章节 ${i + 1}`)),
+        ],
+      };
+
+      // When
+      const result = normalizeOutline(outline, "文档");
+
+      // Then
+      expect(result.title).toBe("文档");
+      expect(result.sections).toHaveLength(8);
+      expect(result.sections[1].text).toBe("章节 1");
+      expect(result.sections[0].children).toHaveLength(6);
+      expect(result.sections[1].children).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * graphRetrieval BDD 测试
+ * 测试分词、BM25 排序与 token 预算内的上下文选择
+ */
+import { describe, it, expect } from "vitest";
+import {
+  estimateTokens,
+  rankDocuments,
+  selectGraphContext,
+  tokenize,
+} from "../graphRetrieval";
+
+const node = (id: string, label: string, extra: Record<string, any> = {}) => ({
+  id,
+  type: "window",
+  position: { x: 0, y: 0 },
+  data: { label, ...extra },
+});
+
+describe("graphRetrieval", () => {
+  // ============================================================
+  // Feature: 分词
+  // ============================================================
+  describe("tokenize", () => {
+    it("should split latin words and CJK bigrams", () => {
+      // Given & When & Then
+      expect(tokenize("Neural Networks 101")).toEqual([
+        "neural",
+        "networks",
+        "101",
+      ]);
+      expect(tokenize("机器学习")).toEqual(["机器", "器学", "学习"]);
+      expect(tokenize("猫")).toEqual(["猫"]);
+    });
+
+    it("should count CJK characters as one token each", () => {
+      // Given & When & Then
+      expect(estimateTokens("机器学习")).toBe(4);
+      expect(estimateTokens("abcdefgh")).toBe(2);
+    });
+  });
+
+  // ============================================================
+  // Feature: BM25 排序
+  // ============================================================
+  describe("rankDocuments", () => {
+    it("should rank documents containing rarer query terms higher", () => {
+      // Given
+      const documents = [
+        { id: "a", terms: tokenize("solar energy storage") },
+        { id: "b", terms: tokenize("energy policy") },
+        { id: "c", terms: tokenize("wind farms") },
+      ];
+
+      // When
+      const ranked = rankDocuments(documents, "solar energy");
+
+      // Then: 未命中的文档不返回
+      expect(ranked.map((r) => r.id)).toEqual(["a", "b"]);
+    });
+  });
+
+  // ============================================================
+  // Feature: 上下文选择
+  // ============================================================
+  describe("selectGraphContext", () => {
+    const nodes = [
+      node("root", "Renewable energy", { type: "root" }),
+      node("solar", "Solar panels", {
+        description: "Photovoltaic cells",
+        detailedContent: "Perovskite cells could raise efficiency.",
+      }),
+      node("wind", "Wind turbines", { description: "Offshore farms" }),
+      {
+        id: "sticky-1",
+        type: "sticky",
+        data: { label: "Ask about perovskite" },
+      },
+    ];
+
+    it("should search deep-dive content and always keep the root", () => {
+      // Given & When
+      const context = selectGraphContext(nodes, "What about perovskite?");
+
+      // Then: 根节点在前，其余按得分排序（只命中便签与回答正文）
+      expect(context.nodes[0].id).toBe("root");
+      expect(context.nodes.map((n) => n.id).sort()).toEqual([
+        "root",
+        "solar",
+        "sticky-1",
+      ]);
+      expect(context.text).toContain(
+        "Perovskite cells could raise efficiency.",
+      );
+      expect(context.text).not.toContain("Wind turbines");
+    });
+
+    it("should stop adding nodes once the token budget is used", () => {
+      // Given: 两个节点都命中，但预算只够根节点与 Wind 节点
+      const budget =
+        estimateTokens("[Node]: Renewable energy") +
+        estimateTokens("[Node]: Wind turbines - Offshore farms");
+
+      // When
+      const context = selectGraphContext(nodes, "solar wind", budget);
+
+      // Then: 放不下的 Solar 节点被跳过
+      expect(context.nodes.map((n) => n.id)).toEqual(["root", "wind"]);
+    });
+
+    it("should fall back to canvas order when nothing matches", () => {
+      // Given & When
+      const context = selectGraphContext(nodes, "总结一下");
+
+      // Then
+      expect(context.nodes.map((n) => n.id)).toEqual([
+        "root",
+        "solar",
+        "wind",
+        "sticky-1",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * graphTools BDD 测试
+ * 测试图谱对话工具调用到修改提案的转换（参数校验、节点解析、无效修改过滤）
+ */
+import { describe, it, expect } from "vitest";
+import {
+  describeProposal,
+  findNodeByReference,
+  toGraphEditProposal,
+} from "../graphTools";
+
+const nodes = [
+  { id: "root-1", type: "window", data: { label: "Solar Energy" } },
+  { id: "node-2", type: "window", data: { label: "Panels" } },
+  { id: "sticky-3", type: "sticky", data: { label: "panels" } },
+];
+const edges = [{ id: "e-root-1-node-2", source: "root-1", target: "node-2" }];
+
+const call = (name: string, args: Record<string, any>) => ({
+  id: "call-1",
+  name,
+  arguments: args,
+});
+
+describe("graphTools", () => {
+  // ============================================================
+  // Feature: 节点解析
+  // ============================================================
+  describe("findNodeByReference", () => {
+    it("should match by id first and fall back to a case-insensitive label", () => {
+      // Given & When & Then: 标题匹配跳过便签
+      expect(findNodeByReference(nodes, "node-2")?.id).toBe("node-2");
+      expect(findNodeByReference(nodes, " panels ")?.id).toBe("node-2");
+      expect(findNodeByReference(nodes, "missing")).toBeUndefined();
+    });
+  });
+
+  // ============================================================
+  // Feature: 提案转换
+  // ============================================================
+  describe("toGraphEditProposal", () => {
+    it("should turn an add_children call into a pending proposal", () => {
+      // Given: 用标题引用父节点的调用
+      const result = toGraphEditProposal(
+        call("add_children", {
+          parentId: "Solar Energy",
+          children: [{ label: " Storage " }],
+        }),
+        nodes,
+        edges,
+      );
+
+      // Then: 父节点解析为 id，描述缺省为空
+      expect(result).toEqual({
+        ok: true,
+        proposal: {
+          id: expect.stringMatching(/^proposal-/),
+          callId: "call-1",
+          status: "pending",
+          tool: "add_children",
+          parentId: "root-1",
+          parentLabel: "Solar Energy",
+          children: [{ label: "Storage", description: "" }],
+        },
+      });
+    });
+
+    it("should record the old title of a rename", () => {
+      // Given & When
+      const result = toGraphEditProposal(
+        call("rename_node", { nodeId: "node-2", label: "Solar Panels" }),
+        nodes,
+        edges,
+      );
+
+      // Then
+      expect(result.ok && result.proposal).toMatchObject({
+        tool: "rename_node",
+        from: "Panels",
+        to: "Solar Panels",
+      });
+    });
+
+    it("should give every proposal a unique id even when call ids repeat", () => {
+      // Given: 两个轮次中下标相同的调用（如 Ollama 的 call-0）
+      const repeated = call("rename_node", {
+        nodeId: "node-2",
+        label: "Solar Panels",
+      });
+
+      // When
+      const first = toGraphEditProposal(repeated, nodes, edges);
+      const second = toGraphEditProposal(repeated, nodes, edges);
+
+      // Then: 提案 id 不同，工具调用 id 保留在 callId
+      expect(first.ok && second.ok).toBe(true);
+      if (!first.ok || !second.ok) return;
+      expect(first.proposal.id).not.toBe(second.proposal.id);
+      expect(second.proposal.callId).toBe("call-1");
+    });
+
+    it("should reject invalid arguments, unknown tools and missing nodes", () => {
+      // Given & When & Then
+      expect(
+        toGraphEditProposal(
+          call("add_children", { parentId: "root-1" }),
+          nodes,
+          edges,
+        ),
+      ).toEqual({ ok: false, error: "$.children is required" });
+      expect(
+        toGraphEditProposal(call("delete_node", {}), nodes, edges).ok,
+      ).toBe(false);
+      expect(
+        toGraphEditProposal(
+          call("rename_node", { nodeId: "ghost", label: "x" }),
+          nodes,
+          edges,
+        ).ok,
+      ).toBe(false);
+    });
+
+    it("should reject links that already exist or point to the same node", () => {
+      // Given & When & Then
+      expect(
+        toGraphEditProposal(
+          call("link_nodes", { sourceId: "root-1", targetId: "node-2" }),
+          nodes,
+          edges,
+        ).ok,
+      ).toBe(false);
+      expect(
+        toGraphEditProposal(
+          call("link_nodes", { sourceId: "node-2", targetId: "node-2" }),
+          nodes,
+          edges,
+        ).ok,
+      ).toBe(false);
+      expect(
+        toGraphEditProposal(
+          call("link_nodes", { sourceId: "node-2", targetId: "root-1" }),
+          nodes,
+          edges,
+        ).ok,
+      ).toBe(true);
+    });
+  });
+
+  // ============================================================
+  // Feature: 对话历史描述
+  // ============================================================
+  describe("describeProposal", () => {
+    it("should describe the change together with its status", () => {
+      // Given
+      const result = toGraphEditProposal(
+        call("add_sticky_note", { text: "Check costs", nearNodeId: "ghost" }),
+        nodes,
+        edges,
+      );
+
+      // When
+      const proposal = result.ok ? result.proposal : null;
+
+      // Then: 找不到的关联节点被忽略
+      expect(proposal).toMatchObject({ nearNodeId: null });
+      expect(describeProposal(proposal!)).toBe(
+        '[Proposed change (pending): add sticky note "Check costs"]',
+      );
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * imageHistory BDD 测试
+ * 测试图片历史的追加、封面切换、旧数据兼容与本地存储清理
+ */
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/supabase", () => ({
+  supabase: { storage: { from: vi.fn() } },
+}));
+
+import {
+  MAX_IMAGE_HISTORY,
+  addImageToHistory,
+  createNodeImage,
+  getCoverImageId,
+  getImageHistory,
+  selectCoverImage,
+  stripInlineImages,
+} from "../imageHistory";
+
+const image = (source: string, now: number) =>
+  createNodeImage({ source, prompt: `prompt ${now}`, model: "model-a" }, now);
+
+describe("imageHistory", () => {
+  // ============================================================
+  // Feature: 追加与封面
+  // ============================================================
+  describe("addImageToHistory", () => {
+    it("should keep earlier images and make the new one the cover", () => {
+      // Given: 节点已有一张图片
+      const first = image("supabase:p/a.png", 1);
+      const data = addImageToHistory({}, first);
+
+      // When
+      const second = image("supabase:p/b.png", 2);
+      const next = addImageToHistory(data, second);
+
+      // Then
+      expect(next.imageHistory.map((i) => i.source)).toEqual([
+        "supabase:p/a.png",
+        "supabase:p/b.png",
+      ]);
+      expect(next.imagePath).toBe("supabase:p/b.png");
+      expect(next.imageUrl).toBeNull();
+      expect(getCoverImageId(next)).toBe(second.id);
+    });
+
+    it("should store non-ref sources as imageUrl", () => {
+      // Given & When: 上传失败时来源为原地址
+      const next = addImageToHistory({}, image("https://cdn/a.png", 1));
+
+      // Then
+      expect(next).toMatchObject({
+        imagePath: null,
+        imageUrl: "https://cdn/a.png",
+      });
+    });
+
+    it("should drop the oldest images beyond the limit", () => {
+      // Given
+      let data: any = {};
+      for (let i = 0; i <= MAX_IMAGE_HISTORY; i++) {
+        data = addImageToHistory(data, image(`local:p/${i}.png`, i));
+      }
+
+      // Then
+      expect(data.imageHistory).toHaveLength(MAX_IMAGE_HISTORY);
+      expect(data.imageHistory[0].source).toBe("local:p/1.png");
+    });
+  });
+
+  describe("selectCoverImage", () => {
+    it("should switch the cover to an earlier image", () => {
+      // Given
+      const first = image("supabase:p/a.png", 1);
+      const data = addImageToHistory(
+        addImageToHistory({}, first),
+        image("supabase:p/b.png", 2),
+      );
+
+      // When
+      const next = selectCoverImage(data, first.id);
+
+      // Then
+      expect(next?.imagePath).toBe("supabase:p/a.png");
+      expect(next?.imageHistory).toHaveLength(2);
+      expect(selectCoverImage(data, "missing")).toBeNull();
+    });
+  });
+
+  // ============================================================
+  // Feature: 兼容与清理
+  // ============================================================
+  describe("legacy data", () => {
+    it("should expose a single legacy image as history", () => {
+      // Given & When
+      const history = getImageHistory({ imageUrl: "https://cdn/old.png" });
+
+      // Then
+      expect(history).toEqual([
+        expect.objectContaining({
+          id: "legacy",
+          source: "https://cdn/old.png",
+        }),
+      ]);
+      expect(getCoverImageId({ imageUrl: "https://cdn/old.png" })).toBe(
+        "legacy",
+      );
+    });
+
+    it("should strip inline data URLs before saving locally", () => {
+      // Given
+      const history = [
+        image("data:image/png;base64,AAAA", 1),
+        image("browser:p/a.png", 2),
+      ];
+
+      // When & Then
+      expect(stripInlineImages(history)?.map((i) => i.source)).toEqual([
+        "browser:p/a.png",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * imageProviders BDD 测试
+ * 测试各图片接口的请求构建与响应解析
+ */
+import { describe, it, expect } from "vitest";
+import {
+  getByPath,
+  getImageProvider,
+  ImageResponseError,
+  toImageUrl,
+  type ImageEndpoint,
+} from "../imageProviders";
+
+const endpoint = (overrides: Partial<ImageEndpoint> = {}): ImageEndpoint => ({
+  provider: "chat",
+  baseUrl: "https://api.example.com/images",
+  model: "image-model",
+  apiKey: "sk-test",
+  ...overrides,
+});
+
+describe("imageProviders", () => {
+  // ============================================================
+  // Feature: Chat 多模态（原有格式）
+  // ============================================================
+  describe("chat", () => {
+    it("should send modalities with the aspect ratio and read images from the message", () => {
+      // Given
+      const provider = getImageProvider("chat");
+
+      // When
+      const { init } = provider.buildRequest(endpoint(), {
+        prompt: "一只猫",
+        aspectRatio: "16:9",
+      });
+      const result = provider.parseResponse(
+        {
+          choices: [
+            {
+              message: {
+                images: [{ image_url: { url: "https://cdn/cat.png" } }],
+              },
+            },
+          ],
+          usage: { prompt_tokens: 10, completion_tokens: 0 },
+        },
+        endpoint(),
+      );
+
+      // Then
+      const body = JSON.parse(init.body as string);
+      expect(body.modalities).toEqual(["image", "text"]);
+      expect(body.image_config).toEqual({ aspect_ratio: "16:9" });
+      expect(result).toEqual({
+        url: "https://cdn/cat.png",
+        usage: { promptTokens: 10, completionTokens: 0 },
+      });
+    });
+
+    it("should attach the reference image when generating a variation", () => {
+      // Given
+      const provider = getImageProvider("chat");
+
+      // When
+      const { init } = provider.buildRequest(endpoint(), {
+        prompt: "变体",
+        referenceImage: "https://cdn/cat.png",
+      });
+
+      // Then
+      const body = JSON.parse(init.body as string);
+      expect(body.messages[0].content).toEqual([
+        { type: "text", text: "变体" },
+        { type: "image_url", image_url: { url: "https://cdn/cat.png" } },
+      ]);
+    });
+  });
+
+  // ============================================================
+  // Feature: OpenAI /images/generations
+  // ============================================================
+  describe("openai", () => {
+    it("should send prompt and size, and accept url or b64_json", () => {
+      // Given
+      const provider = getImageProvider("openai");
+      const ep = endpoint({ provider: "openai" });
+
+      // When
+      const { init } = provider.buildRequest(ep, {
+        prompt: "a cat",
+        size: "1024x1024",
+      });
+
+      // Then
+      expect(JSON.parse(init.body as string)).toEqual({
+        model: "image-model",
+        prompt: "a cat",
+        n: 1,
+        size: "1024x1024",
+      });
+      expect(
+        provider.parseResponse({ data: [{ url: "https://cdn/a.png" }] }, ep)
+          .url,
+      ).toBe("https://cdn/a.png");
+      expect(
+        provider.parseResponse({ data: [{ b64_json: "AAAA" }] }, ep).url,
+      ).toBe("data:image/png;base64,AAAA");
+    });
+  });
+
+  // ============================================================
+  // Feature: Stability
+  // ============================================================
+  describe("stability", () => {
+    it("should post a multipart form and decode the base64 image", () => {
+      // Given
+      const provider = getImageProvider("stability");
+      const ep = endpoint({ provider: "stability" });
+
+      // When
+      const { init } = provider.buildRequest(ep, {
+        prompt: "a cat",
+        aspectRatio: "3:4",
+      });
+      const result = provider.parseResponse({ image: "BBBB" }, ep);
+
+      // Then
+      const form = init.body as FormData;
+      expect(form.get("prompt")).toBe("a cat");
+      expect(form.get("aspect_ratio")).toBe("3:4");
+      expect((init.headers as Record<string, string>).Accept).toBe(
+        "application/json",
+      );
+      expect(result.url).toBe("data:image/png;base64,BBBB");
+    });
+  });
+
+  // ============================================================
+  // Feature: 通用 JSON 路径
+  // ============================================================
+  describe("jsonPath", () => {
+    it("should read the image from the configured path", () => {
+      // Given
+      const provider = getImageProvider("jsonPath");
+      const ep = endpoint({
+        provider: "jsonPath",
+        responsePath: "output[0].image",
+      });
+
+      // When
+      const result = provider.parseResponse(
+        { output: [{ image: "https://cdn/x.webp" }] },
+        ep,
+      );
+
+      // Then
+      expect(result.url).toBe("https://cdn/x.webp");
+    });
+
+    it("should throw ImageResponseError when the path has no image", () => {
+      // Given
+      const provider = getImageProvider("jsonPath");
+      const ep = endpoint({ provider: "jsonPath", responsePath: "data.url" });
+
+      // When & Then
+      expect(() => provider.parseResponse({ error: "x" }, ep)).toThrow(
+        ImageResponseError,
+      );
+    });
+  });
+
+  describe("helpers", () => {
+    it("should support bracket and dot index notation in paths", () => {
+      // Given
+      const data = { a: { b: [{ c: 1 }] } };
+
+      // When & Then
+      expect(getByPath(data, "a.b[0].c")).toBe(1);
+      expect(getByPath(data, "a.b.0.c")).toBe(1);
+      expect(getByPath(data, "a.x.y")).toBeUndefined();
+    });
+
+    it("should keep data URLs and wrap raw base64", () => {
+      // Given & When & Then
+      expect(toImageUrl("data:image/jpeg;base64,CC")).toBe(
+        "data:image/jpeg;base64,CC",
+      );
+      expect(toImageUrl("CC")).toBe("data:image/png;base64,CC");
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * imageStorage BDD 测试
+ * 测试图片引用的格式、存储后端选择、本地替身上传、旧数据地址的兼容，以及地址释放与图片删除
+ */
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+
+vi.mock("@/lib/supabase", () => ({
+  supabase: { storage: { from: vi.fn() } },
+}));
+
+import {
+  buildImageRef,
+  buildObjectPath,
+  deleteNodeImages,
+  getImageExtension,
+  getThumbnailPath,
+  parseImageRef,
+  releaseImageUrl,
+  resolveImageUrl,
+  selectImageStore,
+  uploadNodeImage,
+} from "../imageStorage";
+
+// 内存中的 IndexedDB 替身：只实现 imageStorage 用到的 open / get / put / delete
+const createIndexedDB = (objects: Map<string, Blob>) => {
+  const request = (run: () => unknown) => {
+    const req: any = {};
+    setTimeout(() => {
+      req.result = run();
+      req.onsuccess?.();
+    });
+    return req;
+  };
+  const store = {
+    get: (key: string) => request(() => objects.get(key)),
+    put: (blob: Blob, key: string) => request(() => objects.set(key, blob)),
+    delete: (key: string) => request(() => objects.delete(key)),
+  };
+  const db = { transaction: () => ({ objectStore: () => store }) };
+  return { open: () => request(() => db) };
+};
+
+describe("imageStorage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // ============================================================
+  // Feature: 图片引用
+  // ============================================================
+  describe("image refs", () => {
+    it("should round-trip a store and object path", () => {
+      // Given
+      const ref = buildImageRef("supabase", "project-1/root-1.png");
+
+      // When & Then
+      expect(ref).toBe("supabase:project-1/root-1.png");
+      expect(parseImageRef(ref)).toEqual({
+        store: "supabase",
+        path: "project-1/root-1.png",
+      });
+    });
+
+    it("should not treat legacy http or data URLs as refs", () => {
+      // Given & When & Then
+      expect(parseImageRef("https://cdn.example.com/a.png")).toBeNull();
+      expect(parseImageRef("data:image/png;base64,AAAA")).toBeNull();
+      expect(parseImageRef(null)).toBeNull();
+    });
+
+    it("should put the project id first so bucket policies can check ownership", () => {
+      // Given & When
+      const path = buildObjectPath("project-1", "node/1 a", "png", 123);
+
+      // Then
+      expect(path).toBe("project-1/node_1_a-123.png");
+      expect(getThumbnailPath(path)).toBe(
+        "project-1/node_1_a-123.png.thumb.jpg",
+      );
+    });
+
+    it("should map MIME types to file extensions", () => {
+      // Given & When & Then
+      expect(getImageExtension("image/jpeg")).toBe("jpg");
+      expect(getImageExtension("image/svg+xml;charset=utf-8")).toBe("svg");
+      expect(getImageExtension("application/octet-stream")).toBe("png");
+    });
+  });
+
+  // ============================================================
+  // Feature: 后端选择
+  // ============================================================
+  describe("selectImageStore", () => {
+    it("should use Supabase for cloud projects and the browser for guests", () => {
+      // Given & When & Then
+      expect(selectImageStore(true, undefined)).toBe("supabase");
+      expect(selectImageStore(false, undefined)).toBe("browser");
+    });
+
+    it("should use the local disk stand-in when configured in development", () => {
+      // Given & When & Then
+      expect(selectImageStore(true, "local")).toBe("local");
+    });
+  });
+
+  // ============================================================
+  // Feature: 上传与解析
+  // ============================================================
+  describe("uploadNodeImage", () => {
+    it("should upload to the local stand-in and return only the object ref", async () => {
+      // Given: 生成结果为 data URL，本地替身接受 PUT
+      const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+        if (url.startsWith("data:"))
+          return new Response(new Blob(["png"], { type: "image/png" }));
+        return new Response(null, {
+          status: init?.method === "PUT" ? 201 : 200,
+        });
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      // When
+      const ref = await uploadNodeImage({
+        store: "local",
+        projectId: "project-1",
+        nodeId: "root",
+        source: "data:image/png;base64,cG5n",
+      });
+
+      // Then: 节点只保存引用，不含图片数据
+      expect(ref).toMatch(/^local:project-1\/root-\d+\.png$/);
+      const [uploadUrl, uploadInit] = fetchMock.mock.calls[1];
+      expect(uploadUrl).toBe(
+        `/__local-storage/node-images/${ref.slice("local:".length)}`,
+      );
+      expect(uploadInit?.method).toBe("PUT");
+    });
+  });
+
+  describe("resolveImageUrl", () => {
+    it("should return legacy URLs unchanged", async () => {
+      // Given & When & Then
+      await expect(
+        resolveImageUrl("https://cdn.example.com/a.png"),
+      ).resolves.toBe("https://cdn.example.com/a.png");
+    });
+
+    it("should fall back to the original when the thumbnail is missing", async () => {
+      // Given: 本地替身中只有原图
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(
+          async (url: string) =>
+            new Response(null, {
+              status: url.endsWith(".thumb.jpg") ? 404 : 200,
+            }),
+        ),
+      );
+
+      // When
+      const url = await resolveImageUrl("local:project-1/fallback.png", {
+        thumbnail: true,
+      });
+
+      // Then
+      expect(url).toBe("/__local-storage/node-images/project-1/fallback.png");
+    });
+  });
+
+  // ============================================================
+  // Feature: 释放与删除
+  // ============================================================
+  describe("releaseImageUrl / deleteNodeImages", () => {
+    const objects = new Map<string, Blob>();
+
+    beforeEach(() => {
+      objects.clear();
+      vi.stubGlobal("indexedDB", createIndexedDB(objects));
+    });
+
+    it("should reuse one object URL while in use and revoke it after the last release", async () => {
+      // Given: 游客图片保存在 IndexedDB
+      objects.set("project-1/a.png", new Blob(["png"]));
+      const createObjectURL = vi.fn(() => "blob:a");
+      const revokeObjectURL = vi.fn();
+      vi.stubGlobal(
+        "URL",
+        Object.assign(class extends URL {}, {
+          createObjectURL,
+          revokeObjectURL,
+        }),
+      );
+
+      // When: 两处同时展示同一张图片
+      const first = await resolveImageUrl("browser:project-1/a.png");
+      const second = await resolveImageUrl("browser:project-1/a.png");
+
+      // Then: 只创建一个对象地址
+      expect([first, second]).toEqual(["blob:a", "blob:a"]);
+      expect(createObjectURL).toHaveBeenCalledTimes(1);
+
+      // When: 一处释放
+      releaseImageUrl("browser:project-1/a.png");
+      await Promise.resolve();
+
+      // Then: 仍在使用，不撤销
+      expect(revokeObjectURL).not.toHaveBeenCalled();
+
+      // When: 最后一处释放
+      releaseImageUrl("browser:project-1/a.png");
+      await Promise.resolve();
+
+      // Then: 撤销对象地址，再次解析时重新创建
+      expect(revokeObjectURL).toHaveBeenCalledWith("blob:a");
+      await resolveImageUrl("browser:project-1/a.png");
+      expect(createObjectURL).toHaveBeenCalledTimes(2);
+    });
+
+    it("should delete originals and thumbnails from their stores and skip legacy URLs", async () => {
+      // Given: 一张游客图片（含缩略图）、一张本地替身图片和一个旧地址
+      objects.set("project-1/b.png", new Blob(["png"]));
+      objects.set("project-1/b.png.thumb.jpg", new Blob(["jpg"]));
+      objects.set("project-1/keep.png", new Blob(["png"]));
+      const fetchMock = vi.fn(
+        async (_url: string, _init?: RequestInit) =>
+          new Response(null, { status: 204 }),
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      // When
+      await deleteNodeImages([
+        "browser:project-1/b.png",
+        "local:project-1/c.png",
+        "https://cdn.example.com/a.png",
+      ]);
+
+      // Then: 原图与缩略图均被删除，其他图片保留，旧地址不发请求
+      expect([...objects.keys()]).toEqual(["project-1/keep.png"]);
+      expect(
+        fetchMock.mock.calls.map(([url, init]) => [url, init?.method]),
+      ).toEqual([
+        ["/__local-storage/node-images/project-1/c.png", "DELETE"],
+        ["/__local-storage/node-images/project-1/c.png.thumb.jpg", "DELETE"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,574 @@
+/**
+ * llmProviders BDD 测试
+ * 测试各 provider 的请求构建与响应 / 流式解析 / token 用量读取
+ */
+import { describe, it, expect, vi } from "vitest";
+import {
+  getChatProvider,
+  readSSEStream,
+  type ChatEndpoint,
+} from "../llmProviders";
+
+/**
+ * 工具函数：将若干文本片段包装为可读取的流式 Response
+ */
+const createStreamResponse = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((c) => controller.enqueue(encoder.encode(c)));
+      controller.close();
+    },
+  });
+  return new Response(stream);
+};
+
+const endpoint = (overrides: Partial<ChatEndpoint> = {}): ChatEndpoint => ({
+  provider: "openai",
+  baseUrl: "https://api.example.com/v1/chat/completions",
+  model: "test-model",
+  apiKey: "sk-test",
+  ...overrides,
+});
+
+describe("llmProviders", () => {
+  // ============================================================
+  // Feature: provider 选择
+  // ============================================================
+  describe("getChatProvider", () => {
+    it("should fall back to the OpenAI compatible provider for unknown types", () => {
+      // Given: 未知的 provider 类型
+      // When: 获取适配器
+      const provider = getChatProvider("unknown");
+
+      // Then: 回退为 OpenAI 兼容（SSE 分帧）
+      expect(provider).toBe(getChatProvider("openai"));
+      expect(provider.streamFormat).toBe("sse");
+    });
+  });
+
+  // ============================================================
+  // Feature: OpenAI 兼容
+  // ============================================================
+  describe("openai provider", () => {
+    it("should build a chat completions request with bearer auth", () => {
+      // Given: OpenAI 兼容端点
+      const provider = getChatProvider("openai");
+
+      // When: 构建流式请求
+      const { url, init } = provider.buildRequest(endpoint(), {
+        messages: [{ role: "user", content: "hi" }],
+        stream: true,
+        temperature: 0.8,
+      });
+      const body = JSON.parse(init.body as string);
+
+      // Then: 请求体与请求头符合 Chat Completions 约定
+      expect(url).toBe(endpoint().baseUrl);
+      expect((init.headers as Record<string, string>).Authorization).toBe(
+        "Bearer sk-test",
+      );
+      expect(body).toEqual({
+        model: "test-model",
+        messages: [{ role: "user", content: "hi" }],
+        stream: true,
+        stream_options: { include_usage: true },
+        temperature: 0.8,
+      });
+    });
+
+    it("should add OpenRouter headers when targeting openrouter.ai", () => {
+      // Given: OpenRouter 端点
+      const provider = getChatProvider("openai");
+
+      // When: 构建请求
+      const { init } = provider.buildRequest(
+        endpoint({ baseUrl: "https://openrouter.ai/api/v1/chat/completions" }),
+        { messages: [] },
+      );
+
+      // Then: 附带 X-Title
+      expect((init.headers as Record<string, string>)["X-Title"]).toBe(
+        "ThinkFlowAI",
+      );
+    });
+
+    it("should parse content and reasoning from a non-stream response", () => {
+      // Given: 非流式响应
+      const provider = getChatProvider("openai");
+
+      // When: 解析
+      const result = provider.parseResponse({
+        choices: [{ message: { content: "answer", reasoning: "why" } }],
+      });
+
+      // Then: 正文与思考过程均被提取
+      expect(result).toEqual({ content: "answer", reasoning: "why" });
+    });
+  });
+
+  // ============================================================
+  // Feature: Anthropic Messages API
+  // ============================================================
+  describe("anthropic provider", () => {
+    it("should move system messages to the top-level system field", () => {
+      // Given: 含 system 与连续 user 消息的对话
+      const provider = getChatProvider("anthropic");
+
+      // When: 构建请求
+      const { init } = provider.buildRequest(
+        endpoint({ provider: "anthropic" }),
+        {
+          messages: [
+            { role: "system", content: "be brief" },
+            { role: "user", content: "a" },
+            { role: "user", content: "b" },
+          ],
+          temperature: 0.9,
+        },
+      );
+      const body = JSON.parse(init.body as string);
+      const headers = init.headers as Record<string, string>;
+
+      // Then: system 提升为顶层字段，同角色消息被合并，max_tokens 有默认值
+      expect(body.system).toBe("be brief");
+      expect(body.messages).toEqual([{ role: "user", content: "a\n\nb" }]);
+      expect(body.max_tokens).toBeGreaterThan(0);
+      expect(headers["x-api-key"]).toBe("sk-test");
+      expect(headers.Authorization).toBeUndefined();
+    });
+
+    it("should clamp temperature to the 0-1 range", () => {
+      // Given: 超出 Anthropic 范围的温度
+      const provider = getChatProvider("anthropic");
+
+      // When: 构建请求
+      const { init } = provider.buildRequest(
+        endpoint({ provider: "anthropic" }),
+        { messages: [{ role: "user", content: "a" }], temperature: 1.5 },
+      );
+
+      // Then: 温度被限制为 1
+      expect(JSON.parse(init.body as string).temperature).toBe(1);
+    });
+
+    it("should parse text and thinking blocks from a non-stream response", () => {
+      // Given: 含 thinking 与 text 内容块的响应
+      const provider = getChatProvider("anthropic");
+
+      // When: 解析
+      const result = provider.parseResponse({
+        content: [
+          { type: "thinking", thinking: "hmm" },
+          { type: "text", text: "done" },
+        ],
+      });
+
+      // Then: 分别归入 reasoning 与 content
+      expect(result).toEqual({ content: "done", reasoning: "hmm" });
+    });
+  });
+
+  // ============================================================
+  // Feature: Ollama 原生 API
+  // ============================================================
+  describe("ollama provider", () => {
+    it("should send temperature inside options and skip auth without a key", () => {
+      // Given: 无 apiKey 的本地 Ollama
+      const provider = getChatProvider("ollama");
+
+      // When: 构建请求
+      const { init } = provider.buildRequest(
+        endpoint({ provider: "ollama", apiKey: "" }),
+        { messages: [{ role: "user", content: "a" }], temperature: 0.5 },
+      );
+      const body = JSON.parse(init.body as string);
+
+      // Then: 温度位于 options，且不携带 Authorization
+      expect(body.options).toEqual({ temperature: 0.5 });
+      expect(body.stream).toBe(false);
+      expect(
+        (init.headers as Record<string, string>).Authorization,
+      ).toBeUndefined();
+    });
+  });
+
+  // ============================================================
+  // Feature: 流式读取
+  // ============================================================
+  describe("readSSEStream", () => {
+    it("should accumulate OpenAI SSE deltas split across chunks", async () => {
+      // Given: 被拆分到两个网络分片中的 SSE 行
+      const response = createStreamResponse([
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choi',
+        'ces":[{"delta":{"content":"lo","reasoning":"r"}}]}\n\ndata: [DONE]\n\n',
+      ]);
+      const onDelta = vi.fn();
+
+      // When: 读取流
+      const full = await readSSEStream(
+        response,
+        getChatProvider("openai"),
+        onDelta,
+      );
+
+      // Then: 完整正文被拼接，回调按分片触发
+      expect(full).toBe("Hello");
+      expect(onDelta).toHaveBeenCalledTimes(2);
+      expect(onDelta).toHaveBeenLastCalledWith("lo", "Hello", "r");
+    });
+
+    it("should parse Anthropic events and ignore non-delta events", async () => {
+      // Given: Anthropic SSE 事件流
+      const response = createStreamResponse([
+        "event: message_start\n",
+        'data: {"type":"message_start","message":{}}\n\n',
+        "event: content_block_delta\n",
+        'data: {"type":"content_block_delta","delta":{"type":"thinking_delta","thinking":"t"}}\n\n',
+        'data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"A"}}\n\n',
+        'data: {"type":"message_stop"}\n\n',
+      ]);
+      const onDelta = vi.fn();
+
+      // When: 读取流
+      const full = await readSSEStream(
+        response,
+        getChatProvider("anthropic"),
+        onDelta,
+      );
+
+      // Then: 只有内容块增量触发回调
+      expect(full).toBe("A");
+      expect(onDelta).toHaveBeenNthCalledWith(1, "", "", "t");
+      expect(onDelta).toHaveBeenNthCalledWith(2, "A", "A", "");
+    });
+
+    it("should parse Ollama NDJSON including a trailing line without newline", async () => {
+      // Given: NDJSON 流，最后一行没有换行符
+      const response = createStreamResponse([
+        '{"message":{"content":"foo"},"done":false}\n',
+        '{"message":{"content":"bar"},"done":false}\n{"message":{"content":"!"},"done":true}',
+      ]);
+
+      // When: 读取流
+      const full = await readSSEStream(
+        response,
+        getChatProvider("ollama"),
+        () => {},
+      );
+
+      // Then: 所有行均被解析
+      expect(full).toBe("foobar!");
+    });
+  });
+
+  // ============================================================
+  // Feature: token 用量
+  // ============================================================
+  describe("usage", () => {
+    it("should omit stream_options when stream usage is disabled", () => {
+      // Given & When: 后端不支持 stream_options 时关闭流式用量
+      const { init } = getChatProvider("openai").buildRequest(endpoint(), {
+        messages: [{ role: "user", content: "hi" }],
+        stream: true,
+        streamUsage: false,
+      });
+
+      // Then
+      expect(JSON.parse(init.body as string)).not.toHaveProperty(
+        "stream_options",
+      );
+    });
+
+    it("should request stream usage and read it from the final OpenAI chunk", async () => {
+      // Given: 开启流式的 OpenAI 请求，末尾分片携带 usage
+      const { init } = getChatProvider("openai").buildRequest(endpoint(), {
+        messages: [{ role: "user", content: "hi" }],
+        stream: true,
+      });
+      const response = createStreamResponse([
+        'data: {"choices":[{"delta":{"content":"ok"}}]}\n\n',
+        'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":3}}\n\n',
+        "data: [DONE]\n\n",
+      ]);
+      const onUsage = vi.fn();
+
+      // When: 读取流
+      await readSSEStream(
+        response,
+        getChatProvider("openai"),
+        () => {},
+        onUsage,
+      );
+
+      // Then: 请求中声明 include_usage，用量在流结束时回调一次
+      expect(JSON.parse(init.body as string).stream_options).toEqual({
+        include_usage: true,
+      });
+      expect(onUsage).toHaveBeenCalledTimes(1);
+      expect(onUsage).toHaveBeenCalledWith({
+        promptTokens: 12,
+        completionTokens: 3,
+      });
+    });
+
+    it("should merge Anthropic usage spread across message_start and message_delta", async () => {
+      // Given: 输入用量在 message_start，输出用量在 message_delta
+      const response = createStreamResponse([
+        'data: {"type":"message_start","message":{"usage":{"input_tokens":20,"output_tokens":1}}}\n\n',
+        'data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"A"}}\n\n',
+        'data: {"type":"message_delta","usage":{"output_tokens":42}}\n\n',
+        'data: {"type":"message_stop"}\n\n',
+      ]);
+      const onUsage = vi.fn();
+
+      // When: 读取流
+      await readSSEStream(
+        response,
+        getChatProvider("anthropic"),
+        () => {},
+        onUsage,
+      );
+
+      // Then: 合并为一次完整用量
+      expect(onUsage).toHaveBeenCalledWith({
+        promptTokens: 20,
+        completionTokens: 42,
+      });
+    });
+
+    it("should attach usage to non-stream responses of every provider", () => {
+      // Given & When & Then: 三种协议的用量字段均被映射
+      expect(
+        getChatProvider("openai").parseResponse({
+          choices: [{ message: { content: "x" } }],
+          usage: { prompt_tokens: 5, completion_tokens: 7 },
+        }).usage,
+      ).toEqual({ promptTokens: 5, completionTokens: 7 });
+      expect(
+        getChatProvider("anthropic").parseResponse({
+          content: [],
+          usage: { input_tokens: 8, output_tokens: 2 },
+        }).usage,
+      ).toEqual({ promptTokens: 8, completionTokens: 2 });
+      expect(
+        getChatProvider("ollama").parseResponse({
+          message: { content: "x" },
+          done: true,
+          prompt_eval_count: 4,
+          eval_count: 9,
+        }).usage,
+      ).toEqual({ promptTokens: 4, completionTokens: 9 });
+    });
+
+    it("should not report usage when the backend omits it", async () => {
+      // Given: 不含 usage 的流
+      const response = createStreamResponse([
+        'data: {"choices":[{"delta":{"content":"ok"}}]}\n\ndata: [DONE]\n\n',
+      ]);
+      const onUsage = vi.fn();
+
+      // When: 读取流
+      await readSSEStream(
+        response,
+        getChatProvider("openai"),
+        () => {},
+        onUsage,
+      );
+
+      // Then: 不回调
+      expect(onUsage).not.toHaveBeenCalled();
+    });
+  });
+
+  // ============================================================
+  // Feature: 工具调用
+  // ============================================================
+  describe("tool calls", () => {
+    const tools = [
+      {
+        name: "rename_node",
+        description: "Rename a node",
+        parameters: {
+          type: "object",
+          properties: { nodeId: { type: "string" } },
+        },
+      },
+    ];
+
+    it("should send tools in each provider's request format", () => {
+      // Given: 带工具的请求
+      const request = {
+        messages: [{ role: "user" as const, content: "hi" }],
+        tools,
+      };
+
+      // When: 分别构建 OpenAI 与 Anthropic 请求
+      const openaiBody = JSON.parse(
+        String(
+          getChatProvider("openai").buildRequest(endpoint(), request).init.body,
+        ),
+      );
+      const anthropicBody = JSON.parse(
+        String(
+          getChatProvider("anthropic").buildRequest(
+            endpoint({ provider: "anthropic" }),
+            request,
+          ).init.body,
+        ),
+      );
+
+      // Then: OpenAI 使用 function 包装，Anthropic 使用 input_schema
+      expect(openaiBody.tools[0]).toEqual({
+        type: "function",
+        function: {
+          name: "rename_node",
+          description: "Rename a node",
+          parameters: tools[0].parameters,
+        },
+      });
+      expect(anthropicBody.tools[0]).toEqual({
+        name: "rename_node",
+        description: "Rename a node",
+        input_schema: tools[0].parameters,
+      });
+    });
+
+    it("should parse tool calls from non-stream responses", () => {
+      // Given: OpenAI（参数为字符串）与 Anthropic（参数为对象）的工具调用响应
+      const openai = getChatProvider("openai").parseResponse({
+        choices: [
+          {
+            message: {
+              content: null,
+              tool_calls: [
+                {
+                  id: "call_1",
+                  function: {
+                    name: "rename_node",
+                    arguments: '{"nodeId":"a"}',
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      });
+      const anthropic = getChatProvider("anthropic").parseResponse({
+        content: [
+          { type: "text", text: "ok" },
+          {
+            type: "tool_use",
+            id: "toolu_1",
+            name: "rename_node",
+            input: { nodeId: "b" },
+          },
+        ],
+      });
+
+      // Then: 统一为已解析参数的 ToolCall
+      expect(openai.toolCalls).toEqual([
+        { id: "call_1", name: "rename_node", arguments: { nodeId: "a" } },
+      ]);
+      expect(anthropic.content).toBe("ok");
+      expect(anthropic.toolCalls).toEqual([
+        { id: "toolu_1", name: "rename_node", arguments: { nodeId: "b" } },
+      ]);
+    });
+
+    it("should merge OpenAI tool call arguments streamed across chunks", async () => {
+      // Given: 参数被拆分到多个分片的工具调用
+      const response = createStreamResponse([
+        'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_1","function":{"name":"rename_node","arguments":"{\\"node"}}]}}]}\n\n',
+        'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"Id\\":\\"a\\"}"}}]}}]}\n\n',
+        "data: [DONE]\n\n",
+      ]);
+      const onToolCalls = vi.fn();
+
+      // When: 读取流
+      await readSSEStream(
+        response,
+        getChatProvider("openai"),
+        () => {},
+        undefined,
+        onToolCalls,
+      );
+
+      // Then: 流结束时回调一次完整调用
+      expect(onToolCalls).toHaveBeenCalledTimes(1);
+      expect(onToolCalls).toHaveBeenCalledWith([
+        { id: "call_1", name: "rename_node", arguments: { nodeId: "a" } },
+      ]);
+    });
+
+    it("should merge Anthropic tool_use blocks streamed as input_json_delta", async () => {
+      // Given: content_block_start 给出名称，input_json_delta 拼接参数
+      const response = createStreamResponse([
+        'data: {"type":"content_block_start","index":1,"content_block":{"type":"tool_use","id":"toolu_1","name":"rename_node","input":{}}}\n\n',
+        'data: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":"{\\"nodeId\\":"}}\n\n',
+        'data: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":"\\"b\\"}"}}\n\n',
+        'data: {"type":"message_stop"}\n\n',
+      ]);
+      const onToolCalls = vi.fn();
+
+      // When: 读取流
+      await readSSEStream(
+        response,
+        getChatProvider("anthropic"),
+        () => {},
+        undefined,
+        onToolCalls,
+      );
+
+      // Then: 参数被完整解析
+      expect(onToolCalls).toHaveBeenCalledWith([
+        { id: "toolu_1", name: "rename_node", arguments: { nodeId: "b" } },
+      ]);
+    });
+
+    it("should keep Ollama tool calls sent in separate NDJSON chunks apart", async () => {
+      // Given: 两个完整的工具调用分别位于两个分片（各自从 0 编号）
+      const response = createStreamResponse([
+        '{"message":{"content":"","tool_calls":[{"function":{"name":"rename_node","arguments":{"nodeId":"a"}}}]},"done":false}\n',
+        '{"message":{"content":"","tool_calls":[{"function":{"name":"add_sticky_note","arguments":{"text":"b"}}}]},"done":false}\n',
+        '{"message":{"content":""},"done":true}\n',
+      ]);
+      const onToolCalls = vi.fn();
+
+      // When: 读取流
+      await readSSEStream(
+        response,
+        getChatProvider("ollama"),
+        () => {},
+        undefined,
+        onToolCalls,
+      );
+
+      // Then: 两个调用分别保留，id 不重复
+      expect(onToolCalls).toHaveBeenCalledWith([
+        { id: "call-0", name: "rename_node", arguments: { nodeId: "a" } },
+        { id: "call-1", name: "add_sticky_note", arguments: { text: "b" } },
+      ]);
+    });
+
+    it("should not report tool calls for plain text streams", async () => {
+      // Given: 不含工具调用的流
+      const response = createStreamResponse([
+        'data: {"choices":[{"delta":{"content":"ok"}}]}\n\ndata: [DONE]\n\n',
+      ]);
+      const onToolCalls = vi.fn();
+
+      // When: 读取流
+      await readSSEStream(
+        response,
+        getChatProvider("openai"),
+        () => {},
+        undefined,
+        onToolCalls,
+      );
+
+      // Then: 不回调
+      expect(onToolCalls).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * mapTranslation BDD 测试
+ * 测试翻译分批、译文合并与语言层的展示回退
+ */
+import { describe, it, expect } from "vitest";
+import {
+  buildTranslationBatches,
+  getMapLanguages,
+  getTranslatedText,
+  mergeTranslations,
+  toTranslationItem,
+  type TranslationItem,
+} from "../mapTranslation";
+
+const item = (id: string, label = id): TranslationItem => ({
+  id,
+  label,
+  description: "",
+});
+
+describe("mapTranslation", () => {
+  // ============================================================
+  // Feature: 分批
+  // ============================================================
+  describe("buildTranslationBatches", () => {
+    it("should split by item count and estimated tokens", () => {
+      // Given: 5 个短节点与 1 个长节点
+      const items = [
+        ...["a", "b", "c", "d", "e"].map((id) => item(id)),
+        { ...item("long"), detailedContent: "x".repeat(4000) },
+      ];
+
+      // When: 每批最多 2 条、500 token
+      const batches = buildTranslationBatches(items, 500, 2);
+
+      // Then: 长节点独占一批
+      expect(batches.map((b) => b.map((i) => i.id))).toEqual([
+        ["a", "b"],
+        ["c", "d"],
+        ["e"],
+        ["long"],
+      ]);
+    });
+
+    it("should only include detailed content when the node has it", () => {
+      // Given & When & Then
+      expect(
+        toTranslationItem({ id: "n1", data: { label: "A", description: "d" } }),
+      ).toEqual({ id: "n1", label: "A", description: "d" });
+    });
+  });
+
+  // ============================================================
+  // Feature: 合并
+  // ============================================================
+  describe("mergeTranslations", () => {
+    it("should ignore unknown ids and keep the original for missing fields", () => {
+      // Given
+      const batch = [
+        { ...item("n1", "你好"), description: "描述", detailedContent: "正文" },
+      ];
+
+      // When: 模型漏掉了 detailedContent，并多返回了一个不存在的节点
+      const result = mergeTranslations(batch, [
+        { id: "n1", label: "Hello", description: "Description" },
+        { id: "ghost", label: "Ghost", description: "" },
+      ]);
+
+      // Then
+      expect([...result.keys()]).toEqual(["n1"]);
+      expect(result.get("n1")).toEqual({
+        label: "Hello",
+        description: "Description",
+        detailedContent: "正文",
+      });
+    });
+  });
+
+  // ============================================================
+  // Feature: 语言层
+  // ============================================================
+  describe("getTranslatedText / getMapLanguages", () => {
+    it("should show the selected layer and fall back to the original text", () => {
+      // Given
+      const data = {
+        label: "你好",
+        description: "描述",
+        translations: { en: { label: "Hello", description: "" } },
+      };
+
+      // When & Then
+      expect(getTranslatedText(data, "en", "label")).toBe("Hello");
+      expect(getTranslatedText(data, "en", "description")).toBe("描述");
+      expect(getTranslatedText(data, "ja", "label")).toBe("你好");
+      expect(getTranslatedText(data, null, "label")).toBe("你好");
+    });
+
+    it("should list every language layer found on the map", () => {
+      // Given & When
+      const languages = getMapLanguages([
+        { data: { translations: { en: {} } } },
+        { data: {} },
+        { data: { translations: { ja: {}, en: {} } } },
+      ]);
+
+      // Then
+      expect(languages).toEqual(["en", "ja"]);
+    });
+  });
+});
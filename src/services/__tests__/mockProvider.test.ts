@@ -0,0 +1,216 @@
+/**
+ * mockProvider BDD 测试
+ * 测试离线 Mock 的内容生成（确定性、符合 schema）以及经由 readSSEStream 的流式解析
+ */
+import { describe, it, expect, vi } from "vitest";
+import { generateMockContent, mockFetch } from "../mockProvider";
+import { getChatProvider, readSSEStream, type ToolCall } from "../llmProviders";
+import { GRAPH_EDIT_TOOLS } from "../graphTools";
+import {
+  DERIVED_QUESTIONS_SCHEMA,
+  EXPANSION_SCHEMA,
+  parseStructured,
+  TRANSLATION_SCHEMA,
+} from "../structuredOutput";
+import type { TokenUsage } from "../usage";
+import i18n from "@/i18n";
+
+const messages = [{ role: "user" as const, content: "量子计算" }];
+
+describe("mockProvider", () => {
+  // ============================================================
+  // Feature: 内容生成
+  // ============================================================
+  describe("generateMockContent", () => {
+    it("should return the same content for the same request", () => {
+      // Given & When & Then
+      expect(generateMockContent("deepDive", messages)).toBe(
+        generateMockContent("deepDive", messages),
+      );
+      expect(
+        generateMockContent("deepDive", [{ role: "user", content: "其他" }]),
+      ).not.toBe(generateMockContent("deepDive", messages));
+    });
+
+    it("should produce structured output matching the expansion and question schemas", () => {
+      // Given & When
+      const expansion = parseStructured(
+        generateMockContent("expand", messages),
+        EXPANSION_SCHEMA,
+      );
+      const questions = parseStructured(
+        generateMockContent("derivedQuestions", messages),
+        DERIVED_QUESTIONS_SCHEMA,
+      );
+
+      // Then
+      expect(expansion.ok).toBe(true);
+      expect(questions.ok).toBe(true);
+    });
+
+    it("should follow the prompt language", () => {
+      // Given & When
+      const zh = generateMockContent("chat", messages);
+      const en = generateMockContent("chat", [
+        { role: "user", content: "quantum computing" },
+      ]);
+
+      // Then
+      expect(zh).toMatch(/[一-龥]/);
+      expect(en).not.toMatch(/[一-龥]/);
+    });
+
+    it("should cite the first listed node in graph chat answers", () => {
+      // Given: 图谱对话的 system prompt 列出节点 id
+      const system = {
+        role: "system" as const,
+        content:
+          "[Node]: Solar\n- tip: not an id\nNode ids:\n- root-1: Solar\n- node-2: Panels",
+      };
+
+      // When
+      const content = generateMockContent("chat", [system, ...messages]);
+
+      // Then: 引用 id 列表中的第一个节点
+      expect(content).toMatch(/\[\[root-1\]\]$/);
+    });
+
+    it.each(["en", "zh"] as const)(
+      "should translate every node of the real %s translate prompt",
+      (locale) => {
+        // Given: 真实的翻译 prompt（节点数组之后还有带 [...] 的返回格式示例）
+        const batch = [
+          { id: "root-1", label: "Solar [PV]", description: "Energy" },
+          { id: "node-2", label: "Storage", description: "Batteries" },
+        ];
+        const content = i18n.global.t(
+          "prompts.translateMap",
+          { language: "French", items: JSON.stringify(batch, null, 2) },
+          { locale },
+        );
+
+        // When
+        const result = parseStructured<{ items: { id: string }[] }>(
+          generateMockContent("translate", [{ role: "user", content }]),
+          TRANSLATION_SCHEMA,
+        );
+
+        // Then: 每个节点都有译文
+        expect(result.ok).toBe(true);
+        expect(result.ok && result.value.items.map((item) => item.id)).toEqual([
+          "root-1",
+          "node-2",
+        ]);
+      },
+    );
+  });
+
+  // ============================================================
+  // Feature: 模拟响应
+  // ============================================================
+  describe("mockFetch", () => {
+    it("should stream SSE that readSSEStream parses into the full content and usage", async () => {
+      // Given
+      const provider = getChatProvider("mock");
+      const { init } = provider.buildRequest(
+        { provider: "mock", baseUrl: "", model: "", apiKey: "" },
+        { messages, stream: true },
+      );
+      const deltas: string[] = [];
+      let usage: TokenUsage | undefined;
+
+      // When
+      const response = await mockFetch("summary", init);
+      const content = await readSSEStream(
+        response,
+        provider,
+        (delta) => deltas.push(delta),
+        (u) => (usage = u),
+      );
+
+      // Then: 多个分片拼接为与非流式相同的内容
+      expect(deltas.length).toBeGreaterThan(1);
+      expect(content).toBe(generateMockContent("summary", messages));
+      expect(usage?.completionTokens).toBeGreaterThan(0);
+    });
+
+    it("should stream a sticky note tool call when asked to take a note", async () => {
+      // Given: 带图谱编辑工具、要求记便签的对话请求
+      const provider = getChatProvider("mock");
+      const { init } = provider.buildRequest(
+        { provider: "mock", baseUrl: "", model: "", apiKey: "" },
+        {
+          messages: [{ role: "user", content: "帮我记下：复习第三章" }],
+          stream: true,
+          tools: GRAPH_EDIT_TOOLS,
+        },
+      );
+      let toolCalls: ToolCall[] = [];
+
+      // When
+      const response = await mockFetch("chat", init);
+      await readSSEStream(
+        response,
+        provider,
+        () => {},
+        undefined,
+        (calls) => (toolCalls = calls),
+      );
+
+      // Then: 解析出一次 add_sticky_note 调用
+      expect(toolCalls).toHaveLength(1);
+      expect(toolCalls[0].name).toBe("add_sticky_note");
+      expect(toolCalls[0].arguments).toEqual({ text: "帮我记下：复习第三章" });
+    });
+
+    it("should return an image url for image requests", async () => {
+      // Given
+      const init = { method: "POST", body: JSON.stringify({ messages }) };
+
+      // When
+      const data = await (await mockFetch("image", init)).json();
+
+      // Then
+      expect(data.choices[0].message.images[0].image_url.url).toMatch(
+        /^data:image\/svg\+xml/,
+      );
+    });
+
+    it("should not leave abort listeners behind after streaming", async () => {
+      // Given: 可观察监听增减的 signal
+      const provider = getChatProvider("mock");
+      const controller = new AbortController();
+      const added = vi.spyOn(controller.signal, "addEventListener");
+      const removed = vi.spyOn(controller.signal, "removeEventListener");
+      const { init } = provider.buildRequest(
+        { provider: "mock", baseUrl: "", model: "", apiKey: "" },
+        { messages, stream: true },
+      );
+
+      // When: 读完整个流式响应
+      const response = await mockFetch("summary", {
+        ...init,
+        signal: controller.signal,
+      });
+      await readSSEStream(response, provider, () => {});
+
+      // Then: 每个分片的等待都移除了自己的监听
+      expect(added.mock.calls.length).toBeGreaterThan(1);
+      expect(removed).toHaveBeenCalledTimes(added.mock.calls.length);
+    });
+
+    it("should reject with AbortError when the signal is aborted", async () => {
+      // Given
+      const controller = new AbortController();
+      controller.abort();
+
+      // When & Then
+      await expect(
+        mockFetch("chat", {
+          body: JSON.stringify({ messages, stream: true }),
+          signal: controller.signal,
+        }),
+      ).rejects.toMatchObject({ name: "AbortError" });
+    });
+  });
+});
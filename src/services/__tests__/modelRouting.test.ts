@@ -0,0 +1,89 @@
+/**
+ * modelRouting BDD 测试
+ * 测试路由表解析与按动作选择端点
+ */
+import { describe, it, expect } from "vitest";
+import {
+  createEmptyRouting,
+  createModelProfile,
+  parseRouting,
+  resolveRoutedEndpoint,
+} from "../modelRouting";
+import type { ChatEndpoint } from "../llmProviders";
+
+const fallbackEndpoint: ChatEndpoint = {
+  provider: "openai",
+  baseUrl: "https://default.example.com",
+  model: "default-model",
+  apiKey: "sk-default",
+};
+
+describe("modelRouting", () => {
+  // ============================================================
+  // Feature: 路由表持久化
+  // ============================================================
+  describe("parseRouting", () => {
+    it("should fill actions missing from saved routing with the default", () => {
+      // Given: 旧版本保存的路由表只包含部分动作，且含未知字段
+      const saved = JSON.stringify({ deepDive: "p1", unknown: "x" });
+
+      // When
+      const routing = parseRouting(saved);
+
+      // Then: 已保存的保留，其余为空（默认接口），未知字段丢弃
+      expect(routing).toEqual({ ...createEmptyRouting(), deepDive: "p1" });
+    });
+
+    it("should fall back to an empty routing for corrupted data", () => {
+      // Given & When & Then
+      expect(parseRouting("{oops")).toEqual(createEmptyRouting());
+      expect(parseRouting(null)).toEqual(createEmptyRouting());
+    });
+  });
+
+  // ============================================================
+  // Feature: 按动作选择端点
+  // ============================================================
+  describe("resolveRoutedEndpoint", () => {
+    it("should use the profile assigned to the action", () => {
+      // Given: 深挖路由到强模型
+      const strong = createModelProfile({
+        name: "Strong",
+        provider: "anthropic",
+        baseUrl: "https://api.anthropic.com/v1/messages",
+        model: "strong-model",
+        apiKey: "sk-strong",
+      });
+      const routing = { ...createEmptyRouting(), deepDive: strong.id };
+
+      // When
+      const endpoint = resolveRoutedEndpoint(
+        "deepDive",
+        [strong],
+        routing,
+        () => fallbackEndpoint,
+      );
+
+      // Then: 只返回端点字段
+      expect(endpoint).toEqual({
+        provider: "anthropic",
+        baseUrl: "https://api.anthropic.com/v1/messages",
+        model: "strong-model",
+        apiKey: "sk-strong",
+      });
+    });
+
+    it("should fall back for unassigned actions and deleted profiles", () => {
+      // Given: 总结指向已删除的 Profile，对话未路由
+      const routing = { ...createEmptyRouting(), summary: "profile-gone" };
+
+      // When & Then
+      expect(
+        resolveRoutedEndpoint("summary", [], routing, () => fallbackEndpoint),
+      ).toBe(fallbackEndpoint);
+      expect(
+        resolveRoutedEndpoint("chat", [], routing, () => fallbackEndpoint),
+      ).toBe(fallbackEndpoint);
+    });
+  });
+});
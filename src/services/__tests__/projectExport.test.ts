@@ -0,0 +1,74 @@
+/**
+ * projectExport BDD 测试
+ * 测试 JSON 导出包含回答与思考过程，并去掉临时状态与内联图片
+ */
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/supabase", () => ({
+  supabase: { storage: { from: vi.fn() } },
+}));
+
+import { PROJECT_EXPORT_VERSION, buildProjectExport } from "../projectExport";
+
+describe("projectExport", () => {
+  it("should include answers and reasoning for every node", () => {
+    // Given
+    const nodes = [
+      {
+        id: "root",
+        type: "window",
+        position: { x: 0, y: 0 },
+        data: {
+          label: "根",
+          detailedContent: "回答",
+          reasoningContent: "先分析问题，再给出结论",
+        },
+      },
+    ];
+
+    // When
+    const result = buildProjectExport(
+      nodes,
+      [{ id: "e1", source: "root", target: "a", style: { stroke: "#000" } }],
+      new Date("2026-01-01T00:00:00Z"),
+    );
+
+    // Then
+    expect(result.version).toBe(PROJECT_EXPORT_VERSION);
+    expect(result.exportedAt).toBe("2026-01-01T00:00:00.000Z");
+    expect(result.nodes[0].data).toMatchObject({
+      detailedContent: "回答",
+      reasoningContent: "先分析问题，再给出结论",
+    });
+    expect(result.edges).toEqual([{ id: "e1", source: "root", target: "a" }]);
+  });
+
+  it("should drop transient generation state and inline image data", () => {
+    // Given
+    const nodes = [
+      {
+        id: "a",
+        type: "window",
+        position: { x: 0, y: 0 },
+        data: {
+          label: "A",
+          isDeepDiving: true,
+          retryStatus: { attempt: 1, maxAttempts: 3 },
+          error: "boom",
+          imageUrl: "data:image/png;base64,AAAA",
+          imagePath: "supabase:p/a.png",
+        },
+      },
+    ];
+
+    // When
+    const [node] = buildProjectExport(nodes, []).nodes;
+
+    // Then
+    expect(node.data).toEqual({
+      label: "A",
+      imageUrl: null,
+      imagePath: "supabase:p/a.png",
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * promptTemplates BDD 测试
+ * 测试覆盖优先级、占位符校验与模板渲染
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  findMissingPlaceholders,
+  getPromptStorageKey,
+  loadPromptOverrides,
+  renderPromptTemplate,
+  resolvePromptOverride,
+  savePromptOverrides,
+} from "../promptTemplates";
+
+describe("promptTemplates", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  // ============================================================
+  // Feature: 覆盖优先级
+  // ============================================================
+  describe("resolvePromptOverride", () => {
+    it("should prefer project overrides over user overrides", () => {
+      // Given: 全局与项目均覆盖了总结模板
+      const user = { summaryPrompt: "user {nodes}", image: "user {topic}" };
+      const project = { summaryPrompt: "project {nodes}" };
+
+      // When & Then: 项目优先；项目未覆盖时用全局；都未覆盖为 undefined
+      expect(resolvePromptOverride("summaryPrompt", project, user)).toBe(
+        "project {nodes}",
+      );
+      expect(resolvePromptOverride("image", project, user)).toBe(
+        "user {topic}",
+      );
+      expect(resolvePromptOverride("system", project, user)).toBeUndefined();
+    });
+  });
+
+  // ============================================================
+  // Feature: 占位符校验
+  // ============================================================
+  describe("findMissingPlaceholders", () => {
+    it("should list required placeholders absent from the template", () => {
+      // Given & When & Then
+      expect(
+        findMissingPlaceholders(
+          "deepDivePrompt",
+          "Explain {topic} in {context}",
+        ),
+      ).toEqual(["rootTopic"]);
+      expect(findMissingPlaceholders("summaryPrompt", "{nodes}")).toEqual([]);
+      expect(findMissingPlaceholders("system", "anything")).toEqual([]);
+    });
+  });
+
+  // ============================================================
+  // Feature: 渲染
+  // ============================================================
+  describe("renderPromptTemplate", () => {
+    it("should replace known params and keep other braces", () => {
+      // Given: 模板中含 JSON 示例
+      const template = 'Topic: {topic}\nReturn {"answer": "..."} {unknown}';
+
+      // When
+      const rendered = renderPromptTemplate(template, { topic: "AI" });
+
+      // Then
+      expect(rendered).toBe('Topic: AI\nReturn {"answer": "..."} {unknown}');
+    });
+  });
+
+  // ============================================================
+  // Feature: 持久化
+  // ============================================================
+  describe("storage", () => {
+    it("should store user and project overrides under separate keys", () => {
+      // Given
+      const userKey = getPromptStorageKey("user");
+      const projectKey = getPromptStorageKey("project", "p1");
+
+      // When
+      savePromptOverrides(userKey, { system: "a" });
+      savePromptOverrides(projectKey, { system: "b" });
+
+      // Then
+      expect(projectKey).toBe("thinkflow_p1_prompt_overrides");
+      expect(loadPromptOverrides(userKey)).toEqual({ system: "a" });
+      expect(loadPromptOverrides(projectKey)).toEqual({ system: "b" });
+    });
+
+    it("should remove the entry once every override is reset", () => {
+      // Given: 已保存覆盖
+      const key = getPromptStorageKey("user");
+      savePromptOverrides(key, { system: "a" });
+
+      // When: 全部恢复默认
+      savePromptOverrides(key, {});
+
+      // Then
+      expect(localStorage.getItem(key)).toBeNull();
+    });
+  });
+});
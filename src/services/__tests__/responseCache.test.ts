@@ -0,0 +1,91 @@
+/**
+ * responseCache BDD 测试
+ * 测试缓存键的组成、有效期判断，以及 IndexedDB 不可用时的降级
+ */
+import { describe, it, expect } from "vitest";
+import {
+  buildCacheKey,
+  isCacheEntryFresh,
+  readCachedResponse,
+  writeCachedResponse,
+} from "../responseCache";
+
+const baseParts = {
+  provider: "openai",
+  baseUrl: "https://api.example.com",
+  model: "model-a",
+  context: "根 -> 子节点",
+  messages: [{ role: "user" as const, content: "深挖这个节点" }],
+};
+
+describe("responseCache", () => {
+  // ============================================================
+  // Feature: 缓存键
+  // ============================================================
+  describe("buildCacheKey", () => {
+    it("should produce the same key for identical requests", () => {
+      // Given & When & Then
+      expect(buildCacheKey(baseParts)).toBe(
+        buildCacheKey({ ...baseParts, messages: [...baseParts.messages] }),
+      );
+    });
+
+    it("should change when the model, prompt or context path changes", () => {
+      // Given
+      const key = buildCacheKey(baseParts);
+
+      // When & Then
+      expect(buildCacheKey({ ...baseParts, model: "model-b" })).not.toBe(key);
+      expect(
+        buildCacheKey({
+          ...baseParts,
+          messages: [{ role: "user", content: "另一个 prompt" }],
+        }),
+      ).not.toBe(key);
+      expect(buildCacheKey({ ...baseParts, context: "根 -> 其他" })).not.toBe(
+        key,
+      );
+    });
+
+    it("should ignore fields other than provider, url, model, context and messages", () => {
+      // Given: 端点中的 apiKey 不应进入缓存键
+      const withKey = { ...baseParts, apiKey: "sk-secret" };
+
+      // When
+      const key = buildCacheKey(withKey);
+
+      // Then
+      expect(key).toBe(buildCacheKey(baseParts));
+      expect(key).not.toContain("sk-secret");
+    });
+  });
+
+  // ============================================================
+  // Feature: 有效期
+  // ============================================================
+  describe("isCacheEntryFresh", () => {
+    it("should treat entries older than the TTL as expired", () => {
+      // Given
+      const entry = { content: "x", reasoning: "", createdAt: 1_000 };
+
+      // When & Then
+      expect(isCacheEntryFresh(entry, 500, 1_400)).toBe(true);
+      expect(isCacheEntryFresh(entry, 500, 1_500)).toBe(false);
+    });
+  });
+
+  // ============================================================
+  // Feature: 降级
+  // ============================================================
+  describe("without IndexedDB", () => {
+    it("should miss silently instead of failing the request", async () => {
+      // Given: jsdom 环境没有 IndexedDB
+
+      // When
+      await writeCachedResponse("k", { content: "x", reasoning: "" });
+
+      // Then
+      expect(await readCachedResponse("k", 1_000)).toBeNull();
+    });
+  });
+});
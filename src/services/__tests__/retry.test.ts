@@ -0,0 +1,151 @@
+/**
+ * retry BDD 测试
+ * 测试重试判定、Retry-After 解析与退避执行
+ */
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  getRetryDelay,
+  isRetryableError,
+  parseRetryAfter,
+  withRetry,
+} from "../retry";
+
+const httpError = (status: number, retryAfterMs?: number) => {
+  const error: any = new Error(`HTTP ${status}`);
+  error.status = status;
+  if (retryAfterMs !== undefined) error.retryAfterMs = retryAfterMs;
+  return error;
+};
+
+describe("retry", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // ============================================================
+  // Feature: 重试判定
+  // ============================================================
+  describe("isRetryableError", () => {
+    it("should retry rate limits, server errors and network failures", () => {
+      // Given & When & Then: 429 / 5xx / fetch 网络异常可重试
+      expect(isRetryableError(httpError(429))).toBe(true);
+      expect(isRetryableError(httpError(503))).toBe(true);
+      expect(isRetryableError(new TypeError("Failed to fetch"))).toBe(true);
+    });
+
+    it("should not retry client errors or user aborts", () => {
+      // Given & When & Then: 400 与主动停止不重试
+      expect(isRetryableError(httpError(400))).toBe(false);
+      expect(isRetryableError(new DOMException("Aborted", "AbortError"))).toBe(
+        false,
+      );
+    });
+  });
+
+  // ============================================================
+  // Feature: Retry-After 解析
+  // ============================================================
+  describe("parseRetryAfter", () => {
+    it("should parse seconds and HTTP dates", () => {
+      // Given: 秒数与 HTTP 日期两种格式
+      const now = Date.parse("2025-01-01T00:00:00Z");
+
+      // When & Then
+      expect(parseRetryAfter("5")).toBe(5000);
+      expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:10 GMT", now)).toBe(10000);
+      expect(parseRetryAfter("soon")).toBeNull();
+      expect(parseRetryAfter(null)).toBeNull();
+    });
+  });
+
+  // ============================================================
+  // Feature: 退避时长
+  // ============================================================
+  describe("getRetryDelay", () => {
+    it("should prefer the server provided Retry-After", () => {
+      // Given: 服务端要求 7 秒后重试
+      // When & Then: 直接使用该值
+      expect(getRetryDelay(1, httpError(429, 7000))).toBe(7000);
+    });
+
+    it("should grow exponentially and stay under the cap", () => {
+      // Given: 无 Retry-After，去除抖动
+      vi.spyOn(Math, "random").mockReturnValue(0);
+
+      // When & Then: 1s -> 2s -> 4s，且不超过上限
+      expect(getRetryDelay(1, httpError(500), 1000, 30000)).toBe(1000);
+      expect(getRetryDelay(3, httpError(500), 1000, 30000)).toBe(4000);
+      expect(getRetryDelay(10, httpError(500), 1000, 30000)).toBe(30000);
+      vi.restoreAllMocks();
+    });
+  });
+
+  // ============================================================
+  // Feature: 执行重试
+  // ============================================================
+  describe("withRetry", () => {
+    it("should retry until success and report progress", async () => {
+      // Given: 前两次 503，第三次成功
+      vi.useFakeTimers();
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(httpError(503, 10))
+        .mockRejectedValueOnce(httpError(503, 10))
+        .mockResolvedValue("ok");
+      const onRetry = vi.fn();
+
+      // When
+      const pending = withRetry(fn, { maxAttempts: 3, onRetry });
+      await vi.runAllTimersAsync();
+
+      // Then: 共尝试 3 次，重试进度为 2/3、3/3
+      await expect(pending).resolves.toBe("ok");
+      expect(fn).toHaveBeenCalledTimes(3);
+      expect(onRetry.mock.calls.map(([info]) => info.attempt)).toEqual([2, 3]);
+      expect(onRetry.mock.calls[0][0].maxAttempts).toBe(3);
+    });
+
+    it("should throw the last error once attempts are exhausted", async () => {
+      // Given: 始终 429
+      vi.useFakeTimers();
+      const fn = vi.fn().mockRejectedValue(httpError(429, 10));
+
+      // When
+      const pending = withRetry(fn, { maxAttempts: 2 });
+      const assertion = expect(pending).rejects.toMatchObject({ status: 429 });
+      await vi.runAllTimersAsync();
+
+      // Then
+      await assertion;
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry non-retryable errors", async () => {
+      // Given: 400 错误
+      const fn = vi.fn().mockRejectedValue(httpError(400));
+
+      // When & Then: 只尝试一次
+      await expect(withRetry(fn, { maxAttempts: 3 })).rejects.toMatchObject({
+        status: 400,
+      });
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop waiting when the signal is aborted", async () => {
+      // Given: 503 后进入等待
+      const controller = new AbortController();
+      const fn = vi.fn().mockRejectedValue(httpError(503, 60000));
+
+      // When: 等待期间用户停止
+      const pending = withRetry(fn, {
+        maxAttempts: 3,
+        signal: controller.signal,
+        onRetry: () => controller.abort(),
+      });
+
+      // Then: 以 AbortError 结束，不再发起请求
+      await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * streamingJson BDD 测试
+ * 测试增量 JSON 解析：跨块的字符串 / 转义、元素逐个回调、键顺序与嵌套、围栏与非法输入
+ */
+import { describe, it, expect } from "vitest";
+import { createStreamingJsonParser, type JsonPath } from "../streamingJson";
+
+/**
+ * 按给定块写入并收集回调
+ */
+const parse = (chunks: string[]) => {
+  const values: { path: JsonPath; value: unknown }[] = [];
+  const parser = createStreamingJsonParser((path, value) =>
+    values.push({ path, value }),
+  );
+  for (const chunk of chunks) parser.write(chunk);
+  return { parser, values };
+};
+
+const nodeItems = (values: { path: JsonPath; value: unknown }[]) =>
+  values
+    .filter((v) => v.path.length === 2 && v.path[0] === "nodes")
+    .map((v) => v.value);
+
+describe("streamingJson", () => {
+  // ============================================================
+  // Feature: 增量回调
+  // ============================================================
+  describe("createStreamingJsonParser", () => {
+    it("should emit each array item as soon as it is complete", () => {
+      // Given
+      const values: { path: JsonPath; value: unknown }[] = [];
+      const parser = createStreamingJsonParser((path, value) =>
+        values.push({ path, value }),
+      );
+
+      // When: 第一个元素结束、第二个元素尚未结束
+      parser.write('{"overview": "Intro", "nodes": [{"text": "A", "desc');
+      parser.write('ription": "first"}, {"text": "B"');
+
+      // Then
+      expect(values.find((v) => v.path[0] === "overview")?.value).toBe("Intro");
+      expect(nodeItems(values)).toEqual([{ text: "A", description: "first" }]);
+
+      // When: 剩余部分到达
+      parser.write(', "description": "second"}]}');
+
+      // Then: 第二个元素与根值完成
+      expect(nodeItems(values)).toEqual([
+        { text: "A", description: "first" },
+        { text: "B", description: "second" },
+      ]);
+      expect(parser.done).toBe(true);
+      expect(values.at(-1)!.path).toEqual([]);
+    });
+
+    it("should produce the same result when fed one character at a time", () => {
+      // Given: 含转义、unicode、嵌套与数字 / 字面量
+      const json = JSON.stringify({
+        nodes: [
+          {
+            description: 'He said "hi"\\n',
+            text: "Café ✓ 😀",
+            meta: { tags: ["x", "y"], score: -1.5e2, ok: true, none: null },
+          },
+        ],
+      }).replace("✓", "\\u2713");
+
+      // When
+      const { values, parser } = parse([...json]);
+
+      // Then
+      expect(parser.done).toBe(true);
+      expect(values.at(-1)!.value).toEqual(JSON.parse(json));
+      expect(nodeItems(values)).toEqual(JSON.parse(json).nodes);
+      expect(values.map((v) => v.path)).toContainEqual([
+        "nodes",
+        0,
+        "meta",
+        "tags",
+        1,
+      ]);
+    });
+
+    it("should skip fences and prose around the root value", () => {
+      // Given & When
+      const { values, parser } = parse([
+        "Sure! Here it is:\n```json\n",
+        '{"questions": ["Why?", "How?"]}',
+        "\n```\nAnything else?",
+      ]);
+
+      // Then
+      expect(parser.done).toBe(true);
+      expect(parser.failed).toBe(false);
+      expect(
+        values.filter((v) => v.path[0] === "questions").map((v) => v.value),
+      ).toEqual(["Why?", "How?", ["Why?", "How?"]]);
+    });
+
+    it("should accept empty containers and trailing commas", () => {
+      // Given & When
+      const { values, parser } = parse(['{"a": [], "b": {}, "c": [1, 2,],}']);
+
+      // Then
+      expect(parser.failed).toBe(false);
+      expect(values.at(-1)!.value).toEqual({ a: [], b: {}, c: [1, 2] });
+    });
+
+    it("should stop at invalid JSON but keep what was already emitted", () => {
+      // Given & When
+      const { values, parser } = parse([
+        '{"nodes": [{"text": "A", "description": ""}, {"text": oops}]}',
+      ]);
+
+      // Then
+      expect(parser.failed).toBe(true);
+      expect(parser.done).toBe(false);
+      expect(nodeItems(values)).toEqual([{ text: "A", description: "" }]);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * structuredOutput BDD 测试
+ * 测试 schema 校验与宽松解析
+ */
+import { describe, it, expect } from "vitest";
+import {
+  DERIVED_QUESTIONS_SCHEMA,
+  EXPANSION_SCHEMA,
+  lenientParseJson,
+  parseStructured,
+  validateSchema,
+} from "../structuredOutput";
+
+describe("structuredOutput", () => {
+  // ============================================================
+  // Feature: schema 校验
+  // ============================================================
+  describe("validateSchema", () => {
+    it("should accept a well-formed expansion", () => {
+      // Given: 符合约定的扩展结果（允许多余字段）
+      const value = {
+        overview: "o",
+        nodes: [{ text: "a", description: "b", extra: 1 }],
+      };
+
+      // When & Then
+      expect(validateSchema(value, EXPANSION_SCHEMA)).toEqual([]);
+    });
+
+    it("should accept an expansion without overview", () => {
+      // Given: 系统 prompt 只要求 nodes
+      const value = { nodes: [{ text: "a", description: "b" }] };
+
+      // When & Then
+      expect(validateSchema(value, EXPANSION_SCHEMA)).toEqual([]);
+    });
+
+    it("should report the path of every violation", () => {
+      // Given: 子节点缺字段且类型错误
+      const value = { nodes: [{ text: "" }, { text: 1, description: "d" }] };
+
+      // When
+      const errors = validateSchema(value, EXPANSION_SCHEMA);
+
+      // Then
+      expect(errors).toEqual([
+        "$.nodes[0].description is required",
+        "$.nodes[0].text should not be empty",
+        "$.nodes[1].text should be a string",
+      ]);
+    });
+
+    it("should reject an empty questions list", () => {
+      // Given & When & Then
+      expect(
+        validateSchema({ questions: [] }, DERIVED_QUESTIONS_SCHEMA),
+      ).toEqual(["$.questions should have at least 1 item(s)"]);
+    });
+  });
+
+  // ============================================================
+  // Feature: 宽松解析
+  // ============================================================
+  describe("lenientParseJson", () => {
+    it("should strip fences, surrounding prose and trailing commas", () => {
+      // Given: 带围栏、说明文字与尾逗号的输出
+      const raw =
+        'Sure! Here it is:\n```json\n{"questions": ["a", "b",],}\n```\nHope it helps.';
+
+      // When & Then
+      expect(lenientParseJson(raw)).toEqual({ questions: ["a", "b"] });
+    });
+
+    it("should keep string content untouched when the JSON is already valid", () => {
+      // Given: 合法 JSON，字符串中包含逗号与右括号
+      const raw = '{"questions": ["a, ]"]}';
+
+      // When & Then
+      expect(lenientParseJson(raw)).toEqual({ questions: ["a, ]"] });
+    });
+
+    it("should throw when no JSON can be found", () => {
+      // Given & When & Then
+      expect(() => lenientParseJson("no json here")).toThrow(SyntaxError);
+    });
+  });
+
+  // ============================================================
+  // Feature: 解析 + 校验
+  // ============================================================
+  describe("parseStructured", () => {
+    it("should return the value when parsing and validation succeed", () => {
+      // Given & When
+      const result = parseStructured(
+        '{"questions":["q"]}',
+        DERIVED_QUESTIONS_SCHEMA,
+      );
+
+      // Then
+      expect(result).toEqual({ ok: true, value: { questions: ["q"] } });
+    });
+
+    it("should return a readable error for invalid output", () => {
+      // Given: 可解析但结构不符；以及完全无法解析
+      const wrongShape = parseStructured(
+        '{"items":["q"]}',
+        DERIVED_QUESTIONS_SCHEMA,
+      );
+      const broken = parseStructured(
+        '{"questions": ["q"',
+        DERIVED_QUESTIONS_SCHEMA,
+      );
+
+      // Then: 错误信息可直接拼入修复提示
+      expect(wrongShape).toEqual({
+        ok: false,
+        error: "$.questions is required",
+      });
+      expect(broken.ok).toBe(false);
+      if (!broken.ok) expect(broken.error).toMatch(/^not valid JSON/);
+    });
+  });
+});
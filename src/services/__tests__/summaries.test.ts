@@ -0,0 +1,102 @@
+/**
+ * summaries BDD 测试
+ * 测试总结格式与 Prompt 的对应、总结历史的持久化与逐行对比
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createSavedSummary,
+  diffLines,
+  getSummariesStorageKey,
+  getSummaryPromptKey,
+  loadSummaries,
+  MAX_SAVED_SUMMARIES,
+  saveSummaries,
+} from "../summaries";
+
+describe("summaries", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  // ============================================================
+  // Feature: 格式
+  // ============================================================
+  describe("getSummaryPromptKey", () => {
+    it("should map each format to its own prompt template", () => {
+      // Given & When & Then
+      expect(getSummaryPromptKey("insight")).toBe("summaryPrompt");
+      expect(getSummaryPromptKey("decisionMemo")).toBe("summaryDecisionPrompt");
+    });
+  });
+
+  // ============================================================
+  // Feature: 历史持久化
+  // ============================================================
+  describe("saveSummaries / loadSummaries", () => {
+    it("should persist summaries per project and keep only the latest ones", () => {
+      // Given: 超过上限的总结
+      const key = getSummariesStorageKey("p1");
+      const summaries = Array.from(
+        { length: MAX_SAVED_SUMMARIES + 2 },
+        (_, i) =>
+          createSavedSummary(
+            { format: "outline", content: `#${i}`, model: "m" },
+            1000 + i,
+          ),
+      );
+
+      // When
+      saveSummaries(key, summaries);
+
+      // Then: 丢弃最早的，其他项目不受影响
+      const loaded = loadSummaries(key);
+      expect(loaded).toHaveLength(MAX_SAVED_SUMMARIES);
+      expect(loaded[0].content).toBe("#2");
+      expect(loadSummaries(getSummariesStorageKey("p2"))).toEqual([]);
+    });
+
+    it("should remove the stored entry once the history is empty", () => {
+      // Given
+      const key = getSummariesStorageKey("p1");
+      saveSummaries(key, [
+        createSavedSummary({ format: "insight", content: "a", model: "" }),
+      ]);
+
+      // When
+      saveSummaries(key, []);
+
+      // Then
+      expect(localStorage.getItem(key)).toBeNull();
+    });
+
+    it("should fall back to an empty history for corrupted data", () => {
+      // Given
+      localStorage.setItem(getSummariesStorageKey("p1"), "{not json");
+
+      // When & Then
+      expect(loadSummaries(getSummariesStorageKey("p1"))).toEqual([]);
+    });
+  });
+
+  // ============================================================
+  // Feature: 对比
+  // ============================================================
+  describe("diffLines", () => {
+    it("should mark removed and added lines around the common ones", () => {
+      // Given & When
+      const result = diffLines(
+        "# Title\nold point\nend",
+        "# Title\nnew point\nend\nextra",
+      );
+
+      // Then
+      expect(result).toEqual([
+        { type: "same", text: "# Title" },
+        { type: "removed", text: "old point" },
+        { type: "added", text: "new point" },
+        { type: "same", text: "end" },
+        { type: "added", text: "extra" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * usage BDD 测试
+ * 测试费用计算、用量汇总与价格表持久化
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  calculateCost,
+  DEFAULT_MODEL_PRICES,
+  formatCost,
+  formatTokens,
+  loadModelPrices,
+  saveModelPrices,
+  summarizeUsage,
+  type UsageRecord,
+} from "../usage";
+
+const record = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  action: "expand",
+  model: "m",
+  promptTokens: 100,
+  completionTokens: 50,
+  cost: 0.01,
+  timestamp: 0,
+  ...overrides,
+});
+
+describe("usage", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  // ============================================================
+  // Feature: 费用计算
+  // ============================================================
+  describe("calculateCost", () => {
+    it("should price prompt and completion tokens separately per million", () => {
+      // Given: 输入 $1 / 1M，输出 $4 / 1M
+      const prices = [{ model: "m", prompt: 1, completion: 4 }];
+
+      // When
+      const cost = calculateCost(
+        { promptTokens: 1_000_000, completionTokens: 500_000 },
+        "m",
+        prices,
+      );
+
+      // Then: 1 + 2 = 3 美元
+      expect(cost).toBeCloseTo(3);
+    });
+
+    it("should treat models missing from the price table as free", () => {
+      // Given & When & Then
+      expect(
+        calculateCost({ promptTokens: 10, completionTokens: 10 }, "x", []),
+      ).toBe(0);
+    });
+  });
+
+  // ============================================================
+  // Feature: 用量汇总
+  // ============================================================
+  describe("summarizeUsage", () => {
+    it("should total records and group them by action", () => {
+      // Given: 两次扩展、一次对话
+      const records = [
+        record(),
+        record({ promptTokens: 200 }),
+        record({ action: "chat", completionTokens: 10, cost: 0.5 }),
+      ];
+
+      // When
+      const totals = summarizeUsage(records);
+
+      // Then
+      expect(totals.requests).toBe(3);
+      expect(totals.promptTokens).toBe(400);
+      expect(totals.completionTokens).toBe(110);
+      expect(totals.cost).toBeCloseTo(0.52);
+      expect(totals.byAction.expand?.promptTokens).toBe(300);
+      expect(totals.byAction.chat?.cost).toBeCloseTo(0.5);
+      expect(totals.byAction.image).toBeUndefined();
+    });
+  });
+
+  // ============================================================
+  // Feature: 价格表持久化
+  // ============================================================
+  describe("model prices", () => {
+    it("should fall back to built-in prices and round-trip saved ones", () => {
+      // Given: 无保存的价格表
+      expect(loadModelPrices()).toEqual(DEFAULT_MODEL_PRICES);
+
+      // When: 保存自定义价格
+      saveModelPrices([{ model: "a", prompt: 2, completion: 3 }]);
+
+      // Then: 再次读取得到保存的值
+      expect(loadModelPrices()).toEqual([
+        { model: "a", prompt: 2, completion: 3 },
+      ]);
+    });
+  });
+
+  // ============================================================
+  // Feature: 显示格式
+  // ============================================================
+  describe("format", () => {
+    it("should format token counts and costs compactly", () => {
+      // Given & When & Then
+      expect(formatTokens(999)).toBe("999");
+      expect(formatTokens(12_345)).toBe("12.3k");
+      expect(formatTokens(2_500_000)).toBe("2.5M");
+      expect(formatCost(0.01234)).toBe("$0.0123");
+      expect(formatCost(12.5)).toBe("$12.50");
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * AI 思考风格
+ * - 内置“发散 / 严谨”两种，名称与指令来自 i18n（随语言切换）
+ * - 用户可自定义风格：名称 + 指令文本 + 可选温度，保存在 localStorage
+ * - 生成时风格指令作为 system 消息注入，温度覆盖动作的默认值
+ */
+
+type Translate = (key: string, params?: any) => string;
+
+export interface AiStyle {
+  id: string;
+  name: string;
+  instruction: string;
+  /** 未设置时使用各动作的默认温度 */
+  temperature?: number;
+  builtin?: boolean;
+}
+
+/**
+ * 节点上记录的生成风格（只保留 id 与当时的名称，风格被删除后仍可展示）
+ */
+export interface NodeStyleRef {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_STYLE_ID = "creative";
+
+const BUILTIN_STYLES = [
+  {
+    id: "creative",
+    nameKey: "nav.styleCreative",
+    instructionKey: "prompts.styleCreative",
+  },
+  {
+    id: "precise",
+    nameKey: "nav.stylePrecise",
+    instructionKey: "prompts.stylePrecise",
+  },
+];
+
+const STORAGE_KEY = "thinkflow_custom_styles";
+
+export const getBuiltinStyles = (t: Translate): AiStyle[] =>
+  BUILTIN_STYLES.map((s) => ({
+    id: s.id,
+    name: t(s.nameKey),
+    instruction: t(s.instructionKey),
+    builtin: true,
+  }));
+
+export const createCustomStyle = (
+  overrides: Partial<AiStyle> = {},
+): AiStyle => ({
+  id: `style-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  name: "",
+  instruction: "",
+  ...overrides,
+});
+
+export const loadCustomStyles = (): AiStyle[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("[AiStyles] 自定义风格解析失败", e);
+    return [];
+  }
+};
+
+export const saveCustomStyles = (styles: AiStyle[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(styles));
+};
+
+/**
+ * 按 id 查找风格；找不到（如已被删除）时回退到默认风格
+ */
+export const resolveStyle = (id: string, styles: AiStyle[]): AiStyle =>
+  styles.find((s) => s.id === id) ||
+  styles.find((s) => s.id === DEFAULT_STYLE_ID) ||
+  styles[0];
+
+/**
+ * 温度：自定义风格指定时优先，否则使用动作默认值
+ */
+export const resolveStyleTemperature = (
+  style: AiStyle,
+  fallback?: number,
+): number | undefined =>
+  typeof style.temperature === "number" && !Number.isNaN(style.temperature)
+    ? style.temperature
+    : fallback;
+
+export const toNodeStyleRef = (style: AiStyle): NodeStyleRef => ({
+  id: style.id,
+  name: style.name,
+});
@@ -0,0 +1,237 @@
+/**
+ * 自动探索：从一个节点出发逐层展开子节点
+ * - 队列按广度优先执行，同时进行的请求数不超过 concurrency
+ * - 每个任务完成后累计 token / 费用，超出预算时停止派发新任务（进行中的请求仍会完成，可能略超预算）
+ * - 暂停只停止派发，进行中的请求照常完成；取消会中止进行中的请求并清空队列
+ */
+
+export interface AutoExploreOptions {
+  /** 展开层数（起点的子节点为第 1 层） */
+  maxDepth: number;
+  /** 每个节点最多生成的子节点数 */
+  maxChildren: number;
+  /** 同时进行的请求数 */
+  concurrency: number;
+  /** token 预算，0 表示不限 */
+  tokenBudget: number;
+  /** 费用预算（美元），0 表示不限 */
+  costBudget: number;
+}
+
+export type AutoExploreStatus =
+  "running" | "paused" | "completed" | "cancelled" | "budgetExceeded";
+
+export interface AutoExploreProgress {
+  /** 起点节点 */
+  nodeId: string;
+  status: AutoExploreStatus;
+  /** 已展开 / 失败 / 排队中 / 进行中的节点数 */
+  completed: number;
+  failed: number;
+  queued: number;
+  running: number;
+  tokens: number;
+  cost: number;
+  options: AutoExploreOptions;
+}
+
+/**
+ * 单个展开任务；depth 为被展开节点相对起点的层级（起点为 0）
+ */
+export interface AutoExploreTask {
+  nodeId: string;
+  depth: number;
+}
+
+/**
+ * 展开一个节点，返回新建的子节点 id 与本次消耗
+ */
+export type AutoExploreExpand = (
+  task: AutoExploreTask,
+  signal: AbortSignal,
+) => Promise<{ childIds: string[]; tokens: number; cost: number }>;
+
+export interface AutoExploreQueue {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  /** 结束（完成 / 取消 / 超出预算）时 resolve */
+  finished: Promise<AutoExploreProgress>;
+}
+
+export const DEFAULT_AUTO_EXPLORE_OPTIONS: AutoExploreOptions = {
+  maxDepth: 2,
+  maxChildren: 3,
+  concurrency: 2,
+  tokenBudget: 20000,
+  costBudget: 0,
+};
+
+const OPTIONS_STORAGE_KEY = "thinkflow_auto_explore";
+
+const LIMITS: Record<keyof AutoExploreOptions, [number, number]> = {
+  maxDepth: [1, 5],
+  maxChildren: [1, 8],
+  concurrency: [1, 4],
+  tokenBudget: [0, 10_000_000],
+  costBudget: [0, 1000],
+};
+
+/**
+ * 规范化选项：非数字回退到默认值，并限制在允许范围内（层数 / 子节点数 / 并发取整）
+ */
+export const normalizeAutoExploreOptions = (
+  options: Partial<AutoExploreOptions> = {},
+): AutoExploreOptions => {
+  const result = { ...DEFAULT_AUTO_EXPLORE_OPTIONS };
+  for (const key of Object.keys(LIMITS) as (keyof AutoExploreOptions)[]) {
+    const value = Number(options[key]);
+    if (options[key] === undefined || !Number.isFinite(value)) continue;
+    const [min, max] = LIMITS[key];
+    const clamped = Math.min(max, Math.max(min, value));
+    result[key] = key === "costBudget" ? clamped : Math.round(clamped);
+  }
+  return result;
+};
+
+export const loadAutoExploreOptions = (): AutoExploreOptions => {
+  try {
+    const saved = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    if (saved) return normalizeAutoExploreOptions(JSON.parse(saved));
+  } catch (e) {
+    console.warn("[AutoExplore] 选项解析失败，使用默认值", e);
+  }
+  return { ...DEFAULT_AUTO_EXPLORE_OPTIONS };
+};
+
+export const saveAutoExploreOptions = (options: AutoExploreOptions) => {
+  localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+};
+
+export const isBudgetExceeded = (
+  spent: { tokens: number; cost: number },
+  options: AutoExploreOptions,
+) =>
+  (options.tokenBudget > 0 && spent.tokens >= options.tokenBudget) ||
+  (options.costBudget > 0 && spent.cost >= options.costBudget);
+
+/**
+ * 启动自动探索队列
+ * - onProgress 在每次状态变化时收到最新进度（新对象，便于直接写入 ref）
+ */
+export const runAutoExplore = ({
+  nodeId,
+  options,
+  expand,
+  onProgress,
+}: {
+  nodeId: string;
+  options: AutoExploreOptions;
+  expand: AutoExploreExpand;
+  onProgress: (progress: AutoExploreProgress) => void;
+}): AutoExploreQueue => {
+  const queue: AutoExploreTask[] = [{ nodeId, depth: 0 }];
+  const running = new Set<AbortController>();
+  let status: AutoExploreStatus = "running";
+  let completed = 0;
+  let failed = 0;
+  let tokens = 0;
+  let cost = 0;
+  let budgetExceeded = false;
+  let resolveFinished: (progress: AutoExploreProgress) => void;
+  const finished = new Promise<AutoExploreProgress>((resolve) => {
+    resolveFinished = resolve;
+  });
+
+  const snapshot = (): AutoExploreProgress => ({
+    nodeId,
+    status,
+    completed,
+    failed,
+    queued: queue.length,
+    running: running.size,
+    tokens,
+    cost,
+    options,
+  });
+
+  const isFinished = () =>
+    status === "completed" ||
+    status === "cancelled" ||
+    status === "budgetExceeded";
+
+  const finish = (next: AutoExploreStatus) => {
+    status = next;
+    queue.length = 0;
+    const progress = snapshot();
+    onProgress(progress);
+    resolveFinished(progress);
+  };
+
+  const run = async (task: AutoExploreTask) => {
+    const controller = new AbortController();
+    running.add(controller);
+    try {
+      const result = await expand(task, controller.signal);
+      tokens += result.tokens;
+      cost += result.cost;
+      completed++;
+      if (!controller.signal.aborted && task.depth + 1 < options.maxDepth) {
+        queue.push(
+          ...result.childIds.map((id) => ({
+            nodeId: id,
+            depth: task.depth + 1,
+          })),
+        );
+      }
+    } catch (error: any) {
+      if (error?.name !== "AbortError") {
+        console.warn(`[AutoExplore] 展开节点 ${task.nodeId} 失败:`, error);
+        failed++;
+      }
+    } finally {
+      running.delete(controller);
+    }
+    pump();
+  };
+
+  const pump = () => {
+    if (isFinished()) return;
+    if (status === "running") {
+      if (queue.length > 0 && isBudgetExceeded({ tokens, cost }, options)) {
+        // 不再派发；等进行中的请求结束后再结束，保证进度中的消耗完整
+        queue.length = 0;
+        budgetExceeded = true;
+      }
+      while (running.size < options.concurrency && queue.length > 0) {
+        run(queue.shift()!);
+      }
+      if (running.size === 0 && queue.length === 0) {
+        finish(budgetExceeded ? "budgetExceeded" : "completed");
+        return;
+      }
+    }
+    onProgress(snapshot());
+  };
+
+  pump();
+
+  return {
+    pause: () => {
+      if (status !== "running") return;
+      status = "paused";
+      onProgress(snapshot());
+    },
+    resume: () => {
+      if (status !== "paused") return;
+      status = "running";
+      pump();
+    },
+    cancel: () => {
+      if (isFinished()) return;
+      running.forEach((controller) => controller.abort());
+      finish("cancelled");
+    },
+    finished,
+  };
+};
@@ -0,0 +1,42 @@
+/**
+ * 图谱对话回答中的节点引用
+ * - 模型按提示在句末以 [[node-id]] 标注依据的节点（多个 id 可写在同一对括号内，以逗号分隔）
+ * - 解析为文本片段与引用片段，侧边栏将引用渲染为可点击的节点标签
+ */
+
+export type AnswerSegment =
+  { type: "text"; text: string } | { type: "citation"; nodeId: string };
+
+const CITATION_PATTERN = /\[\[([^[\]\n]+?)\]\]/g;
+
+/**
+ * 提示模型引用节点的说明（拼入图谱对话的 system prompt）
+ */
+export const CITATION_INSTRUCTION =
+  "Cite the nodes your answer relies on right after the sentence that uses them, as [[node-id]] with the ids listed above (e.g. [[node-1]] or [[node-1, node-2]]). Only cite ids from that list.";
+
+/**
+ * 将回答拆分为文本与引用片段（相邻文本会合并）
+ */
+export const splitCitations = (content: string): AnswerSegment[] => {
+  const segments: AnswerSegment[] = [];
+  const pushText = (text: string) => {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last?.type === "text") last.text += text;
+    else segments.push({ type: "text", text });
+  };
+
+  let lastIndex = 0;
+  for (const match of content.matchAll(CITATION_PATTERN)) {
+    pushText(content.slice(lastIndex, match.index));
+    const ids = match[1]
+      .split(/[,，\s]+/)
+      .map((id) => id.trim())
+      .filter(Boolean);
+    for (const nodeId of ids) segments.push({ type: "citation", nodeId });
+    lastIndex = match.index! + match[0].length;
+  }
+  pushText(content.slice(lastIndex));
+  return segments;
+};
@@ -0,0 +1,119 @@
+/**
+ * 图谱对话线程
+ * - 每个项目可保存多个命名对话线程；游客保存在 localStorage，登录用户保存在 Supabase chat_threads 表
+ * - 线程标题为空时以第一个问题作为显示名
+ * - 支持将线程导出为 Markdown（问答、上下文节点与修改提案）
+ */
+import type { RetrievedNode } from "./graphRetrieval";
+import { describeProposal, type GraphEditProposal } from "./graphTools";
+
+/**
+ * 图谱对话消息；用户消息记录本轮检索到的上下文节点，助手消息记录模型提出的修改提案
+ */
+export interface GraphChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  contextNodes?: RetrievedNode[];
+  proposals?: GraphEditProposal[];
+}
+
+export interface ChatThread {
+  id: string;
+  /** 用户命名的标题（为空时显示第一个问题） */
+  title: string;
+  messages: GraphChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 登录用户的云端线程存储（实现见 useCloudStorage）
+ * - load 返回 null 表示未登录或读取失败
+ */
+export interface ChatThreadCloudStore {
+  load: (projectId: string) => Promise<ChatThread[] | null>;
+  save: (projectId: string, thread: ChatThread) => Promise<boolean>;
+  remove: (projectId: string, threadId: string) => Promise<boolean>;
+}
+
+/** 标题回退为第一个问题时的最大长度 */
+const MAX_DERIVED_TITLE = 30;
+
+export const getChatThreadsStorageKey = (projectId: string) =>
+  `thinkflow_${projectId}_chats`;
+
+export const createChatThread = (title = "", now = Date.now()): ChatThread => ({
+  id: `chat-${now}-${Math.random().toString(36).slice(2, 8)}`,
+  title,
+  messages: [],
+  createdAt: now,
+  updatedAt: now,
+});
+
+/**
+ * 线程显示名：命名标题 > 第一个问题（截断）> fallback
+ */
+export const getThreadTitle = (thread: ChatThread, fallback: string) => {
+  if (thread.title.trim()) return thread.title.trim();
+  const question = thread.messages.find((m) => m.role === "user")?.content;
+  if (!question) return fallback;
+  const line = question.trim().split("\n")[0];
+  return line.length > MAX_DERIVED_TITLE
+    ? `${line.slice(0, MAX_DERIVED_TITLE)}…`
+    : line;
+};
+
+export const loadChatThreads = (storageKey: string): ChatThread[] => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (e) {
+    console.warn("[ChatThreads] 对话记录解析失败", e);
+  }
+  return [];
+};
+
+export const saveChatThreads = (storageKey: string, threads: ChatThread[]) => {
+  try {
+    if (threads.length === 0) {
+      localStorage.removeItem(storageKey);
+    } else {
+      localStorage.setItem(storageKey, JSON.stringify(threads));
+    }
+  } catch (error: any) {
+    console.warn("[ChatThreads] 对话记录保存失败:", error);
+  }
+};
+
+/**
+ * 导出为 Markdown；labels 为角色与上下文的显示文案（随界面语言）
+ */
+export const chatThreadToMarkdown = (
+  thread: ChatThread,
+  labels: { title: string; user: string; assistant: string; context: string },
+) => {
+  const sections = thread.messages.map((message) => {
+    const lines = [
+      `### ${message.role === "user" ? labels.user : labels.assistant}`,
+      "",
+    ];
+    if (message.content) lines.push(message.content, "");
+    if (message.contextNodes?.length) {
+      lines.push(
+        `> ${labels.context}: ${message.contextNodes
+          .map((node) => node.label || node.id)
+          .join(", ")}`,
+        "",
+      );
+    }
+    for (const proposal of message.proposals || []) {
+      lines.push(`- ${describeProposal(proposal)}`);
+    }
+    if (message.proposals?.length) lines.push("");
+    return lines.join("\n");
+  });
+  return `# ${labels.title}\n\n${sections.join("\n")}`.trimEnd() + "\n";
+};
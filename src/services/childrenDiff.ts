@@ -0,0 +1,137 @@
+/**
+ * 重新生成子节点的对比
+ * - 新建议按标题相似度与现有子节点配对，用户逐条选择：保留现有（keep）、替换配对的子节点（replace）或作为新子节点并入（merge）
+ * - 替换是原地修改子节点的标题与描述：节点 id、连线、回答与其下的子树都保持不变
+ */
+import { tokenize } from "./graphRetrieval";
+
+export type ChildDecision = "keep" | "replace" | "merge";
+
+export interface ExistingChild {
+  id: string;
+  label: string;
+  description: string;
+}
+
+export interface ChildSuggestion {
+  id: string;
+  label: string;
+  description: string;
+  /** 替换目标（默认为最相似的现有子节点） */
+  targetId: string | null;
+  /** 与目标的相似度 0-1 */
+  similarity: number;
+  decision: ChildDecision;
+}
+
+export interface ChildrenUpdatePlan {
+  replacements: { nodeId: string; label: string; description: string }[];
+  additions: { text: string; description: string }[];
+}
+
+/**
+ * 一次重新生成的状态（对比弹窗展示）
+ */
+export interface ChildrenRegeneration {
+  parentId: string;
+  parentLabel: string;
+  status: "loading" | "ready" | "error";
+  error: string | null;
+  /** 发起时的现有子节点 */
+  children: ExistingChild[];
+  suggestions: ChildSuggestion[];
+}
+
+/** 低于该相似度视为新方向，不配对 */
+const MATCH_THRESHOLD = 0.3;
+
+const normalize = (label: string) => label.trim().toLowerCase();
+
+/**
+ * 标题相似度（词项 Jaccard；中日韩文字按二元组）
+ */
+export const labelSimilarity = (a: string, b: string) => {
+  if (normalize(a) === normalize(b)) return 1;
+  const termsA = new Set(tokenize(a));
+  const termsB = new Set(tokenize(b));
+  if (termsA.size === 0 || termsB.size === 0) return 0;
+  let shared = 0;
+  termsA.forEach((term) => termsB.has(term) && shared++);
+  return shared / (termsA.size + termsB.size - shared);
+};
+
+/**
+ * 为新建议配对现有子节点并给出默认选择
+ * - 按相似度从高到低贪心配对，每个现有子节点最多配对一条建议
+ * - 默认：与现有子节点同名 → keep；相似 → replace；无配对 → merge
+ */
+export const matchSuggestions = (
+  existing: ExistingChild[],
+  suggestions: { text: string; description: string }[],
+): ChildSuggestion[] => {
+  const pairs = suggestions
+    .flatMap((suggestion, s) =>
+      existing.map((child, c) => ({
+        s,
+        c,
+        score: labelSimilarity(suggestion.text, child.label),
+      })),
+    )
+    .filter((pair) => pair.score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const matched = new Map<number, { c: number; score: number }>();
+  const usedChildren = new Set<number>();
+  for (const pair of pairs) {
+    if (matched.has(pair.s) || usedChildren.has(pair.c)) continue;
+    matched.set(pair.s, pair);
+    usedChildren.add(pair.c);
+  }
+
+  return suggestions.map((suggestion, s) => {
+    const match = matched.get(s);
+    const decision: ChildDecision = !match
+      ? "merge"
+      : match.score === 1
+        ? "keep"
+        : "replace";
+    return {
+      id: `suggestion-${s}`,
+      label: suggestion.text,
+      description: suggestion.description,
+      targetId: match ? existing[match.c].id : null,
+      similarity: match?.score ?? 0,
+      decision,
+    };
+  });
+};
+
+/**
+ * 汇总用户的选择
+ * - replace 没有目标时按 merge 处理；多条建议替换同一子节点时只取第一条
+ */
+export const planChildrenUpdate = (
+  suggestions: ChildSuggestion[],
+): ChildrenUpdatePlan => {
+  const plan: ChildrenUpdatePlan = { replacements: [], additions: [] };
+  const replaced = new Set<string>();
+  for (const suggestion of suggestions) {
+    if (suggestion.decision === "keep") continue;
+    const addition = {
+      text: suggestion.label,
+      description: suggestion.description,
+    };
+    if (suggestion.decision === "merge" || !suggestion.targetId) {
+      plan.additions.push(addition);
+      continue;
+    }
+    if (replaced.has(suggestion.targetId)) continue;
+    replaced.add(suggestion.targetId);
+    plan.replacements.push({
+      nodeId: suggestion.targetId,
+      label: suggestion.label,
+      description: suggestion.description,
+    });
+  }
+  return plan;
+};
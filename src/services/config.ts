@@ -1,3 +1,6 @@
+import type { ImageProviderType } from "./imageProviders";
+import type { ChatProviderType } from "./llmProviders";
+
 /**
  * 默认模式下的 API Key（当前不使用环境变量注入）。
  * - 如需鉴权，请通过 Settings 的 Custom 模式填写 apiKey
@@ -10,6 +13,8 @@ export const API_KEY = "";
  */
 export const DEFAULT_CONFIG = {
   chat: {
+    provider: (import.meta.env.VITE_CHAT_PROVIDER ||
+      "openai") as ChatProviderType,
     baseUrl:
       import.meta.env.VITE_CHAT_BASE_URL ||
       "https://openrouter.ai/api/v1/chat/completions",
@@ -17,11 +22,14 @@ export const DEFAULT_CONFIG = {
     apiKey: import.meta.env.VITE_CHAT_API_KEY || "",
   },
   image: {
+    provider: (import.meta.env.VITE_IMAGE_PROVIDER ||
+      "chat") as ImageProviderType,
     baseUrl:
       import.meta.env.VITE_IMAGE_BASE_URL ||
       "https://openrouter.ai/api/v1/chat/completions",
     model: import.meta.env.VITE_IMAGE_MODEL || "bytedance-seed/seedream-4.5",
     apiKey: import.meta.env.VITE_IMAGE_API_KEY || "",
+    responsePath: import.meta.env.VITE_IMAGE_RESPONSE_PATH || "",
   },
 };
 
@@ -0,0 +1,181 @@
+/**
+ * 从文档生成导图
+ * - 粘贴的长文本或拖入的 .txt / .md 文件交给模型提炼层级大纲：标题 → 章节（第一层）→ 要点（第二层）
+ * - 超出模型上下文的文档按段落切块，逐块提炼后再分组合并为一份大纲
+ */
+import { estimateTokens } from "./graphRetrieval";
+
+export interface OutlineItem {
+  text: string;
+  description: string;
+}
+
+export interface DocumentOutline {
+  title: string;
+  summary: string;
+  sections: (OutlineItem & { children?: OutlineItem[] })[];
+}
+
+export interface SeedDocument {
+  title: string;
+  text: string;
+}
+
+/** 单块的 token 上限（为 prompt 与输出留出余量） */
+export const MAX_CHUNK_TOKENS = 3000;
+
+/** 合并时每组的大纲数 */
+export const MERGE_GROUP_SIZE = 6;
+
+/** 大纲的层级规模上限（第一层章节数 / 每个章节的要点数） */
+const MAX_SECTIONS = 8;
+const MAX_CHILDREN = 6;
+
+/** 粘贴内容达到该长度或行数时视为文档，而不是一句想法 */
+const DOCUMENT_MIN_LENGTH = 300;
+const DOCUMENT_MIN_LINES = 5;
+
+const SUPPORTED_EXTENSIONS = /\.(txt|md|markdown)$/i;
+const SUPPORTED_TYPES = ["text/plain", "text/markdown", "text/x-markdown"];
+
+export const isDocumentText = (text: string) =>
+  text.trim().length >= DOCUMENT_MIN_LENGTH ||
+  text.trim().split("\n").length >= DOCUMENT_MIN_LINES;
+
+export const isSupportedDocumentFile = (file: { name: string; type: string }) =>
+  SUPPORTED_EXTENSIONS.test(file.name) || SUPPORTED_TYPES.includes(file.type);
+
+/**
+ * 读取本地文本文件
+ */
+export const readDocumentFile = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+/**
+ * 文档标题：文件名去掉扩展名；粘贴的文本取第一行（去掉 Markdown 标题符号）
+ */
+export const getDocumentTitle = (text: string, fileName?: string) => {
+  if (fileName) return fileName.replace(SUPPORTED_EXTENSIONS, "");
+  const firstLine =
+    text
+      .split("\n")
+      .map((line) => line.replace(/^#+\s*/, "").trim())
+      .find(Boolean) || "";
+  return firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine;
+};
+
+/**
+ * 把超长段落拆成不超过上限的片段：先按句子，单句仍超长时按字符截断
+ */
+const splitParagraph = (paragraph: string, maxTokens: number): string[] => {
+  if (estimateTokens(paragraph) <= maxTokens) return [paragraph];
+  const pieces: string[] = [];
+  for (const sentence of paragraph.split(/(?<=[.!?。！？])\s*/)) {
+    // 每个字符至多计 1 token，按字符数截断一定不超限
+    for (let i = 0; i < sentence.length; i += maxTokens) {
+      pieces.push(sentence.slice(i, i + maxTokens));
+    }
+  }
+  return pieces;
+};
+
+/**
+ * 按段落切块，每块的估算 token 数不超过 maxTokens
+ */
+export const chunkDocument = (
+  text: string,
+  maxTokens = MAX_CHUNK_TOKENS,
+): string[] => {
+  const pieces = text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .flatMap((p) => splitParagraph(p, maxTokens));
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+  for (const piece of pieces) {
+    const pieceTokens = estimateTokens(piece);
+    if (current.length > 0 && tokens + pieceTokens > maxTokens) {
+      chunks.push(current.join("\n\n"));
+      current = [];
+      tokens = 0;
+    }
+    current.push(piece);
+    tokens += pieceTokens;
+  }
+  if (current.length > 0) chunks.push(current.join("\n\n"));
+  return chunks;
+};
+
+/**
+ * 把大纲序列化为紧凑的缩进文本（合并时作为输入，比 JSON 省 token）
+ */
+export const outlineToText = (outline: DocumentOutline) =>
+  [
+    `# ${outline.title}`,
+    outline.summary,
+    ...outline.sections.flatMap((section) => [
+      `- ${section.text}: ${section.description}`,
+      ...(section.children || []).map(
+        (child) => `  - ${child.text}: ${child.description}`,
+      ),
+    ]),
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+/**
+ * 分组：合并时每组最多 size 份大纲
+ */
+export const groupOutlines = <T>(items: T[], size = MERGE_GROUP_SIZE): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) =>
+    items.slice(i * size, (i + 1) * size),
+  );
+
+/**
+ * 请求总数（用于进度）：每块一次，加上逐轮合并的次数；只剩一份大纲的组直接进入下一轮，不发请求
+ */
+export const countOutlineRequests = (
+  chunkCount: number,
+  size = MERGE_GROUP_SIZE,
+) => {
+  let total = chunkCount;
+  for (let n = chunkCount; n > 1; n = Math.ceil(n / size)) {
+    total += Math.floor(n / size) + (n % size > 1 ? 1 : 0);
+  }
+  return total;
+};
+
+/**
+ * 清理模型返回的大纲：去掉空标题并限制层级规模
+ */
+export const normalizeOutline = (
+  outline: DocumentOutline,
+  fallbackTitle: string,
+): DocumentOutline => {
+  const clean = (items: OutlineItem[] = []) =>
+    items
+      .filter((item) => item.text?.trim())
+      .map((item) => ({
+        text: item.text.trim(),
+        description: (item.description || "").trim(),
+      }));
+  return {
+    title: outline.title?.trim() || fallbackTitle,
+    summary: (outline.summary || "").trim(),
+    sections: outline.sections
+      .filter((section) => section.text?.trim())
+      .slice(0, MAX_SECTIONS)
+      .map((section) => ({
+        ...clean([section])[0],
+        children: clean(section.children).slice(0, MAX_CHILDREN),
+      })),
+  };
+};
@@ -0,0 +1,180 @@
+/**
+ * 图谱对话的本地检索
+ * - 对节点的标题、摘要与回答（detailedContent）建立 BM25 索引，按问题挑选最相关的节点
+ * - 在 token 预算内拼接上下文，避免大图谱把所有节点塞进一个 system prompt
+ * - 分词：拉丁字母按单词，中日韩文字按字二元组（单字词保留单字），无需额外依赖
+ */
+
+export interface RetrievedNode {
+  id: string;
+  label: string;
+  score: number;
+}
+
+export interface GraphContext {
+  nodes: RetrievedNode[];
+  text: string;
+}
+
+interface NodeDocument {
+  id: string;
+  label: string;
+  /** 拼入上下文的文本 */
+  text: string;
+  terms: string[];
+}
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 3000;
+
+/** 单个节点回答在上下文中的最大长度（字符） */
+const MAX_DETAIL_CHARS = 800;
+
+/** 标题命中比正文更能说明相关性，索引时重复计入 */
+const LABEL_WEIGHT = 3;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]+/g;
+
+/**
+ * 分词：拉丁单词转小写；中日韩连续文字切为二元组
+ */
+export const tokenize = (text: string): string[] => {
+  const lower = (text || "").toLowerCase();
+  const terms: string[] = lower.match(/[a-z0-9]+/g) || [];
+  for (const run of lower.match(CJK_RUN) || []) {
+    if (run.length === 1) {
+      terms.push(run);
+      continue;
+    }
+    for (let i = 0; i < run.length - 1; i++) terms.push(run.slice(i, i + 2));
+  }
+  return terms;
+};
+
+/**
+ * 粗略估算 token 数：中日韩文字约 1 token / 字，其余约 4 字符 / token
+ */
+export const estimateTokens = (text: string) => {
+  const cjk = (text.match(CJK_RUN) || []).join("").length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max)}…` : text;
+
+const toDocument = (node: any): NodeDocument | null => {
+  const data = node.data || {};
+  const label = String(data.label || "").trim();
+  if (node.type === "sticky") {
+    if (!label) return null;
+    return {
+      id: node.id,
+      label: truncate(label, 40),
+      text: `[Note]: ${label}`,
+      terms: tokenize(label),
+    };
+  }
+  const description = data.description || "";
+  const detail = data.detailedContent || "";
+  const lines = [`[Node]: ${label}${description ? ` - ${description}` : ""}`];
+  if (detail) lines.push(`  ${truncate(detail, MAX_DETAIL_CHARS)}`);
+  return {
+    id: node.id,
+    label,
+    text: lines.join("\n"),
+    terms: [
+      ...Array(LABEL_WEIGHT).fill(tokenize(label)).flat(),
+      ...tokenize(description),
+      ...tokenize(detail),
+    ],
+  };
+};
+
+/**
+ * BM25 打分，返回得分大于 0 的文档（按得分降序）
+ */
+export const rankDocuments = (
+  documents: { id: string; terms: string[] }[],
+  query: string,
+): { id: string; score: number }[] => {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (documents.length === 0 || queryTerms.length === 0) return [];
+
+  const avgLength =
+    documents.reduce((sum, doc) => sum + doc.terms.length, 0) /
+      documents.length || 1;
+  const documentFrequency = new Map<string, number>();
+  const termCounts = documents.map((doc) => {
+    const counts = new Map<string, number>();
+    for (const term of doc.terms) counts.set(term, (counts.get(term) || 0) + 1);
+    for (const term of counts.keys())
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    return counts;
+  });
+
+  return documents
+    .map((doc, i) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = termCounts[i].get(term) || 0;
+        if (!tf) continue;
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        score +=
+          (idf * tf * (BM25_K1 + 1)) /
+          (tf +
+            BM25_K1 * (1 - BM25_B + (BM25_B * doc.terms.length) / avgLength));
+      }
+      return { id: doc.id, score };
+    })
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * 为问题挑选图谱上下文
+ * - 根节点始终在内（提供主题），其余按 BM25 得分依次加入，直到用完 token 预算
+ * - 没有任何命中时（如“总结一下”），按画布顺序取节点填满预算
+ */
+export const selectGraphContext = (
+  nodes: any[],
+  query: string,
+  tokenBudget = DEFAULT_CONTEXT_TOKEN_BUDGET,
+): GraphContext => {
+  const documents = nodes
+    .map(toDocument)
+    .filter((doc): doc is NodeDocument => doc !== null);
+  const byId = new Map(documents.map((doc) => [doc.id, doc]));
+  const root = nodes.find((n) => n.data?.type === "root");
+
+  const ranked = rankDocuments(documents, query);
+  const candidates = ranked.length
+    ? ranked
+    : documents.map((doc) => ({ id: doc.id, score: 0 }));
+  const ordered = root
+    ? [
+        {
+          id: root.id,
+          score: ranked.find((r) => r.id === root.id)?.score || 0,
+        },
+        ...candidates.filter((c) => c.id !== root.id),
+      ]
+    : candidates;
+
+  const selected: RetrievedNode[] = [];
+  const parts: string[] = [];
+  let used = 0;
+  for (const candidate of ordered) {
+    const doc = byId.get(candidate.id);
+    if (!doc) continue;
+    const cost = estimateTokens(doc.text);
+    if (used + cost > tokenBudget && selected.length > 0) continue;
+    used += cost;
+    parts.push(doc.text);
+    selected.push({ id: doc.id, label: doc.label, score: candidate.score });
+  }
+
+  return { nodes: selected, text: parts.join("\n") };
+};
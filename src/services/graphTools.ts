@@ -0,0 +1,253 @@
+/**
+ * 图谱对话的编辑工具
+ * - 声明模型可调用的工具：添加子节点、重命名节点、添加便签、连接两个节点
+ * - 模型的调用不会直接修改画布：先校验并转换为修改提案，由用户在侧边栏接受或拒绝后再应用
+ * - 节点参数优先按 id 匹配，其次按标题匹配（模型偶尔会直接写标题）
+ */
+import type { ChatTool, ToolCall } from "./llmProviders";
+import { validateSchema, type Schema } from "./structuredOutput";
+
+export type GraphEditStatus = "pending" | "accepted" | "rejected";
+
+/**
+ * 修改提案；节点标题在提案生成时记录，供预览展示
+ * - id 在所有对话中唯一（供侧边栏确认 / 拒绝）；callId 为模型的工具调用 id，
+ *   部分后端按下标生成（call-0、call-1），不同轮次会重复
+ */
+export type GraphEditProposal = {
+  id: string;
+  callId: string;
+  status: GraphEditStatus;
+} & (
+  | {
+      tool: "add_children";
+      parentId: string;
+      parentLabel: string;
+      children: { label: string; description: string }[];
+    }
+  | { tool: "rename_node"; nodeId: string; from: string; to: string }
+  | {
+      tool: "add_sticky_note";
+      text: string;
+      nearNodeId: string | null;
+    }
+  | {
+      tool: "link_nodes";
+      sourceId: string;
+      sourceLabel: string;
+      targetId: string;
+      targetLabel: string;
+    }
+);
+
+const ADD_CHILDREN_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    parentId: { type: "string", minLength: 1 },
+    children: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          label: { type: "string", minLength: 1 },
+          description: { type: "string" },
+        },
+        required: ["label"],
+      },
+    },
+  },
+  required: ["parentId", "children"],
+};
+
+const RENAME_NODE_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    nodeId: { type: "string", minLength: 1 },
+    label: { type: "string", minLength: 1 },
+  },
+  required: ["nodeId", "label"],
+};
+
+const ADD_STICKY_NOTE_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    text: { type: "string", minLength: 1 },
+    nearNodeId: { type: "string" },
+  },
+  required: ["text"],
+};
+
+const LINK_NODES_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    sourceId: { type: "string", minLength: 1 },
+    targetId: { type: "string", minLength: 1 },
+  },
+  required: ["sourceId", "targetId"],
+};
+
+/**
+ * 图谱对话可用的工具（参数 schema 同时用于提示模型与校验调用）
+ */
+export const GRAPH_EDIT_TOOLS: ChatTool[] = [
+  {
+    name: "add_children",
+    description:
+      "Add one or more child nodes under an existing node of the map.",
+    parameters: ADD_CHILDREN_SCHEMA,
+  },
+  {
+    name: "rename_node",
+    description: "Change the title of an existing node.",
+    parameters: RENAME_NODE_SCHEMA,
+  },
+  {
+    name: "add_sticky_note",
+    description:
+      "Add a sticky note to the canvas, optionally next to an existing node.",
+    parameters: ADD_STICKY_NOTE_SCHEMA,
+  },
+  {
+    name: "link_nodes",
+    description: "Draw an edge from one existing node to another.",
+    parameters: LINK_NODES_SCHEMA,
+  },
+];
+
+const SCHEMAS: Record<string, Schema> = {
+  add_children: ADD_CHILDREN_SCHEMA,
+  rename_node: RENAME_NODE_SCHEMA,
+  add_sticky_note: ADD_STICKY_NOTE_SCHEMA,
+  link_nodes: LINK_NODES_SCHEMA,
+};
+
+/**
+ * 按 id 查找节点，找不到时按标题（忽略大小写）查找
+ */
+export const findNodeByReference = (nodes: any[], reference: string) => {
+  const byId = nodes.find((n) => n.id === reference);
+  if (byId) return byId;
+  const label = reference.trim().toLowerCase();
+  return nodes.find(
+    (n) =>
+      n.type !== "sticky" &&
+      String(n.data?.label || "")
+        .trim()
+        .toLowerCase() === label,
+  );
+};
+
+/**
+ * 将模型的工具调用转换为修改提案
+ * - 参数不符合 schema、引用的节点不存在、或修改无意义（同名 / 已有连线）时返回错误
+ */
+export const toGraphEditProposal = (
+  call: ToolCall,
+  nodes: any[],
+  edges: any[],
+): { ok: true; proposal: GraphEditProposal } | { ok: false; error: string } => {
+  const schema = SCHEMAS[call.name];
+  if (!schema) return { ok: false, error: `unknown tool ${call.name}` };
+  const errors = validateSchema(call.arguments, schema);
+  if (errors.length > 0) return { ok: false, error: errors.join("; ") };
+
+  const args = call.arguments;
+  const base = {
+    id: `proposal-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    callId: call.id,
+    status: "pending" as const,
+  };
+  const resolve = (reference: string) => findNodeByReference(nodes, reference);
+
+  switch (call.name) {
+    case "add_children": {
+      const parent = resolve(args.parentId);
+      if (!parent)
+        return { ok: false, error: `node ${args.parentId} not found` };
+      return {
+        ok: true,
+        proposal: {
+          ...base,
+          tool: "add_children",
+          parentId: parent.id,
+          parentLabel: parent.data.label,
+          children: args.children.map((child: any) => ({
+            label: child.label.trim(),
+            description: child.description || "",
+          })),
+        },
+      };
+    }
+    case "rename_node": {
+      const node = resolve(args.nodeId);
+      if (!node) return { ok: false, error: `node ${args.nodeId} not found` };
+      if (node.data.label === args.label.trim())
+        return { ok: false, error: "label unchanged" };
+      return {
+        ok: true,
+        proposal: {
+          ...base,
+          tool: "rename_node",
+          nodeId: node.id,
+          from: node.data.label,
+          to: args.label.trim(),
+        },
+      };
+    }
+    case "add_sticky_note":
+      return {
+        ok: true,
+        proposal: {
+          ...base,
+          tool: "add_sticky_note",
+          text: args.text.trim(),
+          nearNodeId: args.nearNodeId
+            ? resolve(args.nearNodeId)?.id || null
+            : null,
+        },
+      };
+    default: {
+      const source = resolve(args.sourceId);
+      const target = resolve(args.targetId);
+      if (!source || !target)
+        return { ok: false, error: "source or target node not found" };
+      if (source.id === target.id)
+        return { ok: false, error: "cannot link a node to itself" };
+      if (edges.some((e) => e.source === source.id && e.target === target.id))
+        return { ok: false, error: "nodes are already linked" };
+      return {
+        ok: true,
+        proposal: {
+          ...base,
+          tool: "link_nodes",
+          sourceId: source.id,
+          sourceLabel: source.data.label,
+          targetId: target.id,
+          targetLabel: target.data.label,
+        },
+      };
+    }
+  }
+};
+
+/**
+ * 提案的文字描述，拼入后续对话历史，让模型知道之前提议过什么、用户是否接受
+ */
+export const describeProposal = (proposal: GraphEditProposal) => {
+  const action = (() => {
+    switch (proposal.tool) {
+      case "add_children":
+        return `add children under "${proposal.parentLabel}": ${proposal.children
+          .map((child) => child.label)
+          .join(", ")}`;
+      case "rename_node":
+        return `rename "${proposal.from}" to "${proposal.to}"`;
+      case "add_sticky_note":
+        return `add sticky note "${proposal.text}"`;
+      case "link_nodes":
+        return `link "${proposal.sourceLabel}" to "${proposal.targetLabel}"`;
+    }
+  })();
+  return `[Proposed change (${proposal.status}): ${action}]`;
+};
@@ -0,0 +1,91 @@
+/**
+ * 节点图片历史
+ * - 每次生成的图片都追加到 node.data.imageHistory，记录来源、prompt 与模型
+ * - 封面仍写在 imagePath / imageUrl 上（节点卡片、云端同步沿用原字段），历史中与之相同的条目即为封面
+ * - 旧数据只有单张图片时，按需补成一条历史，保证可浏览与切换
+ */
+import { parseImageRef } from "./imageStorage";
+
+// 使用类型别名：需可直接写入 Supabase 的 Json 列
+export type NodeImage = {
+  id: string;
+  /** 对象存储引用（见 imageStorage.ts）或旧的图片地址 */
+  source: string;
+  prompt: string;
+  model: string;
+  createdAt: number;
+  /** 由哪张图片生成的变体 */
+  variationOf?: string;
+};
+
+/** 单个节点保留的历史上限 */
+export const MAX_IMAGE_HISTORY = 12;
+
+export const createNodeImage = (
+  image: Omit<NodeImage, "id" | "createdAt">,
+  now = Date.now(),
+): NodeImage => ({
+  ...image,
+  id: `img-${now}-${Math.random().toString(36).slice(2, 8)}`,
+  createdAt: now,
+});
+
+/**
+ * 节点的封面来源：优先对象存储引用，其次旧的图片地址
+ */
+export const getCoverSource = (data: any): string | null =>
+  data?.imagePath || data?.imageUrl || null;
+
+/**
+ * 读取节点图片历史（兼容只有单张封面的旧数据）
+ */
+export const getImageHistory = (data: any): NodeImage[] => {
+  const history: NodeImage[] = Array.isArray(data?.imageHistory)
+    ? data.imageHistory
+    : [];
+  const cover = getCoverSource(data);
+  if (!cover || history.some((image) => image.source === cover)) return history;
+  return [
+    { id: "legacy", source: cover, prompt: "", model: "", createdAt: 0 },
+    ...history,
+  ];
+};
+
+export const getCoverImageId = (data: any): string | null => {
+  const cover = getCoverSource(data);
+  return (
+    getImageHistory(data).find((image) => image.source === cover)?.id || null
+  );
+};
+
+/**
+ * 封面字段：对象存储引用写入 imagePath，其余（上传失败时的原地址）写入 imageUrl
+ */
+export const toCoverFields = (source: string) =>
+  parseImageRef(source)
+    ? { imagePath: source, imageUrl: null }
+    : { imagePath: null, imageUrl: source };
+
+/**
+ * 追加一张新图片并设为封面（新图片即封面，超出上限时丢弃最早的）
+ */
+export const addImageToHistory = (data: any, image: NodeImage) => ({
+  imageHistory: [...getImageHistory(data), image].slice(-MAX_IMAGE_HISTORY),
+  ...toCoverFields(image.source),
+});
+
+/**
+ * 切换封面；找不到对应图片时返回 null
+ */
+export const selectCoverImage = (data: any, imageId: string) => {
+  const history = getImageHistory(data);
+  const image = history.find((item) => item.id === imageId);
+  if (!image) return null;
+  return { imageHistory: history, ...toCoverFields(image.source) };
+};
+
+/**
+ * localStorage 中不保存内联 data URL（图片本体在对象存储中）
+ */
+export const stripInlineImages = (history: NodeImage[] | undefined) =>
+  history?.filter((image) => !image.source.startsWith("data:"));
@@ -0,0 +1,250 @@
+/**
+ * 图片生成 Provider 适配层
+ * - 与 llmProviders 相同的拆分方式：构建请求 / 解析响应，业务层只面向统一的 ImageRequest
+ * - chat：Chat Completions + modalities（OpenRouter 等，图片位于 choices[0].message.images）
+ * - openai：OpenAI 风格 /images/generations（返回 url 或 b64_json）
+ * - stability：Stability AI REST（multipart 表单，JSON 返回 base64）
+ * - jsonPath：通用 JSON 接口，按配置的路径读取图片地址或 base64
+ */
+
+import { buildHeaders, getChatProvider } from "./llmProviders";
+import type { TokenUsage } from "./usage";
+
+export type ImageProviderType = "chat" | "openai" | "stability" | "jsonPath";
+
+export interface ImageEndpoint {
+  provider: ImageProviderType;
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  /** jsonPath 模式下图片在响应中的路径，如 `data[0].url` */
+  responsePath?: string;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  /** 像素尺寸，如 `1024x1024`；空字符串表示由后端决定 */
+  size?: string;
+  /** 宽高比，如 `16:9`；空字符串表示由后端决定 */
+  aspectRatio?: string;
+  /** 参考图（生成变体时使用）；仅 chat 接口会随消息发送，其余接口只使用文字 prompt */
+  referenceImage?: string;
+}
+
+export interface ImageResult {
+  /** http(s) 地址或 data URL */
+  url: string;
+  usage?: TokenUsage;
+}
+
+export interface ImageProvider {
+  buildRequest: (
+    endpoint: ImageEndpoint,
+    request: ImageRequest,
+  ) => { url: string; init: RequestInit };
+  /** 响应中找不到图片时抛出 ImageResponseError */
+  parseResponse: (data: any, endpoint: ImageEndpoint) => ImageResult;
+}
+
+/**
+ * 响应中没有可用的图片（格式与所选接口不符）
+ */
+export class ImageResponseError extends Error {
+  constructor() {
+    super("Image response did not contain an image");
+    this.name = "ImageResponseError";
+  }
+}
+
+export const IMAGE_SIZE_OPTIONS = [
+  "",
+  "1024x1024",
+  "1536x1024",
+  "1024x1536",
+  "1792x1024",
+  "1024x1792",
+];
+
+export const IMAGE_ASPECT_RATIO_OPTIONS = [
+  "",
+  "1:1",
+  "16:9",
+  "9:16",
+  "4:3",
+  "3:4",
+];
+
+/**
+ * 按路径读取嵌套字段，支持 `a.b[0].c` 与 `a.b.0.c` 两种写法
+ */
+export const getByPath = (data: any, path: string): any =>
+  path
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .filter(Boolean)
+    .reduce((value, key) => (value == null ? undefined : value[key]), data);
+
+/**
+ * 统一为可直接展示的地址：http(s) / data URL 原样返回，其余视为 base64 PNG
+ */
+export const toImageUrl = (value: unknown): string => {
+  if (typeof value !== "string" || !value) throw new ImageResponseError();
+  if (/^(https?:|data:)/.test(value)) return value;
+  return `data:image/png;base64,${value}`;
+};
+
+const jsonRequest = (endpoint: ImageEndpoint, body: Record<string, any>) => ({
+  url: endpoint.baseUrl,
+  init: {
+    method: "POST",
+    headers: buildHeaders(endpoint.baseUrl, endpoint.apiKey),
+    body: JSON.stringify(body),
+  },
+});
+
+/**
+ * Chat Completions + modalities（原有实现）
+ */
+const chatImageProvider: ImageProvider = {
+  buildRequest: (endpoint, request) =>
+    jsonRequest(endpoint, {
+      model: endpoint.model,
+      messages: [
+        {
+          role: "user",
+          content: request.referenceImage
+            ? [
+                { type: "text", text: request.prompt },
+                {
+                  type: "image_url",
+                  image_url: { url: request.referenceImage },
+                },
+              ]
+            : request.prompt,
+        },
+      ],
+      modalities: ["image", "text"],
+      ...(request.aspectRatio && {
+        image_config: { aspect_ratio: request.aspectRatio },
+      }),
+    }),
+  parseResponse: (data) => ({
+    url: toImageUrl(data?.choices?.[0]?.message?.images?.[0]?.image_url?.url),
+    // 与文本接口同为 Chat Completions 格式，用量字段一致
+    usage: getChatProvider("openai").parseResponse(data).usage,
+  }),
+};
+
+/**
+ * OpenAI 风格 /images/generations
+ * - dall-e 默认返回 url，gpt-image 系列只返回 b64_json
+ */
+const openaiImageProvider: ImageProvider = {
+  buildRequest: (endpoint, request) =>
+    jsonRequest(endpoint, {
+      model: endpoint.model,
+      prompt: request.prompt,
+      n: 1,
+      ...(request.size && { size: request.size }),
+    }),
+  parseResponse: (data) => {
+    const image = data?.data?.[0];
+    const usage = data?.usage;
+    return {
+      url: toImageUrl(image?.url || image?.b64_json),
+      ...(usage && {
+        usage: {
+          promptTokens: usage.input_tokens || 0,
+          completionTokens: usage.output_tokens || 0,
+        },
+      }),
+    };
+  },
+};
+
+/**
+ * Stability AI v2beta stable-image 接口（multipart 表单）
+ */
+const stabilityImageProvider: ImageProvider = {
+  buildRequest: (endpoint, request) => {
+    const form = new FormData();
+    form.append("prompt", request.prompt);
+    form.append("output_format", "png");
+    if (endpoint.model) form.append("model", endpoint.model);
+    if (request.aspectRatio) form.append("aspect_ratio", request.aspectRatio);
+    return {
+      url: endpoint.baseUrl,
+      init: {
+        method: "POST",
+        // 不设置 Content-Type，由浏览器生成 multipart boundary
+        headers: {
+          Authorization: `Bearer ${endpoint.apiKey}`,
+          Accept: "application/json",
+        },
+        body: form,
+      },
+    };
+  },
+  parseResponse: (data) => ({
+    url: toImageUrl(data?.image || data?.artifacts?.[0]?.base64),
+  }),
+};
+
+/**
+ * 通用 JSON 接口：请求体携带常见字段，响应按 responsePath 读取
+ */
+const jsonPathImageProvider: ImageProvider = {
+  buildRequest: (endpoint, request) =>
+    jsonRequest(endpoint, {
+      model: endpoint.model,
+      prompt: request.prompt,
+      ...(request.size && { size: request.size }),
+      ...(request.aspectRatio && { aspect_ratio: request.aspectRatio }),
+    }),
+  parseResponse: (data, endpoint) => ({
+    url: toImageUrl(getByPath(data, endpoint.responsePath || "url")),
+  }),
+};
+
+const PROVIDERS: Record<ImageProviderType, ImageProvider> = {
+  chat: chatImageProvider,
+  openai: openaiImageProvider,
+  stability: stabilityImageProvider,
+  jsonPath: jsonPathImageProvider,
+};
+
+/**
+ * 可选的图片接口列表（供设置页渲染）
+ */
+export const IMAGE_PROVIDER_OPTIONS: {
+  value: ImageProviderType;
+  labelKey: string;
+  defaultUrl: string;
+}[] = [
+  {
+    value: "chat",
+    labelKey: "settings.imageProviders.chat",
+    defaultUrl: "https://openrouter.ai/api/v1/chat/completions",
+  },
+  {
+    value: "openai",
+    labelKey: "settings.imageProviders.openai",
+    defaultUrl: "https://api.openai.com/v1/images/generations",
+  },
+  {
+    value: "stability",
+    labelKey: "settings.imageProviders.stability",
+    defaultUrl: "https://api.stability.ai/v2beta/stable-image/generate/core",
+  },
+  {
+    value: "jsonPath",
+    labelKey: "settings.imageProviders.jsonPath",
+    defaultUrl: "https://api.example.com/v1/images",
+  },
+];
+
+/**
+ * 获取图片 provider 适配器，未知类型回退到 chat
+ */
+export const getImageProvider = (type?: string): ImageProvider =>
+  PROVIDERS[type as ImageProviderType] || chatImageProvider;
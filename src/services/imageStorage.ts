@@ -0,0 +1,401 @@
+/**
+ * 节点图片对象存储
+ * - 生成的图片上传到对象存储，节点只保存形如 `supabase:<projectId>/<file>` 的引用（imagePath）
+ * - supabase：已登录项目，私有 bucket，按项目 ID 分目录，RLS 与 projects 表一致（见 schema.sql）
+ * - local：开发环境的本地磁盘替身（VITE_IMAGE_STORAGE=local，由 vite dev server 写入 .local-storage/）
+ * - browser：游客项目，保存在 IndexedDB，刷新后仍可恢复
+ * - 每张图同时上传一张缩略图（<file>.thumb.jpg），节点卡片只加载缩略图
+ * - 节点或历史条目被删除时，对应的原图与缩略图一并从存储中删除
+ */
+import { supabase } from "@/lib/supabase";
+
+export type ImageStoreType = "supabase" | "local" | "browser";
+
+export const IMAGE_BUCKET = "node-images";
+
+/** 本地磁盘替身的访问前缀（与 vite.config.ts 中的中间件一致） */
+export const LOCAL_STORAGE_PREFIX = "/__local-storage";
+
+/** 签名地址有效期（秒） */
+const SIGNED_URL_TTL = 60 * 60;
+
+const THUMBNAIL_MAX_SIZE = 320;
+
+export interface ImageRef {
+  store: ImageStoreType;
+  path: string;
+}
+
+interface ImageStore {
+  upload: (path: string, blob: Blob) => Promise<void>;
+  /** 对象不存在时抛出 */
+  getUrl: (path: string) => Promise<string>;
+  /** 对象不存在时忽略 */
+  remove: (paths: string[]) => Promise<void>;
+}
+
+const STORE_TYPES: ImageStoreType[] = ["supabase", "local", "browser"];
+
+export const buildImageRef = (store: ImageStoreType, path: string) =>
+  `${store}:${path}`;
+
+/**
+ * 解析节点上的图片引用；http(s) / data URL 等旧数据返回 null
+ */
+export const parseImageRef = (value?: string | null): ImageRef | null => {
+  const match = /^([a-z]+):(?!\/\/)(.+)$/.exec(value || "");
+  if (!match || !STORE_TYPES.includes(match[1] as ImageStoreType)) return null;
+  return { store: match[1] as ImageStoreType, path: match[2] };
+};
+
+/**
+ * 对象路径：首段必须是项目 ID（bucket 的 RLS 依赖这一点）
+ */
+export const buildObjectPath = (
+  projectId: string,
+  nodeId: string,
+  extension: string,
+  now = Date.now(),
+) => `${projectId}/${nodeId.replace(/[^\w-]/g, "_")}-${now}.${extension}`;
+
+export const getThumbnailPath = (path: string) => `${path}.thumb.jpg`;
+
+/**
+ * 选择存储后端：显式配置 local 时始终使用本地替身，否则已登录用 supabase、游客用 browser
+ */
+export const selectImageStore = (
+  isCloudProject: boolean,
+  configured: string | undefined = import.meta.env.VITE_IMAGE_STORAGE,
+): ImageStoreType => {
+  if (configured === "local" && import.meta.env.DEV) return "local";
+  return isCloudProject ? "supabase" : "browser";
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/svg+xml": "svg",
+};
+
+export const getImageExtension = (mimeType: string) =>
+  EXTENSIONS[mimeType.split(";")[0]] || "png";
+
+/**
+ * 将生成结果（data URL 或远程地址）读取为 Blob
+ */
+export const readImageBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok)
+    throw new Error(`Image download failed: ${response.status}`);
+  return response.blob();
+};
+
+/**
+ * 生成等比缩略图（JPEG）；环境不支持或图片无法解码时返回 null，由调用方直接使用原图
+ */
+export const createThumbnail = async (blob: Blob): Promise<Blob | null> => {
+  try {
+    if (typeof createImageBitmap === "undefined") return null;
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(
+      1,
+      THUMBNAIL_MAX_SIZE / Math.max(bitmap.width, bitmap.height),
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas
+      .getContext("2d")
+      ?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise((resolve) =>
+      canvas.toBlob((result) => resolve(result), "image/jpeg", 0.8),
+    );
+  } catch (e) {
+    console.warn("[ImageStorage] 缩略图生成失败，使用原图", e);
+    return null;
+  }
+};
+
+// ============================================================
+// Supabase Storage
+// ============================================================
+
+const supabaseStore: ImageStore = {
+  upload: async (path, blob) => {
+    const { error } = await supabase.storage
+      .from(IMAGE_BUCKET)
+      .upload(path, blob, { contentType: blob.type, upsert: true });
+    if (error) throw error;
+  },
+  getUrl: async (path) => {
+    const { data, error } = await supabase.storage
+      .from(IMAGE_BUCKET)
+      .createSignedUrl(path, SIGNED_URL_TTL);
+    if (error || !data) throw error || new Error("Signed URL unavailable");
+    return data.signedUrl;
+  },
+  remove: async (paths) => {
+    const { error } = await supabase.storage.from(IMAGE_BUCKET).remove(paths);
+    if (error) throw error;
+  },
+};
+
+// ============================================================
+// 本地磁盘替身（仅开发环境）
+// ============================================================
+
+const localUrl = (path: string) =>
+  `${LOCAL_STORAGE_PREFIX}/${IMAGE_BUCKET}/${path}`;
+
+const localStore: ImageStore = {
+  upload: async (path, blob) => {
+    const response = await fetch(localUrl(path), {
+      method: "PUT",
+      headers: { "Content-Type": blob.type },
+      body: blob,
+    });
+    if (!response.ok)
+      throw new Error(`Local upload failed: ${response.status}`);
+  },
+  getUrl: async (path) => {
+    const response = await fetch(localUrl(path), { method: "HEAD" });
+    if (!response.ok) throw new Error(`Local image missing: ${path}`);
+    return localUrl(path);
+  },
+  remove: async (paths) => {
+    await Promise.all(
+      paths.map(async (path) => {
+        const response = await fetch(localUrl(path), { method: "DELETE" });
+        if (!response.ok && response.status !== 404)
+          throw new Error(`Local delete failed: ${response.status}`);
+      }),
+    );
+  },
+};
+
+// ============================================================
+// IndexedDB（游客）
+// ============================================================
+
+const DB_NAME = "thinkflow_images";
+const STORE_NAME = "images";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined")
+      return reject(new Error("IndexedDB unavailable"));
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // 打开失败后允许下次重试
+  dbPromise.catch(() => (dbPromise = null));
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(
+      db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+    );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const browserStore: ImageStore = {
+  upload: async (path, blob) => {
+    await runRequest("readwrite", (store) => store.put(blob, path));
+  },
+  getUrl: async (path) => {
+    const blob = await runRequest<Blob | undefined>("readonly", (store) =>
+      store.get(path),
+    );
+    if (!blob) throw new Error(`Browser image missing: ${path}`);
+    return URL.createObjectURL(blob);
+  },
+  remove: async (paths) => {
+    await Promise.all(
+      paths.map((path) =>
+        runRequest("readwrite", (store) => store.delete(path)),
+      ),
+    );
+  },
+};
+
+const STORES: Record<ImageStoreType, ImageStore> = {
+  supabase: supabaseStore,
+  local: localStore,
+  browser: browserStore,
+};
+
+// ============================================================
+// 对外接口
+// ============================================================
+
+/**
+ * 上传节点图片（原图 + 缩略图），返回写入节点的引用
+ * - 缩略图失败不影响原图
+ */
+export const uploadNodeImage = async (options: {
+  store: ImageStoreType;
+  projectId: string;
+  nodeId: string;
+  source: string;
+}): Promise<string> => {
+  const blob = await readImageBlob(options.source);
+  const path = buildObjectPath(
+    options.projectId,
+    options.nodeId,
+    getImageExtension(blob.type),
+  );
+  const store = STORES[options.store];
+  await store.upload(path, blob);
+
+  const thumbnail = await createThumbnail(blob);
+  if (thumbnail) {
+    await store
+      .upload(getThumbnailPath(path), thumbnail)
+      .catch((e) => console.warn("[ImageStorage] 缩略图上传失败", e));
+  }
+  return buildImageRef(options.store, path);
+};
+
+/**
+ * 已解析的地址
+ * - 签名地址在过期前复用
+ * - 浏览器对象地址（blob:）不过期，按使用者计数，最后一个使用者释放后撤销
+ */
+const urlCache = new Map<
+  string,
+  { url: Promise<string>; expiresAt: number; holders: number }
+>();
+
+const getCacheKey = (value: string, thumbnail?: boolean) =>
+  `${value}#${thumbnail ? "thumb" : "full"}`;
+
+/**
+ * 移出缓存并撤销浏览器对象地址
+ */
+const evictUrl = (cacheKey: string) => {
+  const cached = urlCache.get(cacheKey);
+  if (!cached) return;
+  urlCache.delete(cacheKey);
+  cached.url
+    .then((url) => {
+      if (url.startsWith("blob:")) URL.revokeObjectURL(url);
+    })
+    .catch(() => {});
+};
+
+/**
+ * 将节点图片引用解析为可展示的地址
+ * - thumbnail 为 true 时优先取缩略图，缩略图不存在则回退原图
+ * - 旧数据中的 http(s) / data URL 原样返回
+ * - 每次解析登记一个使用者，不再使用时调用 releaseImageUrl 释放
+ */
+export const resolveImageUrl = (
+  value: string,
+  options: { thumbnail?: boolean } = {},
+): Promise<string> => {
+  const ref = parseImageRef(value);
+  if (!ref) return Promise.resolve(value);
+
+  const cacheKey = getCacheKey(value, options.thumbnail);
+  const cached = urlCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    cached.holders += 1;
+    return cached.url;
+  }
+
+  const store = STORES[ref.store];
+  const url = options.thumbnail
+    ? store
+        .getUrl(getThumbnailPath(ref.path))
+        .catch(() => store.getUrl(ref.path))
+    : store.getUrl(ref.path);
+  // 预留一分钟余量，避免拿到即将过期的签名地址
+  urlCache.set(cacheKey, {
+    url,
+    expiresAt:
+      ref.store === "browser"
+        ? Infinity
+        : Date.now() + (SIGNED_URL_TTL - 60) * 1000,
+    holders: 1,
+  });
+  url.catch(() => urlCache.delete(cacheKey));
+  return url;
+};
+
+/**
+ * 释放 resolveImageUrl 登记的使用者；浏览器对象地址在无人使用时撤销
+ */
+export const releaseImageUrl = (
+  value: string,
+  options: { thumbnail?: boolean } = {},
+) => {
+  const cacheKey = getCacheKey(value, options.thumbnail);
+  const cached = urlCache.get(cacheKey);
+  if (!cached) return;
+  cached.holders -= 1;
+  if (cached.holders <= 0 && parseImageRef(value)?.store === "browser") {
+    evictUrl(cacheKey);
+  }
+};
+
+/**
+ * 删除节点图片（原图与缩略图），并撤销已解析的地址
+ * - 旧数据中的 http(s) / data URL 不在存储中，直接跳过
+ * - 删除失败只记录警告，不影响节点本身的删除
+ */
+export const deleteNodeImages = async (sources: string[]) => {
+  const refs = sources.map(parseImageRef).filter(Boolean) as ImageRef[];
+  sources.forEach((source) => {
+    evictUrl(getCacheKey(source, true));
+    evictUrl(getCacheKey(source, false));
+  });
+  await Promise.all(
+    STORE_TYPES.map(async (type) => {
+      const paths = refs
+        .filter((ref) => ref.store === type)
+        .flatMap((ref) => [ref.path, getThumbnailPath(ref.path)]);
+      if (paths.length === 0) return;
+      await STORES[type]
+        .remove(paths)
+        .catch((e) => console.warn("[ImageStorage] 图片删除失败", e));
+    }),
+  );
+};
+
+/**
+ * 将图片引用转换为可发送给远程模型的地址（生成变体时作为参考图）
+ * - http(s) / data URL 原样返回；本地对象（blob: / dev server 路径）读取后转为 data URL
+ */
+export const toReferenceImageUrl = async (value: string): Promise<string> => {
+  try {
+    const url = await resolveImageUrl(value);
+    if (/^(https?:|data:)/.test(url)) return url;
+    const blob = await readImageBlob(url);
+    return await new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result));
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } finally {
+    releaseImageUrl(value);
+  }
+};
@@ -0,0 +1,630 @@
+/**
+ * LLM Provider 适配层
+ * - 按后端协议拆分“构建请求 / 解析响应 / 解析流式分片”，业务层只面向统一的 ChatRequest
+ * - 目前支持：OpenAI 兼容 Chat Completions、Anthropic Messages API、Ollama 原生 API
+ * - 工具调用（function calling）：请求时传入 tools，各协议返回的调用统一解析为 ToolCall
+ * - mock：离线模拟后端（见 mockProvider.ts），响应格式与 OpenAI 兼容
+ */
+
+import { MOCK_BASE_URL } from "./mockProvider";
+import type { TokenUsage } from "./usage";
+
+/**
+ * 文本生成后端协议类型
+ */
+export type ChatProviderType = "openai" | "anthropic" | "ollama" | "mock";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * 一个可调用的文本生成端点（由 apiConfig / DEFAULT_CONFIG 解析得到）
+ */
+export interface ChatEndpoint {
+  provider: ChatProviderType;
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+/**
+ * 可供模型调用的工具（parameters 为 JSON Schema）
+ */
+export interface ChatTool {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+/**
+ * 模型发起的一次工具调用（arguments 已解析为对象）
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+/**
+ * 流式工具调用分片：同一 index 的 arguments 依次拼接为完整 JSON
+ */
+export interface ToolCallChunk {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  stream?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ChatTool[];
+  /** 流式时请求返回用量（OpenAI 兼容接口的 stream_options），默认开启；部分兼容后端不支持该字段 */
+  streamUsage?: boolean;
+}
+
+/**
+ * 一次响应（或一个流式分片）中解析出的正文与思考过程
+ */
+export interface ChatDelta {
+  content: string;
+  reasoning: string;
+  /** 本次调用的 token 用量（后端未返回时为空） */
+  usage?: TokenUsage;
+  /** 模型发起的工具调用（未调用时为空）；流式分片中为已完整的调用，由 readSSEStream 依次收集 */
+  toolCalls?: ToolCall[];
+  /** 流式分片中的工具调用片段（由 readSSEStream 合并） */
+  toolCallChunks?: ToolCallChunk[];
+}
+
+export interface ChatProvider {
+  /** 流式响应的分帧方式：sse 为 `data: {...}` 行，ndjson 为每行一个 JSON */
+  streamFormat: "sse" | "ndjson";
+  buildRequest: (
+    endpoint: ChatEndpoint,
+    request: ChatRequest,
+  ) => { url: string; init: RequestInit };
+  parseResponse: (data: any) => ChatDelta;
+  /** 返回 null 表示该分片不含正文（如 ping / message_start） */
+  parseStreamChunk: (chunk: any) => ChatDelta | null;
+  /** 协议层面的结束标记（SSE 的 [DONE] 由 readSSEStream 统一处理） */
+  isStreamEnd?: (chunk: any) => boolean;
+  /**
+   * 从完整响应或流式分片中读取 token 用量
+   * - 流式时用量可能分散在多个分片（如 Anthropic 的 message_start / message_delta），只返回出现的字段
+   */
+  parseUsage: (data: any) => Partial<TokenUsage> | null;
+}
+
+/**
+ * Anthropic 要求 max_tokens 必填，未指定时使用该默认值
+ */
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+const ANTHROPIC_API_VERSION = "2023-06-01";
+
+/**
+ * 将 parseUsage 的结果补全为 ChatDelta.usage（缺失字段按 0 计）
+ */
+const withUsage = (
+  usage: Partial<TokenUsage> | null,
+): { usage?: TokenUsage } =>
+  usage
+    ? {
+        usage: {
+          promptTokens: usage.promptTokens || 0,
+          completionTokens: usage.completionTokens || 0,
+        },
+      }
+    : {};
+
+/**
+ * 解析工具调用参数：部分后端返回对象，部分返回 JSON 字符串；无法解析时视为空参数
+ */
+const parseToolArguments = (raw: unknown): Record<string, any> => {
+  if (raw && typeof raw === "object") return raw as Record<string, any>;
+  try {
+    const parsed = JSON.parse(String(raw || "{}"));
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * 合并流式工具调用分片，返回完整的调用列表（按 index 排序）
+ */
+export const mergeToolCallChunks = (chunks: ToolCallChunk[]): ToolCall[] => {
+  const merged = new Map<number, ToolCallChunk>();
+  for (const chunk of chunks) {
+    const current = merged.get(chunk.index) || { index: chunk.index };
+    merged.set(chunk.index, {
+      index: chunk.index,
+      id: current.id || chunk.id,
+      name: current.name || chunk.name,
+      arguments: (current.arguments || "") + (chunk.arguments || ""),
+    });
+  }
+  return [...merged.values()]
+    .sort((a, b) => a.index - b.index)
+    .filter((call) => call.name)
+    .map((call) => ({
+      id: call.id || `call-${call.index}`,
+      name: call.name!,
+      arguments: parseToolArguments(call.arguments),
+    }));
+};
+
+/**
+ * 仅在有工具调用时附加 toolCalls 字段
+ */
+const withToolCalls = (toolCalls: ToolCall[]): { toolCalls?: ToolCall[] } =>
+  toolCalls.length > 0 ? { toolCalls } : {};
+
+/**
+ * OpenAI / Ollama 的 tools 字段格式
+ */
+const toFunctionTools = (tools: ChatTool[]) =>
+  tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+
+/**
+ * 构建 OpenAI 兼容请求头：OpenRouter 需额外添加 HTTP-Referer 与 X-Title
+ */
+export const buildHeaders = (
+  baseUrl: string,
+  apiKey: string,
+): Record<string, string> => {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${apiKey}`,
+  };
+  if (baseUrl.includes("openrouter.ai")) {
+    headers["HTTP-Referer"] = window.location.origin;
+    headers["X-Title"] = "ThinkFlowAI";
+  }
+  return headers;
+};
+
+/**
+ * OpenAI 兼容 Chat Completions（OpenRouter / DeepSeek / 智谱等）
+ */
+const openaiProvider: ChatProvider = {
+  streamFormat: "sse",
+  buildRequest: (endpoint, request) => ({
+    url: endpoint.baseUrl,
+    init: {
+      method: "POST",
+      headers: buildHeaders(endpoint.baseUrl, endpoint.apiKey),
+      body: JSON.stringify({
+        model: endpoint.model,
+        messages: request.messages,
+        stream: !!request.stream,
+        // 流式响应默认不返回 usage，需显式开启（末尾追加一个 choices 为空的分片）
+        ...(request.stream &&
+          request.streamUsage !== false && {
+            stream_options: { include_usage: true },
+          }),
+        ...(request.temperature !== undefined && {
+          temperature: request.temperature,
+        }),
+        ...(request.maxTokens !== undefined && {
+          max_tokens: request.maxTokens,
+        }),
+        ...(request.tools?.length && { tools: toFunctionTools(request.tools) }),
+      }),
+    },
+  }),
+  parseResponse: (data) => {
+    const message = data?.choices?.[0]?.message;
+    return {
+      content: message?.content || "",
+      reasoning: message?.reasoning || "",
+      ...withUsage(openaiProvider.parseUsage(data)),
+      ...withToolCalls(
+        (message?.tool_calls || []).map((call: any, index: number) => ({
+          id: call.id || `call-${index}`,
+          name: call.function?.name || "",
+          arguments: parseToolArguments(call.function?.arguments),
+        })),
+      ),
+    };
+  },
+  parseStreamChunk: (chunk) => {
+    const deltaObj = chunk?.choices?.[0]?.delta;
+    if (!deltaObj) return null;
+    return {
+      content: deltaObj.content || "",
+      reasoning: deltaObj.reasoning || "",
+      ...(deltaObj.tool_calls && {
+        toolCallChunks: deltaObj.tool_calls.map((call: any, i: number) => ({
+          index: call.index ?? i,
+          id: call.id,
+          name: call.function?.name,
+          arguments: call.function?.arguments,
+        })),
+      }),
+    };
+  },
+  parseUsage: (data) => {
+    const usage = data?.usage;
+    if (!usage) return null;
+    return {
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+    };
+  },
+};
+
+/**
+ * Anthropic Messages API 不支持 system 角色消息，且要求 user/assistant 交替出现
+ * - system 消息合并为顶层 system 字段
+ * - 相邻同角色消息合并为一条
+ */
+const toAnthropicMessages = (messages: ChatMessage[]) => {
+  const system = messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+
+  const merged: { role: "user" | "assistant"; content: string }[] = [];
+  for (const m of messages) {
+    if (m.role === "system") continue;
+    const last = merged[merged.length - 1];
+    if (last && last.role === m.role) {
+      last.content += `\n\n${m.content}`;
+    } else {
+      merged.push({ role: m.role, content: m.content });
+    }
+  }
+  return { system, messages: merged };
+};
+
+/**
+ * Anthropic Messages API
+ */
+const anthropicProvider: ChatProvider = {
+  streamFormat: "sse",
+  buildRequest: (endpoint, request) => {
+    const { system, messages } = toAnthropicMessages(request.messages);
+    return {
+      url: endpoint.baseUrl,
+      init: {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": endpoint.apiKey,
+          "anthropic-version": ANTHROPIC_API_VERSION,
+          // 浏览器直连需显式声明
+          "anthropic-dangerous-direct-browser-access": "true",
+        },
+        body: JSON.stringify({
+          model: endpoint.model,
+          ...(system && { system }),
+          messages,
+          max_tokens: request.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+          stream: !!request.stream,
+          ...(request.temperature !== undefined && {
+            // Anthropic 温度范围为 0-1
+            temperature: Math.min(request.temperature, 1),
+          }),
+          ...(request.tools?.length && {
+            tools: request.tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.parameters,
+            })),
+          }),
+        }),
+      },
+    };
+  },
+  parseResponse: (data) => {
+    const blocks: any[] = data?.content || [];
+    return {
+      content: blocks
+        .filter((b) => b.type === "text")
+        .map((b) => b.text)
+        .join(""),
+      reasoning: blocks
+        .filter((b) => b.type === "thinking")
+        .map((b) => b.thinking)
+        .join(""),
+      ...withUsage(anthropicProvider.parseUsage(data)),
+      ...withToolCalls(
+        blocks
+          .filter((b) => b.type === "tool_use")
+          .map((b) => ({
+            id: b.id,
+            name: b.name,
+            arguments: parseToolArguments(b.input),
+          })),
+      ),
+    };
+  },
+  parseStreamChunk: (chunk) => {
+    // 工具调用：content_block_start 给出名称，随后的 input_json_delta 拼接参数
+    if (
+      chunk?.type === "content_block_start" &&
+      chunk.content_block?.type === "tool_use"
+    ) {
+      return {
+        content: "",
+        reasoning: "",
+        toolCallChunks: [
+          {
+            index: chunk.index,
+            id: chunk.content_block.id,
+            name: chunk.content_block.name,
+          },
+        ],
+      };
+    }
+    if (chunk?.type !== "content_block_delta") return null;
+    const delta = chunk.delta || {};
+    if (delta.type === "text_delta") {
+      return { content: delta.text || "", reasoning: "" };
+    }
+    if (delta.type === "thinking_delta") {
+      return { content: "", reasoning: delta.thinking || "" };
+    }
+    if (delta.type === "input_json_delta") {
+      return {
+        content: "",
+        reasoning: "",
+        toolCallChunks: [
+          { index: chunk.index, arguments: delta.partial_json || "" },
+        ],
+      };
+    }
+    return null;
+  },
+  isStreamEnd: (chunk) => chunk?.type === "message_stop",
+  parseUsage: (data) => {
+    // 流式：message_start 携带输入用量，message_delta 携带累计输出用量
+    const usage =
+      data?.type === "message_start" ? data.message?.usage : data?.usage;
+    if (!usage) return null;
+    const result: Partial<TokenUsage> = {};
+    if (typeof usage.input_tokens === "number")
+      result.promptTokens = usage.input_tokens;
+    if (typeof usage.output_tokens === "number")
+      result.completionTokens = usage.output_tokens;
+    return result;
+  },
+};
+
+/**
+ * Ollama 原生 /api/chat（流式为 NDJSON）
+ */
+const ollamaProvider: ChatProvider = {
+  streamFormat: "ndjson",
+  buildRequest: (endpoint, request) => {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    // 本地 Ollama 无需鉴权；经反向代理访问时可能需要
+    if (endpoint.apiKey) headers.Authorization = `Bearer ${endpoint.apiKey}`;
+
+    const options: Record<string, number> = {};
+    if (request.temperature !== undefined)
+      options.temperature = request.temperature;
+    if (request.maxTokens !== undefined)
+      options.num_predict = request.maxTokens;
+
+    return {
+      url: endpoint.baseUrl,
+      init: {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: endpoint.model,
+          messages: request.messages,
+          stream: !!request.stream,
+          ...(Object.keys(options).length > 0 && { options }),
+          ...(request.tools?.length && {
+            tools: toFunctionTools(request.tools),
+          }),
+        }),
+      },
+    };
+  },
+  parseResponse: (data) => ({
+    content: data?.message?.content || "",
+    reasoning: data?.message?.thinking || "",
+    ...withUsage(ollamaProvider.parseUsage(data)),
+    ...withToolCalls(
+      (data?.message?.tool_calls || []).map((call: any, index: number) => ({
+        id: `call-${index}`,
+        name: call.function?.name || "",
+        arguments: parseToolArguments(call.function?.arguments),
+      })),
+    ),
+  }),
+  parseStreamChunk: (chunk) => {
+    if (!chunk?.message) return null;
+    return {
+      content: chunk.message.content || "",
+      reasoning: chunk.message.thinking || "",
+      // Ollama 的工具调用各自完整，但可能分布在多个分片中且都从 0 编号，因此不按 index 合并
+      ...(chunk.message.tool_calls && {
+        toolCalls: chunk.message.tool_calls.map((call: any) => ({
+          id: call.id || "",
+          name: call.function?.name || "",
+          arguments: parseToolArguments(call.function?.arguments),
+        })),
+      }),
+    };
+  },
+  isStreamEnd: (chunk) => chunk?.done === true,
+  // 用量仅出现在最后一个 done 分片 / 非流式响应中
+  parseUsage: (data) => {
+    if (!data?.done) return null;
+    return {
+      promptTokens: data.prompt_eval_count || 0,
+      completionTokens: data.eval_count || 0,
+    };
+  },
+};
+
+/**
+ * 离线 Mock：请求由 mockFetch 处理而非 fetch，响应解析复用 OpenAI 兼容格式
+ */
+const mockProvider: ChatProvider = {
+  ...openaiProvider,
+  buildRequest: (endpoint, request) => ({
+    url: MOCK_BASE_URL,
+    init: {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: endpoint.model || "mock",
+        messages: request.messages,
+        stream: !!request.stream,
+        ...(request.tools?.length && { tools: toFunctionTools(request.tools) }),
+      }),
+    },
+  }),
+};
+
+const PROVIDERS: Record<ChatProviderType, ChatProvider> = {
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  ollama: ollamaProvider,
+  mock: mockProvider,
+};
+
+/**
+ * 可选的 provider 列表（供设置页渲染）
+ * - defaultUrl 仅作为输入框占位提示
+ */
+export const CHAT_PROVIDER_OPTIONS: {
+  value: ChatProviderType;
+  labelKey: string;
+  defaultUrl: string;
+}[] = [
+  {
+    value: "openai",
+    labelKey: "settings.providers.openai",
+    defaultUrl: "https://openrouter.ai/api/v1/chat/completions",
+  },
+  {
+    value: "anthropic",
+    labelKey: "settings.providers.anthropic",
+    defaultUrl: "https://api.anthropic.com/v1/messages",
+  },
+  {
+    value: "ollama",
+    labelKey: "settings.providers.ollama",
+    defaultUrl: "http://localhost:11434/api/chat",
+  },
+  {
+    value: "mock",
+    labelKey: "settings.providers.mock",
+    defaultUrl: MOCK_BASE_URL,
+  },
+];
+
+/**
+ * 获取 provider 适配器，未知类型回退到 OpenAI 兼容
+ */
+export const getChatProvider = (type?: string): ChatProvider =>
+  PROVIDERS[type as ChatProviderType] || openaiProvider;
+
+/**
+ * 读取流式响应，逐分片回调
+ * - 按 provider 的分帧方式（SSE / NDJSON）切行，再交给适配器解析
+ * - 分散在各分片中的 token 用量合并后通过 onUsage 回调（流结束时调用一次）
+ * - 工具调用分片合并后，与分片中已完整的调用一起通过 onToolCalls 回调（流结束且存在调用时调用一次）
+ * - 返回完整正文
+ */
+export const readSSEStream = async (
+  response: Response,
+  provider: ChatProvider,
+  onDelta: (
+    delta: string,
+    fullContent: string,
+    reasoningDelta?: string,
+  ) => void,
+  onUsage?: (usage: TokenUsage) => void,
+  onToolCalls?: (toolCalls: ToolCall[]) => void,
+): Promise<string> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let sseBuffer = "";
+  let fullContent = "";
+  let usage: Partial<TokenUsage> | null = null;
+  const toolCallChunks: ToolCallChunk[] = [];
+  const completeToolCalls: ToolCall[] = [];
+
+  /**
+   * 处理单行，返回 true 表示流已结束
+   */
+  const handleLine = (line: string): boolean => {
+    const trimmed = line.trim();
+    if (!trimmed) return false;
+
+    let payload = trimmed;
+    if (provider.streamFormat === "sse") {
+      // 忽略 event: / id: 等其他 SSE 字段
+      if (!trimmed.startsWith("data:")) return false;
+      payload = trimmed.slice(5).trim();
+      if (payload === "[DONE]") return true;
+    }
+
+    try {
+      const chunk = JSON.parse(payload);
+      const parsed = provider.parseStreamChunk(chunk);
+      if (parsed && (parsed.content || parsed.reasoning)) {
+        fullContent += parsed.content;
+        onDelta(parsed.content, fullContent, parsed.reasoning);
+      }
+      if (parsed?.toolCallChunks) toolCallChunks.push(...parsed.toolCallChunks);
+      if (parsed?.toolCalls) completeToolCalls.push(...parsed.toolCalls);
+      const chunkUsage = provider.parseUsage(chunk);
+      if (chunkUsage) usage = { ...usage, ...chunkUsage };
+      return !!provider.isStreamEnd?.(chunk);
+    } catch (e) {
+      console.warn("SSE Parse Error:", e);
+      return false;
+    }
+  };
+
+  const finish = () => {
+    if (usage && onUsage) onUsage(withUsage(usage).usage!);
+    const toolCalls = [
+      ...mergeToolCallChunks(toolCallChunks),
+      ...completeToolCalls
+        .filter((call) => call.name)
+        .map((call, index) => ({ ...call, id: call.id || `call-${index}` })),
+    ];
+    if (toolCalls.length > 0 && onToolCalls) onToolCalls(toolCalls);
+    return fullContent;
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    sseBuffer += decoder.decode(value, { stream: true });
+
+    const lines = sseBuffer.split("\n");
+    sseBuffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (handleLine(line)) return finish();
+    }
+  }
+
+  // NDJSON 的最后一行可能没有换行符
+  if (sseBuffer) handleLine(sseBuffer);
+  return finish();
+};
@@ -0,0 +1,145 @@
+/**
+ * 导图翻译
+ * - 节点的标题、描述与深挖内容按批次交给模型翻译，结果作为语言层写入 data.translations[language]
+ * - 原文不变；界面按当前选择的语言层展示，缺少译文的字段回退到原文
+ */
+import { estimateTokens } from "./graphRetrieval";
+
+export interface NodeTranslation {
+  label: string;
+  description: string;
+  detailedContent?: string;
+}
+
+/** 语言代码 -> 译文 */
+export type NodeTranslations = Record<string, NodeTranslation>;
+
+/**
+ * 可选的目标语言（名称为该语言的自称，直接写入 prompt）
+ */
+export const TRANSLATION_LANGUAGES: { code: string; name: string }[] = [
+  { code: "en", name: "English" },
+  { code: "zh", name: "简体中文" },
+  { code: "zh-TW", name: "繁體中文" },
+  { code: "ja", name: "日本語" },
+  { code: "ko", name: "한국어" },
+  { code: "es", name: "Español" },
+  { code: "fr", name: "Français" },
+  { code: "de", name: "Deutsch" },
+];
+
+export const getLanguageName = (code: string) =>
+  TRANSLATION_LANGUAGES.find((l) => l.code === code)?.name || code;
+
+/**
+ * 送去翻译的一条节点内容（同时也是模型返回的结构）
+ */
+export interface TranslationItem {
+  id: string;
+  label: string;
+  description: string;
+  detailedContent?: string;
+}
+
+export type MapTranslationStatus =
+  "running" | "completed" | "cancelled" | "error";
+
+export interface MapTranslationProgress {
+  language: string;
+  status: MapTranslationStatus;
+  /** 已翻译的节点数 / 总节点数 */
+  completed: number;
+  total: number;
+  error: string | null;
+}
+
+/** 单批次的 token 上限（按原文估算）与节点数上限 */
+const MAX_BATCH_TOKENS = 2000;
+const MAX_BATCH_ITEMS = 15;
+
+export const toTranslationItem = (node: {
+  id: string;
+  data: any;
+}): TranslationItem => ({
+  id: node.id,
+  label: node.data?.label || "",
+  description: node.data?.description || "",
+  ...(node.data?.detailedContent && {
+    detailedContent: node.data.detailedContent,
+  }),
+});
+
+/**
+ * 按估算的 token 数与条数分批；单条超出上限时独占一批
+ */
+export const buildTranslationBatches = (
+  items: TranslationItem[],
+  maxTokens = MAX_BATCH_TOKENS,
+  maxItems = MAX_BATCH_ITEMS,
+): TranslationItem[][] => {
+  const batches: TranslationItem[][] = [];
+  let batch: TranslationItem[] = [];
+  let tokens = 0;
+  for (const item of items) {
+    const itemTokens = estimateTokens(JSON.stringify(item));
+    if (
+      batch.length > 0 &&
+      (tokens + itemTokens > maxTokens || batch.length >= maxItems)
+    ) {
+      batches.push(batch);
+      batch = [];
+      tokens = 0;
+    }
+    batch.push(item);
+    tokens += itemTokens;
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+};
+
+/**
+ * 合并模型返回的译文：只接受本批次内的节点，缺失的字段保留原文
+ */
+export const mergeTranslations = (
+  batch: TranslationItem[],
+  translated: TranslationItem[],
+): Map<string, NodeTranslation> => {
+  const result = new Map<string, NodeTranslation>();
+  for (const item of translated) {
+    const source = batch.find((b) => b.id === item.id);
+    if (!source) continue;
+    result.set(item.id, {
+      label: item.label?.trim() || source.label,
+      description: item.description ?? source.description,
+      ...(source.detailedContent && {
+        detailedContent: item.detailedContent || source.detailedContent,
+      }),
+    });
+  }
+  return result;
+};
+
+/**
+ * 取节点在指定语言层下展示的文本；language 为 null 或缺少译文时返回原文
+ */
+export const getTranslatedText = (
+  data: any,
+  language: string | null,
+  field: keyof NodeTranslation,
+): string => {
+  const translation = language ? data?.translations?.[language] : null;
+  return translation?.[field] || data?.[field] || "";
+};
+
+/**
+ * 导图中已有的语言层（按首次出现顺序）
+ */
+export const getMapLanguages = (nodes: { data?: any }[]): string[] => {
+  const languages = new Set<string>();
+  nodes.forEach((node) =>
+    Object.keys(node.data?.translations || {}).forEach((language) =>
+      languages.add(language),
+    ),
+  );
+  return [...languages];
+};
@@ -0,0 +1,418 @@
+/**
+ * 离线 Mock Provider（开发 / 演示用）
+ * - 不发起网络请求：按动作生成固定模板 + 种子随机的内容，包装成 OpenAI 兼容的 SSE / JSON 响应
+ * - 返回真实的 Response 对象，流式内容仍经过 readSSEStream 解析，与真实后端走同一条路径
+ * - 种子由请求消息计算，同一请求得到同一结果；内容语言跟随 prompt（含中文则输出中文）
+ * - 请求带 add_sticky_note 工具且用户要求记笔记 / 便签时，模拟一次工具调用
+ * - 图谱对话的回答引用 system prompt 中列出的第一个节点（[[node-id]]）
+ */
+import type { ChatMessage } from "./llmProviders";
+import type { TranslationItem } from "./mapTranslation";
+import type { UsageAction } from "./usage";
+
+export const MOCK_BASE_URL = "mock://thinkflow";
+
+/** 流式分片大小与间隔：模拟逐字输出 */
+const CHUNK_SIZE = 16;
+const CHUNK_DELAY_MS = 15;
+
+/**
+ * 字符串哈希（FNV-1a），用作随机种子
+ */
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * 种子随机数（mulberry32）
+ */
+export const createSeededRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const ASPECTS = {
+  zh: [
+    "核心概念",
+    "历史背景",
+    "关键机制",
+    "实际应用",
+    "常见误区",
+    "未来趋势",
+    "相关案例",
+    "评价标准",
+  ],
+  en: [
+    "Core Concepts",
+    "Background",
+    "Key Mechanisms",
+    "Applications",
+    "Common Pitfalls",
+    "Future Trends",
+    "Case Studies",
+    "Evaluation",
+  ],
+};
+
+const QUESTIONS = {
+  zh: [
+    "{topic}在实践中最大的挑战是什么？",
+    "{topic}与相邻领域有哪些交叉？",
+    "如果从零开始学习{topic}，应该先掌握什么？",
+    "{topic}的效果应该如何衡量？",
+    "{topic}在未来五年会如何演变？",
+  ],
+  en: [
+    "What is the biggest practical challenge of {topic}?",
+    "Where does {topic} overlap with neighbouring fields?",
+    "What should a beginner learn first about {topic}?",
+    "How would you measure the impact of {topic}?",
+    "How might {topic} evolve over the next five years?",
+  ],
+};
+
+type MockLanguage = "zh" | "en";
+
+const pick = <T>(items: T[], random: () => number) =>
+  items[Math.floor(random() * items.length)];
+
+const shuffle = <T>(items: T[], random: () => number) =>
+  items
+    .map((item) => ({ item, key: random() }))
+    .sort((a, b) => a.key - b.key)
+    .map(({ item }) => item);
+
+/**
+ * 从最后一条用户消息中取一个简短主题（首个非空行，过长截断）
+ */
+const extractTopic = (messages: ChatMessage[]) => {
+  const lastUser = [...messages].reverse().find((m) => m.role === "user");
+  const line =
+    lastUser?.content
+      .split("\n")
+      .map((l) => l.trim())
+      .find(Boolean) || "";
+  return line.length > 24 ? `${line.slice(0, 24)}…` : line;
+};
+
+/**
+ * 取文本中第一个完整的 JSON 数组（按括号配对，跳过字符串内的括号）
+ * - 翻译 prompt 在节点数组之后还有带 [...] 的返回格式示例，不能取到最后一个 ]
+ */
+const extractFirstJsonArray = (text: string) => {
+  const start = text.indexOf("[");
+  if (start < 0) return null;
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') inString = true;
+    else if (char === "[") depth++;
+    else if (char === "]" && --depth === 0) return text.slice(start, i + 1);
+  }
+  return null;
+};
+
+const fill = (template: string, topic: string) =>
+  template.replace(/\{topic\}/g, topic);
+
+const buildMarkdown = (
+  topic: string,
+  language: MockLanguage,
+  random: () => number,
+) => {
+  const aspects = shuffle(ASPECTS[language], random).slice(0, 3);
+  const body = aspects
+    .map((aspect) =>
+      language === "zh"
+        ? `### ${aspect}\n- 关于「${topic}」的${aspect}要点（模拟内容）。\n- 第 ${Math.ceil(random() * 9)} 个示例，仅用于离线演示。`
+        : `### ${aspect}\n- ${aspect} of "${topic}" (mock content).\n- Example #${Math.ceil(random() * 9)}, for offline demos only.`,
+    )
+    .join("\n\n");
+  return language === "zh"
+    ? `**${topic}**（Mock 回答）\n\n${body}`
+    : `**${topic}** (mock answer)\n\n${body}`;
+};
+
+/**
+ * 按动作生成模型输出文本（结构化动作输出符合对应 schema 的 JSON）
+ */
+export const generateMockContent = (
+  action: UsageAction,
+  messages: ChatMessage[],
+): string => {
+  const prompt = messages.map((m) => m.content).join("\n");
+  const random = createSeededRandom(hashString(`${action}\n${prompt}`));
+  const language: MockLanguage = /[\u4e00-\u9fa5]/.test(prompt) ? "zh" : "en";
+  const topic = extractTopic(messages) || "ThinkFlow";
+
+  switch (action) {
+    case "expand":
+      return JSON.stringify({
+        overview:
+          language === "zh"
+            ? `围绕「${topic}」的模拟拆解，共 5 个方向。`
+            : `A mock breakdown of "${topic}" in five directions.`,
+        nodes: shuffle(ASPECTS[language], random)
+          .slice(0, 5)
+          .map((aspect) => ({
+            text: aspect,
+            description:
+              language === "zh"
+                ? `从${aspect}的角度理解「${topic}」`
+                : `Understanding "${topic}" through ${aspect.toLowerCase()}`,
+          })),
+      });
+    case "followUp":
+      return JSON.stringify({
+        answer: buildMarkdown(topic, language, random),
+        summary:
+          language === "zh" ? `${topic}：模拟总结` : `${topic}: mock summary`,
+      });
+    case "derivedQuestions":
+      return JSON.stringify({
+        questions: shuffle(QUESTIONS[language], random)
+          .slice(0, 3)
+          .map((q) => fill(q, topic)),
+      });
+    case "chat": {
+      // 节点 id 列表位于 "Node ids" 之后（之前的上下文正文可能含有列表）
+      const citedId = messages
+        .find((m) => m.role === "system")
+        ?.content.split("Node ids")[1]
+        ?.match(/^\s*- (\S+): /m)?.[1];
+      const citation = citedId ? ` [[${citedId}]]` : "";
+      return language === "zh"
+        ? `（Mock）关于「${topic}」：${pick(ASPECTS.zh, random)}是一个值得继续展开的方向。${citation}`
+        : `(Mock) On "${topic}": ${pick(ASPECTS.en, random).toLowerCase()} is worth exploring next.${citation}`;
+    }
+    case "translate": {
+      // 待翻译的节点是最后一条用户消息中的第一个 JSON 数组
+      const request = messages.filter((m) => m.role === "user").at(-1)?.content;
+      let items: TranslationItem[] = [];
+      try {
+        items = JSON.parse(extractFirstJsonArray(request || "") || "[]");
+      } catch {
+        items = [];
+      }
+      return JSON.stringify({
+        items: items.map((item) => ({
+          ...item,
+          label: `${item.label} (mock)`,
+        })),
+      });
+    }
+    case "outline": {
+      // 文档大纲：4 个章节，每个章节 3 个要点
+      const sections = shuffle(ASPECTS[language], random).slice(0, 4);
+      return JSON.stringify({
+        title:
+          language === "zh" ? "文档大纲（Mock）" : "Document Outline (mock)",
+        summary:
+          language === "zh"
+            ? `从 ${sections.length} 个方面梳理的模拟大纲。`
+            : `A mock outline in ${sections.length} parts.`,
+        sections: sections.map((section) => ({
+          text: section,
+          description:
+            language === "zh"
+              ? `文档中关于${section}的部分`
+              : `What the document says about ${section.toLowerCase()}`,
+          children: [1, 2, 3].map((n) => ({
+            text:
+              language === "zh"
+                ? `${section}要点 ${n}`
+                : `${section} point ${n}`,
+            description:
+              language === "zh"
+                ? `${section}的第 ${n} 个要点（模拟内容）`
+                : `Point ${n} of ${section.toLowerCase()} (mock content)`,
+          })),
+        })),
+      });
+    }
+    default:
+      // deepDive / summary
+      return buildMarkdown(topic, language, random);
+  }
+};
+
+/** 触发模拟工具调用的用户消息 */
+const STICKY_NOTE_REQUEST = /note|便签|笔记|记下/i;
+
+/**
+ * 模拟工具调用：仅支持 add_sticky_note（无需引用节点 id），内容取用户最后一条消息
+ */
+export const generateMockToolCalls = (
+  messages: ChatMessage[],
+  tools: any[] = [],
+) => {
+  const lastUser = [...messages].reverse().find((m) => m.role === "user");
+  const hasTool = tools.some((t) => t.function?.name === "add_sticky_note");
+  if (!hasTool || !lastUser || !STICKY_NOTE_REQUEST.test(lastUser.content))
+    return [];
+  return [
+    {
+      id: `call-mock-${hashString(lastUser.content)}`,
+      type: "function",
+      function: {
+        name: "add_sticky_note",
+        arguments: JSON.stringify({ text: lastUser.content }),
+      },
+    },
+  ];
+};
+
+/**
+ * 生成占位图片（SVG data URL），颜色由种子决定
+ */
+export const generateMockImageUrl = (prompt: string) => {
+  const random = createSeededRandom(hashString(prompt));
+  const hue = Math.floor(random() * 360);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="360"><defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},70%,80%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,55%)"/></linearGradient></defs><rect width="640" height="360" fill="url(#g)"/><text x="320" y="190" font-family="monospace" font-size="28" fill="white" text-anchor="middle">MOCK IMAGE</text></svg>`;
+  return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`;
+};
+
+/**
+ * 粗略估算 token 数（约 4 字符 / token），用于模拟 usage
+ */
+const estimateTokens = (text: string) =>
+  Math.max(1, Math.ceil(text.length / 4));
+
+/**
+ * 可被 AbortSignal 打断的等待；计时结束时移除监听，流式响应逐分片等待不会在同一 signal 上累积监听
+ */
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted)
+      return reject(new DOMException("Aborted", "AbortError"));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * 以 OpenAI Chat Completions 格式返回模拟响应
+ * - init 为 provider.buildRequest 构建的请求（读取 messages / stream）
+ * - image 动作返回带 images 字段的非流式响应（与图片接口格式一致）
+ */
+export const mockFetch = async (
+  action: UsageAction,
+  init: RequestInit,
+): Promise<Response> => {
+  const body = JSON.parse(String(init.body || "{}"));
+  // 多模态消息（如带参考图的图片请求）只取文字部分
+  const messages: ChatMessage[] = (body.messages || []).map((m: any) => ({
+    ...m,
+    content: Array.isArray(m.content)
+      ? m.content.map((part: any) => part.text || "").join("")
+      : m.content,
+  }));
+  const signal = init.signal;
+  const promptTokens = estimateTokens(
+    messages.map((m) => m.content).join("\n"),
+  );
+
+  await sleep(CHUNK_DELAY_MS, signal);
+
+  if (action === "image") {
+    return Response.json({
+      choices: [
+        {
+          message: {
+            content: "",
+            images: [
+              {
+                image_url: {
+                  url: generateMockImageUrl(
+                    messages.map((m) => m.content).join("\n"),
+                  ),
+                },
+              },
+            ],
+          },
+        },
+      ],
+      usage: { prompt_tokens: promptTokens, completion_tokens: 0 },
+    });
+  }
+
+  const content = generateMockContent(action, messages);
+  const toolCalls = generateMockToolCalls(messages, body.tools);
+  const usage = {
+    prompt_tokens: promptTokens,
+    completion_tokens: estimateTokens(content),
+  };
+
+  if (!body.stream) {
+    return Response.json({
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content,
+            ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+          },
+        },
+      ],
+      usage,
+    });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: unknown) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      try {
+        for (let i = 0; i < content.length; i += CHUNK_SIZE) {
+          send({
+            choices: [{ delta: { content: content.slice(i, i + CHUNK_SIZE) } }],
+          });
+          await sleep(CHUNK_DELAY_MS, signal);
+        }
+        if (toolCalls.length > 0) {
+          send({
+            choices: [
+              {
+                delta: {
+                  tool_calls: toolCalls.map((call, index) => ({
+                    index,
+                    ...call,
+                  })),
+                },
+              },
+            ],
+          });
+        }
+        send({ choices: [], usage });
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      } catch (e) {
+        controller.error(e);
+      }
+    },
+  });
+  return new Response(stream, {
+    headers: { "Content-Type": "text/event-stream" },
+  });
+};
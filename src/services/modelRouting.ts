@@ -0,0 +1,95 @@
+/**
+ * 模型配置（Profile）与按动作路由
+ * - Profile 是一个具名的完整文本端点（协议 / 地址 / 模型 / Key）
+ * - 路由表把每个 AI 动作映射到某个 Profile；未映射或 Profile 已删除时回退到当前模式的文本接口
+ */
+import type { ChatEndpoint } from "./llmProviders";
+import type { UsageAction } from "./usage";
+
+export interface ModelProfile extends ChatEndpoint {
+  id: string;
+  name: string;
+}
+
+/**
+ * 可路由的文本动作（图片生成使用独立的 image 配置）
+ */
+export type RoutedAction = Exclude<UsageAction, "image">;
+
+/**
+ * 动作 -> Profile ID；空字符串表示使用默认文本接口
+ */
+export type ModelRouting = Record<RoutedAction, string>;
+
+/**
+ * 路由表中的动作顺序（设置页按此顺序渲染）
+ */
+export const ROUTED_ACTIONS: RoutedAction[] = [
+  "expand",
+  "followUp",
+  "deepDive",
+  "derivedQuestions",
+  "summary",
+  "chat",
+  "translate",
+  "outline",
+];
+
+export const createEmptyRouting = (): ModelRouting =>
+  Object.fromEntries(ROUTED_ACTIONS.map((a) => [a, ""])) as ModelRouting;
+
+export const createModelProfile = (
+  overrides: Partial<ModelProfile> = {},
+): ModelProfile => ({
+  id: `profile-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  name: "",
+  provider: "openai",
+  baseUrl: "",
+  model: "",
+  apiKey: "",
+  ...overrides,
+});
+
+/**
+ * 读取 localStorage 中的路由表，补齐缺失的动作（兼容新增动作）
+ */
+export const parseRouting = (saved: string | null): ModelRouting => {
+  const routing = createEmptyRouting();
+  if (!saved) return routing;
+  try {
+    const parsed = JSON.parse(saved);
+    for (const action of ROUTED_ACTIONS) {
+      if (typeof parsed?.[action] === "string")
+        routing[action] = parsed[action];
+    }
+  } catch (e) {
+    console.warn("[ModelRouting] 路由表解析失败，使用默认值", e);
+  }
+  return routing;
+};
+
+export const parseProfiles = (saved: string | null): ModelProfile[] => {
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("[ModelRouting] Profile 列表解析失败", e);
+    return [];
+  }
+};
+
+/**
+ * 按动作解析应使用的端点
+ */
+export const resolveRoutedEndpoint = (
+  action: RoutedAction,
+  profiles: ModelProfile[],
+  routing: ModelRouting,
+  fallback: () => ChatEndpoint,
+): ChatEndpoint => {
+  const profile = profiles.find((p) => p.id === routing[action]);
+  if (!profile) return fallback();
+  const { provider, baseUrl, model, apiKey } = profile;
+  return { provider, baseUrl, model, apiKey };
+};
@@ -0,0 +1,53 @@
+/**
+ * 项目 JSON 导出
+ * - 导出节点完整数据（含回答、思考过程、风格与图片引用）与边，便于备份和审计模型的推理过程
+ * - 去掉生成中的临时状态，以及只存在于内存的内联图片数据
+ */
+import { stripInlineImages } from "./imageHistory";
+
+export const PROJECT_EXPORT_VERSION = 1;
+
+/** 仅在生成过程中有意义的字段 */
+const TRANSIENT_KEYS = [
+  "isExpanding",
+  "isDeepDiving",
+  "isImageLoading",
+  "isGeneratingQuestions",
+  "retryStatus",
+  "error",
+];
+
+const cleanNodeData = (data: Record<string, any> = {}) => {
+  const cleaned = Object.fromEntries(
+    Object.entries(data).filter(([key]) => !TRANSIENT_KEYS.includes(key)),
+  );
+  if (
+    typeof cleaned.imageUrl === "string" &&
+    cleaned.imageUrl.startsWith("data:")
+  )
+    cleaned.imageUrl = null;
+  if (cleaned.imageHistory)
+    cleaned.imageHistory = stripInlineImages(cleaned.imageHistory);
+  return cleaned;
+};
+
+export const buildProjectExport = (
+  nodes: any[],
+  edges: any[],
+  now = new Date(),
+) => ({
+  version: PROJECT_EXPORT_VERSION,
+  exportedAt: now.toISOString(),
+  nodes: nodes.map((node) => ({
+    id: node.id,
+    type: node.type,
+    position: node.position,
+    data: cleanNodeData(node.data),
+  })),
+  edges: edges.map((edge) => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    ...(edge.type && { type: edge.type }),
+  })),
+});
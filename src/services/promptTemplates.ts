@@ -0,0 +1,127 @@
+/**
+ * 可编辑的 Prompt 模板
+ * - 内置模板来自 i18n 的 prompts.*，用户可按“全局 / 当前项目”覆盖（项目优先）
+ * - 覆盖文本使用与 i18n 相同的 {name} 占位符，但只替换已知参数，其余花括号原样保留（便于书写 JSON 示例）
+ */
+
+export type PromptKey =
+  | "system"
+  | "answerPrompt"
+  | "deepDivePrompt"
+  | "summaryPrompt"
+  | "summaryBriefPrompt"
+  | "summaryOutlinePrompt"
+  | "summaryDecisionPrompt"
+  | "summaryMinutesPrompt"
+  | "image"
+  | "imageVariation"
+  | "derivedQuestionsPrompt";
+
+export type PromptOverrides = Partial<Record<PromptKey, string>>;
+
+export type PromptScope = "user" | "project";
+
+export interface PromptTemplateMeta {
+  key: PromptKey;
+  /** 渲染时可用的参数 */
+  params: string[];
+  /** 覆盖文本中必须出现的参数（缺失会导致 prompt 丢失关键上下文） */
+  required: string[];
+}
+
+/**
+ * 可覆盖的模板列表（编辑器按此顺序展示）
+ */
+export const PROMPT_TEMPLATES: PromptTemplateMeta[] = [
+  { key: "system", params: [], required: [] },
+  {
+    key: "answerPrompt",
+    params: ["rootTopic", "context", "question"],
+    required: ["rootTopic", "context", "question"],
+  },
+  {
+    key: "deepDivePrompt",
+    params: ["rootTopic", "context", "topic", "detail"],
+    required: ["rootTopic", "context", "topic"],
+  },
+  { key: "summaryPrompt", params: ["nodes"], required: ["nodes"] },
+  { key: "summaryBriefPrompt", params: ["nodes"], required: ["nodes"] },
+  { key: "summaryOutlinePrompt", params: ["nodes"], required: ["nodes"] },
+  { key: "summaryDecisionPrompt", params: ["nodes"], required: ["nodes"] },
+  { key: "summaryMinutesPrompt", params: ["nodes"], required: ["nodes"] },
+  {
+    key: "image",
+    params: ["topic", "detail", "context"],
+    required: ["topic"],
+  },
+  { key: "imageVariation", params: ["prompt"], required: ["prompt"] },
+  {
+    key: "derivedQuestionsPrompt",
+    params: ["rootTopic", "context", "topic", "detail"],
+    required: ["context", "topic", "detail"],
+  },
+];
+
+const USER_STORAGE_KEY = "thinkflow_prompt_overrides";
+
+export const getPromptStorageKey = (
+  scope: PromptScope,
+  projectId?: string | null,
+) =>
+  scope === "user"
+    ? USER_STORAGE_KEY
+    : `thinkflow_${projectId}_prompt_overrides`;
+
+export const loadPromptOverrides = (storageKey: string): PromptOverrides => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.warn("[Prompts] 覆盖模板解析失败", e);
+  }
+  return {};
+};
+
+export const savePromptOverrides = (
+  storageKey: string,
+  overrides: PromptOverrides,
+) => {
+  if (Object.keys(overrides).length === 0) {
+    localStorage.removeItem(storageKey);
+  } else {
+    localStorage.setItem(storageKey, JSON.stringify(overrides));
+  }
+};
+
+/**
+ * 取生效的覆盖文本：项目覆盖 > 全局覆盖；均无时返回 undefined（使用内置模板）
+ */
+export const resolvePromptOverride = (
+  key: PromptKey,
+  projectOverrides: PromptOverrides,
+  userOverrides: PromptOverrides,
+): string | undefined => projectOverrides[key] ?? userOverrides[key];
+
+/**
+ * 检查覆盖文本缺少的必填占位符
+ */
+export const findMissingPlaceholders = (
+  key: PromptKey,
+  template: string,
+): string[] => {
+  const meta = PROMPT_TEMPLATES.find((m) => m.key === key);
+  return (meta?.required || []).filter(
+    (name) => !template.includes(`{${name}}`),
+  );
+};
+
+/**
+ * 渲染覆盖模板：只替换 params 中存在的 {name}
+ */
+export const renderPromptTemplate = (
+  template: string,
+  params: Record<string, string> = {},
+): string =>
+  template.replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? params[name] : match,
+  );
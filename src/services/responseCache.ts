@@ -0,0 +1,120 @@
+/**
+ * AI 响应本地缓存（IndexedDB）
+ * - 用于结果可复用的请求（深挖、衍生问题）：同一模型 + 同一渲染后 prompt + 同一上下文路径直接返回上次结果
+ * - 条目超过 TTL 视为失效；调用方可传 bypass 跳过读取（仍会写入新结果）
+ * - 缓存只是加速手段：IndexedDB 不可用或读写失败时静默降级为直接请求
+ */
+import type { ChatMessage } from "./llmProviders";
+
+const DB_NAME = "thinkflow_cache";
+const DB_VERSION = 1;
+const STORE_NAME = "responses";
+
+export const DEFAULT_CACHE_TTL_HOURS = 24;
+
+export interface CachedResponse {
+  content: string;
+  reasoning: string;
+  createdAt: number;
+}
+
+/**
+ * 缓存键：直接使用各部分的 JSON 文本（IndexedDB 支持任意长度字符串键，避免哈希碰撞）
+ */
+export const buildCacheKey = (parts: {
+  provider: string;
+  baseUrl: string;
+  model: string;
+  context: string;
+  messages: ChatMessage[];
+}): string =>
+  JSON.stringify([
+    parts.provider,
+    parts.baseUrl,
+    parts.model,
+    parts.context,
+    parts.messages.map((m) => [m.role, m.content]),
+  ]);
+
+export const isCacheEntryFresh = (
+  entry: CachedResponse,
+  ttlMs: number,
+  now = Date.now(),
+) => now - entry.createdAt < ttlMs;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") return resolve(null);
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn(
+        "[ResponseCache] IndexedDB 打开失败，缓存已禁用",
+        request.error,
+      );
+      resolve(null);
+    };
+  });
+  return dbPromise;
+};
+
+/**
+ * 在单个事务中执行操作，失败时返回 undefined
+ */
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+  return new Promise((resolve) => {
+    try {
+      const request = operation(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("[ResponseCache] 缓存读写失败", request.error);
+        resolve(undefined);
+      };
+    } catch (e) {
+      console.warn("[ResponseCache] 缓存读写失败", e);
+      resolve(undefined);
+    }
+  });
+};
+
+/**
+ * 读取未过期的缓存；过期条目顺带删除
+ */
+export const readCachedResponse = async (
+  key: string,
+  ttlMs: number,
+): Promise<CachedResponse | null> => {
+  const entry = await runRequest<CachedResponse>("readonly", (store) =>
+    store.get(key),
+  );
+  if (!entry) return null;
+  if (isCacheEntryFresh(entry, ttlMs)) return entry;
+  await runRequest("readwrite", (store) => store.delete(key));
+  return null;
+};
+
+export const writeCachedResponse = async (
+  key: string,
+  value: Omit<CachedResponse, "createdAt">,
+) => {
+  await runRequest("readwrite", (store) =>
+    store.put({ ...value, createdAt: Date.now() }, key),
+  );
+};
+
+export const clearResponseCache = async () => {
+  await runRequest("readwrite", (store) => store.clear());
+};
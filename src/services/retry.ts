@@ -0,0 +1,134 @@
+/**
+ * AI 请求重试策略
+ * - 指数退避 + 随机抖动，优先遵循服务端返回的 Retry-After
+ * - 仅重试限流（429）、超时（408）、服务端错误（5xx）与网络异常；用户主动停止不重试
+ */
+
+export interface RetryInfo {
+  /** 即将进行的尝试序号（从 2 开始） */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: any;
+}
+
+export interface RetryOptions {
+  /** 最大尝试次数（含首次），小于 1 时按 1 处理 */
+  maxAttempts: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期），返回毫秒；无法解析时返回 null
+ */
+export const parseRetryAfter = (
+  value: string | null | undefined,
+  now = Date.now(),
+): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - now);
+  return null;
+};
+
+/**
+ * 由非 2xx 响应构造错误：附带 status 与 retryAfterMs，供 getErrorMessage / 重试策略使用
+ */
+export const createHttpError = (response: Response, message: string) => {
+  const error: any = new Error(message);
+  error.status = response.status;
+  const retryAfterMs = parseRetryAfter(response.headers?.get("Retry-After"));
+  if (retryAfterMs !== null) error.retryAfterMs = retryAfterMs;
+  return error;
+};
+
+/**
+ * 判断错误是否值得重试
+ */
+export const isRetryableError = (error: any): boolean => {
+  if (!error || error.name === "AbortError") return false;
+  // fetch 的网络层异常（断网 / DNS / 连接被重置）
+  if (error.name === "TypeError") return true;
+  const status = error.status;
+  return status === 429 || status === 408 || status >= 500;
+};
+
+/**
+ * 计算第 attempt 次失败后的等待时间
+ * - 服务端给出 retryAfterMs 时直接使用（仍受 maxDelayMs 限制）
+ * - 否则 base * 2^(attempt-1)，并叠加 0~50% 抖动，避免并发请求同时重试
+ */
+export const getRetryDelay = (
+  attempt: number,
+  error: any,
+  baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  maxDelayMs = DEFAULT_MAX_DELAY_MS,
+): number => {
+  if (typeof error?.retryAfterMs === "number") {
+    return Math.min(error.retryAfterMs, maxDelayMs);
+  }
+  const exponential = baseDelayMs * 2 ** (attempt - 1);
+  const jitter = exponential * 0.5 * Math.random();
+  return Math.min(exponential + jitter, maxDelayMs);
+};
+
+/**
+ * 可被 AbortSignal 打断的等待
+ */
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * 按重试策略执行 fn；最后一次失败的错误原样抛出
+ */
+export const withRetry = async <T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+): Promise<T> => {
+  const maxAttempts = Math.max(1, Math.floor(options.maxAttempts) || 1);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error: any) {
+      if (attempt >= maxAttempts || !isRetryableError(error)) throw error;
+
+      const delayMs = getRetryDelay(
+        attempt,
+        error,
+        options.baseDelayMs,
+        options.maxDelayMs,
+      );
+      options.onRetry?.({
+        attempt: attempt + 1,
+        maxAttempts,
+        delayMs,
+        error,
+      });
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
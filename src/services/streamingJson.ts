@@ -0,0 +1,255 @@
+/**
+ * 流式 JSON 增量解析
+ * - 按块写入模型输出，每当一个值（字符串、数字、对象、数组元素……）完整结束时回调 onValue(path, value)
+ * - path 为从根到该值的键 / 下标，如 ["nodes", 0] 表示 nodes 数组的第一个元素
+ * - 跳过根值之前的文本（```json 围栏、前置说明），根值结束后忽略其余内容
+ * - 遇到非法 JSON 后停止解析（failed 为 true）；最终结果仍由 parseWithRepair 校验与修复
+ */
+
+export type JsonPath = (string | number)[];
+
+export interface StreamingJsonParser {
+  write: (chunk: string) => void;
+  /** 根值已完整解析 */
+  readonly done: boolean;
+  /** 遇到非法 JSON，后续写入被忽略 */
+  readonly failed: boolean;
+}
+
+type Frame =
+  | {
+      type: "object";
+      path: JsonPath;
+      value: Record<string, unknown>;
+      key: string | null;
+      expect: "key" | "colon" | "value" | "comma";
+    }
+  | {
+      type: "array";
+      path: JsonPath;
+      value: unknown[];
+      expect: "value" | "comma";
+    };
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+const LITERAL_CHAR = /[0-9a-zA-Z+\-.]/;
+const WHITESPACE = /\s/;
+
+export const createStreamingJsonParser = (
+  onValue: (path: JsonPath, value: unknown) => void,
+): StreamingJsonParser => {
+  const stack: Frame[] = [];
+  let started = false;
+  let done = false;
+  let failed = false;
+
+  // 正在读取的字符串 / 字面量（可能跨块）
+  let string: { text: string; isKey: boolean } | null = null;
+  let escape: "" | "\\" | "u" = "";
+  let unicode = "";
+  let literal: string | null = null;
+
+  const top = () => stack[stack.length - 1];
+
+  const pathOfNextValue = (): JsonPath => {
+    const frame = top();
+    if (!frame) return [];
+    return frame.type === "object"
+      ? [...frame.path, frame.key!]
+      : [...frame.path, frame.value.length];
+  };
+
+  /**
+   * 一个值结束：写入父容器并回调
+   */
+  const complete = (value: unknown) => {
+    const path = pathOfNextValue();
+    const frame = top();
+    if (!frame) {
+      done = true;
+    } else if (frame.type === "object") {
+      frame.value[frame.key!] = value;
+      frame.expect = "comma";
+    } else {
+      frame.value.push(value);
+      frame.expect = "comma";
+    }
+    onValue(path, value);
+  };
+
+  const open = (type: "object" | "array") => {
+    const path = pathOfNextValue();
+    stack.push(
+      type === "object"
+        ? { type, path, value: {}, key: null, expect: "key" }
+        : { type, path, value: [], expect: "value" },
+    );
+  };
+
+  const close = () => {
+    const frame = stack.pop()!;
+    complete(frame.value);
+  };
+
+  const finishLiteral = () => {
+    const text = literal!;
+    literal = null;
+    try {
+      complete(JSON.parse(text));
+    } catch {
+      failed = true;
+    }
+  };
+
+  const readStringChar = (ch: string) => {
+    if (escape === "u") {
+      unicode += ch;
+      if (unicode.length < 4) return;
+      const code = parseInt(unicode, 16);
+      if (Number.isNaN(code)) {
+        failed = true;
+        return;
+      }
+      string!.text += String.fromCharCode(code);
+      escape = "";
+      unicode = "";
+      return;
+    }
+    if (escape === "\\") {
+      if (ch === "u") {
+        escape = "u";
+        return;
+      }
+      if (!(ch in ESCAPES)) {
+        failed = true;
+        return;
+      }
+      string!.text += ESCAPES[ch];
+      escape = "";
+      return;
+    }
+    if (ch === "\\") {
+      escape = "\\";
+      return;
+    }
+    if (ch !== '"') {
+      string!.text += ch;
+      return;
+    }
+
+    const { text, isKey } = string!;
+    string = null;
+    if (isKey) {
+      const frame = top() as Extract<Frame, { type: "object" }>;
+      frame.key = text;
+      frame.expect = "colon";
+    } else {
+      complete(text);
+    }
+  };
+
+  /**
+   * 在容器中处理结构字符（非字符串 / 字面量内部）
+   */
+  const readStructureChar = (ch: string) => {
+    if (WHITESPACE.test(ch)) return;
+    const frame = top();
+
+    if (frame.expect === "value") {
+      if (ch === "{") return open("object");
+      if (ch === "[") return open("array");
+      if (ch === '"') {
+        string = { text: "", isKey: false };
+        return;
+      }
+      if (LITERAL_CHAR.test(ch)) {
+        literal = ch;
+        return;
+      }
+      // 空数组或尾逗号
+      if (ch === "]" && frame.type === "array") return close();
+      failed = true;
+      return;
+    }
+
+    if (frame.type === "object" && frame.expect === "key") {
+      if (ch === '"') {
+        string = { text: "", isKey: true };
+        return;
+      }
+      // 空对象或尾逗号
+      if (ch === "}") return close();
+      failed = true;
+      return;
+    }
+
+    if (frame.type === "object" && frame.expect === "colon") {
+      if (ch === ":") frame.expect = "value";
+      else failed = true;
+      return;
+    }
+
+    // expect === "comma"
+    if (ch === ",") {
+      frame.expect = frame.type === "object" ? "key" : "value";
+      return;
+    }
+    if (
+      (ch === "}" && frame.type === "object") ||
+      (ch === "]" && frame.type === "array")
+    ) {
+      return close();
+    }
+    failed = true;
+  };
+
+  const write = (chunk: string) => {
+    for (const ch of chunk) {
+      if (done || failed) return;
+
+      if (!started) {
+        if (ch === "{" || ch === "[") {
+          started = true;
+          open(ch === "{" ? "object" : "array");
+        }
+        continue;
+      }
+
+      if (string) {
+        readStringChar(ch);
+        continue;
+      }
+
+      if (literal !== null) {
+        if (LITERAL_CHAR.test(ch)) {
+          literal += ch;
+          continue;
+        }
+        finishLiteral();
+        if (done || failed) return;
+      }
+
+      readStructureChar(ch);
+    }
+  };
+
+  return {
+    write,
+    get done() {
+      return done;
+    },
+    get failed() {
+      return failed;
+    },
+  };
+};
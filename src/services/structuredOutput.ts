@@ -0,0 +1,225 @@
+/**
+ * 结构化输出校验与修复
+ * - 以 JSON Schema 子集声明模型应返回的结构（object / array / string）
+ * - 解析分两级：严格 JSON.parse 失败时做宽松修复（围栏、首尾杂文、尾逗号）
+ * - 校验失败返回可读的错误路径，供 useThinkFlow 拼入重新提示（re-prompt）
+ */
+
+export type Schema =
+  | {
+      type: "object";
+      properties: Record<string, Schema>;
+      required?: string[];
+    }
+  | { type: "array"; items: Schema; minItems?: number }
+  | { type: "string"; minLength?: number };
+
+/**
+ * 单个节点：{ text, description }
+ */
+const NODE_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    text: { type: "string", minLength: 1 },
+    description: { type: "string" },
+  },
+  required: ["text", "description"],
+};
+
+/**
+ * 子节点列表：[{ text, description }]
+ */
+const NODE_LIST_SCHEMA: Schema = {
+  type: "array",
+  minItems: 1,
+  items: NODE_SCHEMA,
+};
+
+/**
+ * 根节点扩展：{ overview?, nodes: [{ text, description }] }
+ * - 系统 prompt 只要求 nodes，overview 为可选（模型给出时作为根节点描述）
+ */
+export const EXPANSION_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    overview: { type: "string" },
+    nodes: NODE_LIST_SCHEMA,
+  },
+  required: ["nodes"],
+};
+
+/**
+ * 子节点展开（自动探索）：{ nodes: [{ text, description }] }，不需要 overview
+ */
+export const SUB_NODES_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    nodes: NODE_LIST_SCHEMA,
+  },
+  required: ["nodes"],
+};
+
+/**
+ * 衍生问题：{ questions: string[] }
+ */
+export const DERIVED_QUESTIONS_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    questions: {
+      type: "array",
+      minItems: 1,
+      items: { type: "string", minLength: 1 },
+    },
+  },
+  required: ["questions"],
+};
+
+/**
+ * 文档大纲：{ title, summary, sections: [{ text, description, children: [{ text, description }] }] }
+ */
+export const DOCUMENT_OUTLINE_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    summary: { type: "string" },
+    sections: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          text: { type: "string", minLength: 1 },
+          description: { type: "string" },
+          children: { type: "array", items: NODE_SCHEMA },
+        },
+        required: ["text", "description"],
+      },
+    },
+  },
+  required: ["title", "sections"],
+};
+
+/**
+ * 导图翻译：{ items: [{ id, label, description, detailedContent? }] }
+ */
+export const TRANSLATION_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    items: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string", minLength: 1 },
+          label: { type: "string", minLength: 1 },
+          description: { type: "string" },
+          detailedContent: { type: "string" },
+        },
+        required: ["id", "label"],
+      },
+    },
+  },
+  required: ["items"],
+};
+
+/**
+ * 修复后仍不符合 schema 时抛出
+ */
+export class StructuredOutputError extends Error {
+  validationError: string;
+
+  constructor(validationError: string) {
+    super(`Invalid structured output: ${validationError}`);
+    this.name = "StructuredOutputError";
+    this.validationError = validationError;
+  }
+}
+
+/**
+ * 按 schema 校验，返回错误列表（空数组表示通过）
+ * - 多余字段不视为错误
+ */
+export const validateSchema = (
+  value: any,
+  schema: Schema,
+  path = "$",
+): string[] => {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return [`${path} should be a string`];
+      if (schema.minLength && value.trim().length < schema.minLength)
+        return [`${path} should not be empty`];
+      return [];
+    case "array": {
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      if (schema.minItems && value.length < schema.minItems)
+        return [`${path} should have at least ${schema.minItems} item(s)`];
+      return value.flatMap((item, i) =>
+        validateSchema(item, schema.items, `${path}[${i}]`),
+      );
+    }
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value))
+        return [`${path} should be an object`];
+      const errors: string[] = [];
+      for (const key of schema.required || []) {
+        if (!(key in value)) errors.push(`${path}.${key} is required`);
+      }
+      for (const [key, child] of Object.entries(schema.properties)) {
+        if (key in value)
+          errors.push(...validateSchema(value[key], child, `${path}.${key}`));
+      }
+      return errors;
+    }
+  }
+};
+
+/**
+ * 宽松解析：容忍模型输出中常见的格式瑕疵
+ * - Markdown 围栏与 JSON 前后的解释性文字
+ * - 对象 / 数组末尾多余的逗号
+ * 仍无法解析时抛出 SyntaxError
+ */
+export const lenientParseJson = (raw: string): any => {
+  const text = raw.trim();
+  try {
+    return JSON.parse(text);
+  } catch {
+    // 继续尝试修复
+  }
+
+  // 截取第一个 { / [ 到最后一个 } / ]，顺带去掉围栏与前后说明文字
+  const start = text.search(/[{[]/);
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  if (start === -1 || end <= start) {
+    throw new SyntaxError("No JSON found in model output");
+  }
+  const candidate = text.slice(start, end + 1);
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return JSON.parse(candidate.replace(/,\s*([}\]])/g, "$1"));
+  }
+};
+
+export type StructuredResult<T> =
+  { ok: true; value: T } | { ok: false; error: string };
+
+/**
+ * 解析并校验模型输出：先严格解析，失败再宽松解析，最后按 schema 校验
+ */
+export const parseStructured = <T = any>(
+  raw: string,
+  schema: Schema,
+): StructuredResult<T> => {
+  let value: any;
+  try {
+    value = lenientParseJson(raw);
+  } catch (e: any) {
+    return { ok: false, error: `not valid JSON (${e.message})` };
+  }
+  const errors = validateSchema(value, schema);
+  if (errors.length > 0) return { ok: false, error: errors.join("; ") };
+  return { ok: true, value };
+};
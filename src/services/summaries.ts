@@ -0,0 +1,124 @@
+/**
+ * 总结格式与总结历史
+ * - 每种格式对应一个可覆盖的 Prompt 模板（见 promptTemplates.ts），参数均为 {nodes}
+ * - 每次生成的总结按项目保存在 localStorage（格式、模型、时间），可浏览、对比与下载
+ */
+import type { PromptKey } from "./promptTemplates";
+
+export type SummaryFormat =
+  "insight" | "executiveBrief" | "outline" | "decisionMemo" | "meetingMinutes";
+
+/**
+ * 可选格式（弹窗按此顺序展示）；insight 为原有的洞察式总结
+ */
+export const SUMMARY_FORMATS: {
+  format: SummaryFormat;
+  promptKey: PromptKey;
+}[] = [
+  { format: "insight", promptKey: "summaryPrompt" },
+  { format: "executiveBrief", promptKey: "summaryBriefPrompt" },
+  { format: "outline", promptKey: "summaryOutlinePrompt" },
+  { format: "decisionMemo", promptKey: "summaryDecisionPrompt" },
+  { format: "meetingMinutes", promptKey: "summaryMinutesPrompt" },
+];
+
+export const getSummaryPromptKey = (format: SummaryFormat): PromptKey =>
+  SUMMARY_FORMATS.find((f) => f.format === format)?.promptKey ||
+  "summaryPrompt";
+
+export interface SavedSummary {
+  id: string;
+  format: SummaryFormat;
+  content: string;
+  model: string;
+  createdAt: number;
+}
+
+/** 单个项目保留的总结数量上限（超出时丢弃最早的） */
+export const MAX_SAVED_SUMMARIES = 30;
+
+export const getSummariesStorageKey = (projectId: string) =>
+  `thinkflow_${projectId}_summaries`;
+
+export const createSavedSummary = (
+  summary: Omit<SavedSummary, "id" | "createdAt">,
+  now = Date.now(),
+): SavedSummary => ({
+  ...summary,
+  id: `summary-${now}-${Math.random().toString(36).slice(2, 8)}`,
+  createdAt: now,
+});
+
+export const loadSummaries = (storageKey: string): SavedSummary[] => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (e) {
+    console.warn("[Summaries] 总结历史解析失败", e);
+  }
+  return [];
+};
+
+export const saveSummaries = (
+  storageKey: string,
+  summaries: SavedSummary[],
+) => {
+  try {
+    if (summaries.length === 0) {
+      localStorage.removeItem(storageKey);
+    } else {
+      localStorage.setItem(
+        storageKey,
+        JSON.stringify(summaries.slice(-MAX_SAVED_SUMMARIES)),
+      );
+    }
+  } catch (error: any) {
+    console.warn("[Summaries] 总结历史保存失败:", error);
+  }
+};
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * 按行对比两份总结（最长公共子序列），用于对比视图
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  // lcs[i][j]：a[i..] 与 b[j..] 的最长公共子序列长度
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  return lines;
+};
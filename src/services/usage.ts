@@ -0,0 +1,137 @@
+/**
+ * Token 用量与费用统计
+ * - 价格表按模型配置（美元 / 百万 token），用户可在设置中编辑，保存在 localStorage
+ * - 用量记录按项目保存，汇总后展示在底部状态栏
+ */
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * 单个模型的价格（美元 / 百万 token）
+ */
+export interface ModelPrice {
+  model: string;
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * 产生用量的 AI 动作
+ */
+export type UsageAction =
+  | "expand"
+  | "followUp"
+  | "deepDive"
+  | "derivedQuestions"
+  | "summary"
+  | "chat"
+  | "translate"
+  | "outline"
+  | "image";
+
+export interface UsageRecord extends TokenUsage {
+  action: UsageAction;
+  model: string;
+  nodeId?: string;
+  cost: number;
+  timestamp: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  cost: number;
+  requests: number;
+  byAction: Partial<Record<UsageAction, TokenUsage & { cost: number }>>;
+}
+
+const PRICES_STORAGE_KEY = "thinkflow_model_prices";
+
+/**
+ * 内置价格（默认模式使用的模型），用户可覆盖
+ */
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: "google/gemini-2.5-flash", prompt: 0.3, completion: 2.5 },
+];
+
+/**
+ * 按项目保存用量记录的 localStorage key
+ */
+export const getUsageStorageKey = (projectId: string) =>
+  `thinkflow_${projectId}_usage`;
+
+export const loadModelPrices = (): ModelPrice[] => {
+  try {
+    const saved = localStorage.getItem(PRICES_STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.warn("[Usage] 价格表解析失败，使用默认值", e);
+  }
+  return DEFAULT_MODEL_PRICES.map((p) => ({ ...p }));
+};
+
+export const saveModelPrices = (prices: ModelPrice[]) => {
+  localStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+};
+
+/**
+ * 计算一次调用的费用；价格表中没有该模型时按 0 计
+ */
+export const calculateCost = (
+  usage: TokenUsage,
+  model: string,
+  prices: ModelPrice[],
+): number => {
+  const price = prices.find((p) => p.model.trim() === model);
+  if (!price) return 0;
+  return (
+    (usage.promptTokens * (Number(price.prompt) || 0) +
+      usage.completionTokens * (Number(price.completion) || 0)) /
+    1_000_000
+  );
+};
+
+/**
+ * 汇总用量记录（总计 + 按动作分组）
+ */
+export const summarizeUsage = (records: UsageRecord[]): UsageTotals => {
+  const totals: UsageTotals = {
+    promptTokens: 0,
+    completionTokens: 0,
+    cost: 0,
+    requests: records.length,
+    byAction: {},
+  };
+  for (const r of records) {
+    totals.promptTokens += r.promptTokens;
+    totals.completionTokens += r.completionTokens;
+    totals.cost += r.cost;
+
+    const bucket = (totals.byAction[r.action] ||= {
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+    });
+    bucket.promptTokens += r.promptTokens;
+    bucket.completionTokens += r.completionTokens;
+    bucket.cost += r.cost;
+  }
+  return totals;
+};
+
+/**
+ * 紧凑显示 token 数（1234 -> 1.2k）
+ */
+export const formatTokens = (count: number) =>
+  count >= 1_000_000
+    ? `${(count / 1_000_000).toFixed(1)}M`
+    : count >= 1000
+      ? `${(count / 1000).toFixed(1)}k`
+      : String(count);
+
+/**
+ * 显示费用：小额保留 4 位小数
+ */
+export const formatCost = (cost: number) =>
+  `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
@@ -1,10 +1,75 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import vue from "@vitejs/plugin-vue";
+import fs from "fs";
 import path from "path";
 
+/**
+ * 开发环境的对象存储替身（VITE_IMAGE_STORAGE=local）
+ * - PUT / GET / HEAD / DELETE /__local-storage/<bucket>/<path>，文件写入项目根目录的 .local-storage/
+ * - 接口没有鉴权，且开发服务器监听 0.0.0.0，因此仅在 VITE_IMAGE_STORAGE=local 时注册
+ */
+const localStoragePlugin = (): Plugin => {
+  const root = path.resolve(__dirname, ".local-storage");
+  const mimeTypes: Record<string, string> = {
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".webp": "image/webp",
+    ".gif": "image/gif",
+    ".svg": "image/svg+xml",
+  };
+  return {
+    name: "thinkflow-local-storage",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use("/__local-storage", (req, res) => {
+        const file = path.join(
+          root,
+          decodeURIComponent((req.url || "").split("?")[0]),
+        );
+        // 拒绝越出存储目录的路径
+        if (!file.startsWith(root + path.sep)) {
+          res.statusCode = 400;
+          return res.end();
+        }
+        if (req.method === "PUT") {
+          const chunks: Buffer[] = [];
+          req.on("data", (chunk) => chunks.push(chunk));
+          req.on("end", () => {
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, Buffer.concat(chunks));
+            res.statusCode = 201;
+            res.end();
+          });
+          return;
+        }
+        if (!fs.existsSync(file)) {
+          res.statusCode = 404;
+          return res.end();
+        }
+        if (req.method === "DELETE") {
+          fs.rmSync(file);
+          res.statusCode = 204;
+          return res.end();
+        }
+        res.setHeader(
+          "Content-Type",
+          mimeTypes[path.extname(file)] || "application/octet-stream",
+        );
+        if (req.method === "HEAD") return res.end();
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+  };
+};
+
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [vue()],
+export default defineConfig(({ mode }) => ({
+  plugins: [
+    vue(),
+    ...(loadEnv(mode, process.cwd()).VITE_IMAGE_STORAGE === "local"
+      ? [localStoragePlugin()]
+      : []),
+  ],
   server: {
     host: "0.0.0.0", // 允许通过 IP 访问
     port: 5173, // 你可以根据需要修改端口
@@ -21,4 +86,4 @@ export default defineConfig({
   build: {
     chunkSizeWarningLimit: 1000,
   },
-});
+}));